@@ -23,6 +23,27 @@ SET time_zone = "+00:00";
 
 -- --------------------------------------------------------
 
+--
+-- Table structure for table `api_key`
+--
+
+DROP TABLE IF EXISTS `api_key`;
+CREATE TABLE IF NOT EXISTS `api_key` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `name` varchar(100) NOT NULL,
+  `key_hash` char(64) NOT NULL,
+  `key_prefix` varchar(12) NOT NULL,
+  `role` varchar(20) NOT NULL DEFAULT 'public',
+  `mosque_id` int DEFAULT NULL,
+  `rate_limit` int DEFAULT NULL,
+  `enabled` tinyint(1) NOT NULL DEFAULT '1',
+  `created_at` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `key_hash` (`key_hash`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
+-- --------------------------------------------------------
+
 --
 -- Table structure for table `athan_calendar`
 --
@@ -32,17 +53,18 @@ CREATE TABLE IF NOT EXISTS `athan_calendar` (
   `id` bigint NOT NULL AUTO_INCREMENT,
   `athan_school_id` int NOT NULL,
   `city_id` int NOT NULL,
-  `date` varchar(10) NOT NULL,
+  `date` date NOT NULL,
   `data` json NOT NULL,
-  PRIMARY KEY (`id`)
-) ENGINE=MyISAM AUTO_INCREMENT=183 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+  `provider` varchar(20) DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `school_city_date` (`athan_school_id`,`city_id`,`date`)
+) ENGINE=InnoDB AUTO_INCREMENT=183 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 --
 -- Dumping data for table `athan_calendar`
 --
 
 INSERT INTO `athan_calendar` (`id`, `athan_school_id`, `city_id`, `date`, `data`) VALUES
-(33, 3, 1, '2025-09-01', '{\"Asr\": \"17:05 (+01)\", \"Fajr\": \"05:26 (+01)\", \"Isha\": \"21:17 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:53 (+01)\", \"Shurooq\": \"07:01 (+01)\"}'),
 (3, 4, 1, '2025-09-01', '{\"Asr\": \"17:05 (+01)\", \"Fajr\": \"05:32 (+01)\", \"Isha\": \"21:23 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:53 (+01)\", \"Shurooq\": \"07:01 (+01)\"}'),
 (4, 4, 1, '2025-09-02', '{\"Asr\": \"17:04 (+01)\", \"Fajr\": \"05:33 (+01)\", \"Isha\": \"21:22 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:52 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
 (5, 4, 1, '2025-09-03', '{\"Asr\": \"17:03 (+01)\", \"Fajr\": \"05:34 (+01)\", \"Isha\": \"21:20 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:50 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
@@ -73,95 +95,6 @@ INSERT INTO `athan_calendar` (`id`, `athan_school_id`, `city_id`, `date`, `data`
 (30, 4, 1, '2025-09-28', '{\"Asr\": \"16:42 (+01)\", \"Fajr\": \"05:54 (+01)\", \"Isha\": \"20:46 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:16 (+01)\", \"Shurooq\": \"07:20 (+01)\"}'),
 (31, 4, 1, '2025-09-29', '{\"Asr\": \"16:41 (+01)\", \"Fajr\": \"05:55 (+01)\", \"Isha\": \"20:44 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:14 (+01)\", \"Shurooq\": \"07:20 (+01)\"}'),
 (32, 4, 1, '2025-09-30', '{\"Asr\": \"16:41 (+01)\", \"Fajr\": \"05:56 (+01)\", \"Isha\": \"20:43 (+01)\", \"Dhuhr\": \"13:17 (+01)\", \"Maghrib\": \"19:13 (+01)\", \"Shurooq\": \"07:21 (+01)\"}'),
-(34, 3, 1, '2025-09-02', '{\"Asr\": \"17:04 (+01)\", \"Fajr\": \"05:27 (+01)\", \"Isha\": \"21:15 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:52 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
-(35, 3, 1, '2025-09-03', '{\"Asr\": \"17:03 (+01)\", \"Fajr\": \"05:28 (+01)\", \"Isha\": \"21:14 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:50 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
-(36, 3, 1, '2025-09-04', '{\"Asr\": \"17:03 (+01)\", \"Fajr\": \"05:29 (+01)\", \"Isha\": \"21:12 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:49 (+01)\", \"Shurooq\": \"07:03 (+01)\"}'),
-(37, 3, 1, '2025-09-05', '{\"Asr\": \"17:02 (+01)\", \"Fajr\": \"05:30 (+01)\", \"Isha\": \"21:11 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:48 (+01)\", \"Shurooq\": \"07:04 (+01)\"}'),
-(38, 3, 1, '2025-09-06', '{\"Asr\": \"17:01 (+01)\", \"Fajr\": \"05:31 (+01)\", \"Isha\": \"21:09 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:46 (+01)\", \"Shurooq\": \"07:05 (+01)\"}'),
-(39, 3, 1, '2025-09-07', '{\"Asr\": \"17:00 (+01)\", \"Fajr\": \"05:32 (+01)\", \"Isha\": \"21:08 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:45 (+01)\", \"Shurooq\": \"07:05 (+01)\"}'),
-(40, 3, 1, '2025-09-08', '{\"Asr\": \"17:00 (+01)\", \"Fajr\": \"05:33 (+01)\", \"Isha\": \"21:06 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:43 (+01)\", \"Shurooq\": \"07:06 (+01)\"}'),
-(41, 3, 1, '2025-09-09', '{\"Asr\": \"16:59 (+01)\", \"Fajr\": \"05:34 (+01)\", \"Isha\": \"21:05 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:42 (+01)\", \"Shurooq\": \"07:07 (+01)\"}'),
-(42, 3, 1, '2025-09-10', '{\"Asr\": \"16:58 (+01)\", \"Fajr\": \"05:35 (+01)\", \"Isha\": \"21:03 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:41 (+01)\", \"Shurooq\": \"07:07 (+01)\"}'),
-(43, 3, 1, '2025-09-11', '{\"Asr\": \"16:57 (+01)\", \"Fajr\": \"05:35 (+01)\", \"Isha\": \"21:02 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:39 (+01)\", \"Shurooq\": \"07:08 (+01)\"}'),
-(44, 3, 1, '2025-09-12', '{\"Asr\": \"16:57 (+01)\", \"Fajr\": \"05:36 (+01)\", \"Isha\": \"21:00 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:38 (+01)\", \"Shurooq\": \"07:09 (+01)\"}'),
-(45, 3, 1, '2025-09-13', '{\"Asr\": \"16:56 (+01)\", \"Fajr\": \"05:37 (+01)\", \"Isha\": \"20:58 (+01)\", \"Dhuhr\": \"13:23 (+01)\", \"Maghrib\": \"19:37 (+01)\", \"Shurooq\": \"07:09 (+01)\"}'),
-(46, 3, 1, '2025-09-14', '{\"Asr\": \"16:55 (+01)\", \"Fajr\": \"05:38 (+01)\", \"Isha\": \"20:57 (+01)\", \"Dhuhr\": \"13:23 (+01)\", \"Maghrib\": \"19:35 (+01)\", \"Shurooq\": \"07:10 (+01)\"}'),
-(47, 3, 1, '2025-09-15', '{\"Asr\": \"16:54 (+01)\", \"Fajr\": \"05:39 (+01)\", \"Isha\": \"20:55 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:34 (+01)\", \"Shurooq\": \"07:11 (+01)\"}'),
-(48, 3, 1, '2025-09-16', '{\"Asr\": \"16:53 (+01)\", \"Fajr\": \"05:40 (+01)\", \"Isha\": \"20:54 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:32 (+01)\", \"Shurooq\": \"07:11 (+01)\"}'),
-(49, 3, 1, '2025-09-17', '{\"Asr\": \"16:52 (+01)\", \"Fajr\": \"05:40 (+01)\", \"Isha\": \"20:52 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:31 (+01)\", \"Shurooq\": \"07:12 (+01)\"}'),
-(50, 3, 1, '2025-09-18', '{\"Asr\": \"16:51 (+01)\", \"Fajr\": \"05:41 (+01)\", \"Isha\": \"20:51 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:30 (+01)\", \"Shurooq\": \"07:13 (+01)\"}'),
-(51, 3, 1, '2025-09-19', '{\"Asr\": \"16:51 (+01)\", \"Fajr\": \"05:42 (+01)\", \"Isha\": \"20:49 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:28 (+01)\", \"Shurooq\": \"07:13 (+01)\"}'),
-(52, 3, 1, '2025-09-20', '{\"Asr\": \"16:50 (+01)\", \"Fajr\": \"05:43 (+01)\", \"Isha\": \"20:48 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:27 (+01)\", \"Shurooq\": \"07:14 (+01)\"}'),
-(53, 3, 1, '2025-09-21', '{\"Asr\": \"16:49 (+01)\", \"Fajr\": \"05:44 (+01)\", \"Isha\": \"20:46 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:25 (+01)\", \"Shurooq\": \"07:15 (+01)\"}'),
-(54, 3, 1, '2025-09-22', '{\"Asr\": \"16:48 (+01)\", \"Fajr\": \"05:45 (+01)\", \"Isha\": \"20:45 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:24 (+01)\", \"Shurooq\": \"07:16 (+01)\"}'),
-(55, 3, 1, '2025-09-23', '{\"Asr\": \"16:47 (+01)\", \"Fajr\": \"05:45 (+01)\", \"Isha\": \"20:43 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:23 (+01)\", \"Shurooq\": \"07:16 (+01)\"}'),
-(56, 3, 1, '2025-09-24', '{\"Asr\": \"16:46 (+01)\", \"Fajr\": \"05:46 (+01)\", \"Isha\": \"20:42 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:21 (+01)\", \"Shurooq\": \"07:17 (+01)\"}'),
-(57, 3, 1, '2025-09-25', '{\"Asr\": \"16:45 (+01)\", \"Fajr\": \"05:47 (+01)\", \"Isha\": \"20:41 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:20 (+01)\", \"Shurooq\": \"07:18 (+01)\"}'),
-(58, 3, 1, '2025-09-26', '{\"Asr\": \"16:44 (+01)\", \"Fajr\": \"05:48 (+01)\", \"Isha\": \"20:39 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:18 (+01)\", \"Shurooq\": \"07:18 (+01)\"}'),
-(59, 3, 1, '2025-09-27', '{\"Asr\": \"16:43 (+01)\", \"Fajr\": \"05:48 (+01)\", \"Isha\": \"20:38 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:17 (+01)\", \"Shurooq\": \"07:19 (+01)\"}'),
-(60, 3, 1, '2025-09-28', '{\"Asr\": \"16:42 (+01)\", \"Fajr\": \"05:49 (+01)\", \"Isha\": \"20:36 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:16 (+01)\", \"Shurooq\": \"07:20 (+01)\"}'),
-(61, 3, 1, '2025-09-29', '{\"Asr\": \"16:42 (+01)\", \"Fajr\": \"05:50 (+01)\", \"Isha\": \"20:35 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:14 (+01)\", \"Shurooq\": \"07:20 (+01)\"}'),
-(62, 3, 1, '2025-09-30', '{\"Asr\": \"16:41 (+01)\", \"Fajr\": \"05:51 (+01)\", \"Isha\": \"20:33 (+01)\", \"Dhuhr\": \"13:17 (+01)\", \"Maghrib\": \"19:13 (+01)\", \"Shurooq\": \"07:21 (+01)\"}'),
-(63, 3, 1, '2025-09-01', '{\"Asr\": \"17:05 (+01)\", \"Fajr\": \"05:26 (+01)\", \"Isha\": \"21:17 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:53 (+01)\", \"Shurooq\": \"07:01 (+01)\"}'),
-(64, 3, 1, '2025-09-02', '{\"Asr\": \"17:04 (+01)\", \"Fajr\": \"05:27 (+01)\", \"Isha\": \"21:15 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:52 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
-(65, 3, 1, '2025-09-03', '{\"Asr\": \"17:03 (+01)\", \"Fajr\": \"05:28 (+01)\", \"Isha\": \"21:14 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:50 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
-(66, 3, 1, '2025-09-04', '{\"Asr\": \"17:03 (+01)\", \"Fajr\": \"05:29 (+01)\", \"Isha\": \"21:12 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:49 (+01)\", \"Shurooq\": \"07:03 (+01)\"}'),
-(67, 3, 1, '2025-09-05', '{\"Asr\": \"17:02 (+01)\", \"Fajr\": \"05:30 (+01)\", \"Isha\": \"21:11 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:48 (+01)\", \"Shurooq\": \"07:04 (+01)\"}'),
-(68, 3, 1, '2025-09-06', '{\"Asr\": \"17:01 (+01)\", \"Fajr\": \"05:31 (+01)\", \"Isha\": \"21:09 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:46 (+01)\", \"Shurooq\": \"07:05 (+01)\"}'),
-(69, 3, 1, '2025-09-07', '{\"Asr\": \"17:00 (+01)\", \"Fajr\": \"05:32 (+01)\", \"Isha\": \"21:08 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:45 (+01)\", \"Shurooq\": \"07:05 (+01)\"}'),
-(70, 3, 1, '2025-09-08', '{\"Asr\": \"17:00 (+01)\", \"Fajr\": \"05:33 (+01)\", \"Isha\": \"21:06 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:43 (+01)\", \"Shurooq\": \"07:06 (+01)\"}'),
-(71, 3, 1, '2025-09-09', '{\"Asr\": \"16:59 (+01)\", \"Fajr\": \"05:34 (+01)\", \"Isha\": \"21:05 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:42 (+01)\", \"Shurooq\": \"07:07 (+01)\"}'),
-(72, 3, 1, '2025-09-10', '{\"Asr\": \"16:58 (+01)\", \"Fajr\": \"05:35 (+01)\", \"Isha\": \"21:03 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:41 (+01)\", \"Shurooq\": \"07:07 (+01)\"}'),
-(73, 3, 1, '2025-09-11', '{\"Asr\": \"16:57 (+01)\", \"Fajr\": \"05:35 (+01)\", \"Isha\": \"21:02 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:39 (+01)\", \"Shurooq\": \"07:08 (+01)\"}'),
-(74, 3, 1, '2025-09-12', '{\"Asr\": \"16:56 (+01)\", \"Fajr\": \"05:36 (+01)\", \"Isha\": \"21:00 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:38 (+01)\", \"Shurooq\": \"07:09 (+01)\"}'),
-(75, 3, 1, '2025-09-13', '{\"Asr\": \"16:56 (+01)\", \"Fajr\": \"05:37 (+01)\", \"Isha\": \"20:58 (+01)\", \"Dhuhr\": \"13:23 (+01)\", \"Maghrib\": \"19:37 (+01)\", \"Shurooq\": \"07:09 (+01)\"}'),
-(76, 3, 1, '2025-09-14', '{\"Asr\": \"16:55 (+01)\", \"Fajr\": \"05:38 (+01)\", \"Isha\": \"20:57 (+01)\", \"Dhuhr\": \"13:23 (+01)\", \"Maghrib\": \"19:35 (+01)\", \"Shurooq\": \"07:10 (+01)\"}'),
-(77, 3, 1, '2025-09-15', '{\"Asr\": \"16:54 (+01)\", \"Fajr\": \"05:39 (+01)\", \"Isha\": \"20:55 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:34 (+01)\", \"Shurooq\": \"07:11 (+01)\"}'),
-(78, 3, 1, '2025-09-16', '{\"Asr\": \"16:53 (+01)\", \"Fajr\": \"05:40 (+01)\", \"Isha\": \"20:54 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:32 (+01)\", \"Shurooq\": \"07:11 (+01)\"}'),
-(79, 3, 1, '2025-09-17', '{\"Asr\": \"16:52 (+01)\", \"Fajr\": \"05:40 (+01)\", \"Isha\": \"20:52 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:31 (+01)\", \"Shurooq\": \"07:12 (+01)\"}'),
-(80, 3, 1, '2025-09-18', '{\"Asr\": \"16:51 (+01)\", \"Fajr\": \"05:41 (+01)\", \"Isha\": \"20:51 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:30 (+01)\", \"Shurooq\": \"07:13 (+01)\"}'),
-(81, 3, 1, '2025-09-19', '{\"Asr\": \"16:50 (+01)\", \"Fajr\": \"05:42 (+01)\", \"Isha\": \"20:49 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:28 (+01)\", \"Shurooq\": \"07:13 (+01)\"}'),
-(82, 3, 1, '2025-09-20', '{\"Asr\": \"16:50 (+01)\", \"Fajr\": \"05:43 (+01)\", \"Isha\": \"20:48 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:27 (+01)\", \"Shurooq\": \"07:14 (+01)\"}'),
-(83, 3, 1, '2025-09-21', '{\"Asr\": \"16:49 (+01)\", \"Fajr\": \"05:44 (+01)\", \"Isha\": \"20:46 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:25 (+01)\", \"Shurooq\": \"07:15 (+01)\"}'),
-(84, 3, 1, '2025-09-22', '{\"Asr\": \"16:48 (+01)\", \"Fajr\": \"05:45 (+01)\", \"Isha\": \"20:45 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:24 (+01)\", \"Shurooq\": \"07:16 (+01)\"}'),
-(85, 3, 1, '2025-09-23', '{\"Asr\": \"16:47 (+01)\", \"Fajr\": \"05:45 (+01)\", \"Isha\": \"20:43 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:23 (+01)\", \"Shurooq\": \"07:16 (+01)\"}'),
-(86, 3, 1, '2025-09-24', '{\"Asr\": \"16:46 (+01)\", \"Fajr\": \"05:46 (+01)\", \"Isha\": \"20:42 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:21 (+01)\", \"Shurooq\": \"07:17 (+01)\"}'),
-(87, 3, 1, '2025-09-25', '{\"Asr\": \"16:45 (+01)\", \"Fajr\": \"05:47 (+01)\", \"Isha\": \"20:41 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:20 (+01)\", \"Shurooq\": \"07:18 (+01)\"}'),
-(88, 3, 1, '2025-09-26', '{\"Asr\": \"16:44 (+01)\", \"Fajr\": \"05:48 (+01)\", \"Isha\": \"20:39 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:18 (+01)\", \"Shurooq\": \"07:18 (+01)\"}'),
-(89, 3, 1, '2025-09-27', '{\"Asr\": \"16:43 (+01)\", \"Fajr\": \"05:48 (+01)\", \"Isha\": \"20:38 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:17 (+01)\", \"Shurooq\": \"07:19 (+01)\"}'),
-(90, 3, 1, '2025-09-28', '{\"Asr\": \"16:42 (+01)\", \"Fajr\": \"05:49 (+01)\", \"Isha\": \"20:36 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:16 (+01)\", \"Shurooq\": \"07:20 (+01)\"}'),
-(91, 3, 1, '2025-09-29', '{\"Asr\": \"16:41 (+01)\", \"Fajr\": \"05:50 (+01)\", \"Isha\": \"20:35 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:14 (+01)\", \"Shurooq\": \"07:20 (+01)\"}'),
-(92, 3, 1, '2025-09-30', '{\"Asr\": \"16:40 (+01)\", \"Fajr\": \"05:51 (+01)\", \"Isha\": \"20:33 (+01)\", \"Dhuhr\": \"13:17 (+01)\", \"Maghrib\": \"19:13 (+01)\", \"Shurooq\": \"07:21 (+01)\"}'),
-(93, 1, 1, '2025-09-01', '{\"Asr\": \"17:05 (+01)\", \"Fajr\": \"05:34 (+01)\", \"Isha\": \"21:14 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:53 (+01)\", \"Shurooq\": \"07:01 (+01)\"}'),
-(94, 1, 1, '2025-09-02', '{\"Asr\": \"17:04 (+01)\", \"Fajr\": \"05:35 (+01)\", \"Isha\": \"21:13 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:52 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
-(95, 1, 1, '2025-09-03', '{\"Asr\": \"17:03 (+01)\", \"Fajr\": \"05:36 (+01)\", \"Isha\": \"21:11 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:50 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
-(96, 1, 1, '2025-09-04', '{\"Asr\": \"17:03 (+01)\", \"Fajr\": \"05:37 (+01)\", \"Isha\": \"21:10 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:49 (+01)\", \"Shurooq\": \"07:03 (+01)\"}'),
-(97, 1, 1, '2025-09-05', '{\"Asr\": \"17:02 (+01)\", \"Fajr\": \"05:38 (+01)\", \"Isha\": \"21:08 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:48 (+01)\", \"Shurooq\": \"07:04 (+01)\"}'),
-(98, 1, 1, '2025-09-06', '{\"Asr\": \"17:01 (+01)\", \"Fajr\": \"05:39 (+01)\", \"Isha\": \"21:07 (+01)\", \"Dhuhr\": \"13:26 (+01)\", \"Maghrib\": \"19:46 (+01)\", \"Shurooq\": \"07:05 (+01)\"}'),
-(99, 1, 1, '2025-09-07', '{\"Asr\": \"17:01 (+01)\", \"Fajr\": \"05:40 (+01)\", \"Isha\": \"21:05 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:45 (+01)\", \"Shurooq\": \"07:05 (+01)\"}'),
-(100, 1, 1, '2025-09-08', '{\"Asr\": \"17:00 (+01)\", \"Fajr\": \"05:41 (+01)\", \"Isha\": \"21:04 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:43 (+01)\", \"Shurooq\": \"07:06 (+01)\"}'),
-(101, 1, 1, '2025-09-09', '{\"Asr\": \"16:59 (+01)\", \"Fajr\": \"05:41 (+01)\", \"Isha\": \"21:02 (+01)\", \"Dhuhr\": \"13:25 (+01)\", \"Maghrib\": \"19:42 (+01)\", \"Shurooq\": \"07:07 (+01)\"}'),
-(102, 1, 1, '2025-09-10', '{\"Asr\": \"16:58 (+01)\", \"Fajr\": \"05:42 (+01)\", \"Isha\": \"21:01 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:41 (+01)\", \"Shurooq\": \"07:07 (+01)\"}'),
-(103, 1, 1, '2025-09-11', '{\"Asr\": \"16:57 (+01)\", \"Fajr\": \"05:43 (+01)\", \"Isha\": \"20:59 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:39 (+01)\", \"Shurooq\": \"07:08 (+01)\"}'),
-(104, 1, 1, '2025-09-12', '{\"Asr\": \"16:57 (+01)\", \"Fajr\": \"05:44 (+01)\", \"Isha\": \"20:57 (+01)\", \"Dhuhr\": \"13:24 (+01)\", \"Maghrib\": \"19:38 (+01)\", \"Shurooq\": \"07:09 (+01)\"}'),
-(105, 1, 1, '2025-09-13', '{\"Asr\": \"16:56 (+01)\", \"Fajr\": \"05:45 (+01)\", \"Isha\": \"20:56 (+01)\", \"Dhuhr\": \"13:23 (+01)\", \"Maghrib\": \"19:37 (+01)\", \"Shurooq\": \"07:09 (+01)\"}'),
-(106, 1, 1, '2025-09-14', '{\"Asr\": \"16:55 (+01)\", \"Fajr\": \"05:46 (+01)\", \"Isha\": \"20:54 (+01)\", \"Dhuhr\": \"13:23 (+01)\", \"Maghrib\": \"19:35 (+01)\", \"Shurooq\": \"07:10 (+01)\"}'),
-(107, 1, 1, '2025-09-15', '{\"Asr\": \"16:54 (+01)\", \"Fajr\": \"05:46 (+01)\", \"Isha\": \"20:53 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:34 (+01)\", \"Shurooq\": \"07:11 (+01)\"}'),
-(108, 1, 1, '2025-09-16', '{\"Asr\": \"16:53 (+01)\", \"Fajr\": \"05:47 (+01)\", \"Isha\": \"20:51 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:32 (+01)\", \"Shurooq\": \"07:11 (+01)\"}'),
-(109, 1, 1, '2025-09-17', '{\"Asr\": \"16:52 (+01)\", \"Fajr\": \"05:48 (+01)\", \"Isha\": \"20:50 (+01)\", \"Dhuhr\": \"13:22 (+01)\", \"Maghrib\": \"19:31 (+01)\", \"Shurooq\": \"07:12 (+01)\"}'),
-(110, 1, 1, '2025-09-18', '{\"Asr\": \"16:52 (+01)\", \"Fajr\": \"05:49 (+01)\", \"Isha\": \"20:48 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:30 (+01)\", \"Shurooq\": \"07:13 (+01)\"}'),
-(111, 1, 1, '2025-09-19', '{\"Asr\": \"16:51 (+01)\", \"Fajr\": \"05:50 (+01)\", \"Isha\": \"20:47 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:28 (+01)\", \"Shurooq\": \"07:13 (+01)\"}'),
-(112, 1, 1, '2025-09-20', '{\"Asr\": \"16:50 (+01)\", \"Fajr\": \"05:50 (+01)\", \"Isha\": \"20:45 (+01)\", \"Dhuhr\": \"13:21 (+01)\", \"Maghrib\": \"19:27 (+01)\", \"Shurooq\": \"07:14 (+01)\"}'),
-(113, 1, 1, '2025-09-21', '{\"Asr\": \"16:49 (+01)\", \"Fajr\": \"05:51 (+01)\", \"Isha\": \"20:44 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:25 (+01)\", \"Shurooq\": \"07:15 (+01)\"}'),
-(114, 1, 1, '2025-09-22', '{\"Asr\": \"16:48 (+01)\", \"Fajr\": \"05:52 (+01)\", \"Isha\": \"20:42 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:24 (+01)\", \"Shurooq\": \"07:16 (+01)\"}'),
-(115, 1, 1, '2025-09-23', '{\"Asr\": \"16:47 (+01)\", \"Fajr\": \"05:53 (+01)\", \"Isha\": \"20:41 (+01)\", \"Dhuhr\": \"13:20 (+01)\", \"Maghrib\": \"19:23 (+01)\", \"Shurooq\": \"07:16 (+01)\"}'),
-(116, 1, 1, '2025-09-24', '{\"Asr\": \"16:46 (+01)\", \"Fajr\": \"05:54 (+01)\", \"Isha\": \"20:40 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:21 (+01)\", \"Shurooq\": \"07:17 (+01)\"}'),
-(117, 1, 1, '2025-09-25', '{\"Asr\": \"16:45 (+01)\", \"Fajr\": \"05:54 (+01)\", \"Isha\": \"20:38 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:20 (+01)\", \"Shurooq\": \"07:18 (+01)\"}'),
-(118, 1, 1, '2025-09-26', '{\"Asr\": \"16:44 (+01)\", \"Fajr\": \"05:55 (+01)\", \"Isha\": \"20:37 (+01)\", \"Dhuhr\": \"13:19 (+01)\", \"Maghrib\": \"19:18 (+01)\", \"Shurooq\": \"07:18 (+01)\"}'),
-(119, 1, 1, '2025-09-27', '{\"Asr\": \"16:43 (+01)\", \"Fajr\": \"05:56 (+01)\", \"Isha\": \"20:35 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:17 (+01)\", \"Shurooq\": \"07:19 (+01)\"}'),
-(120, 1, 1, '2025-09-28', '{\"Asr\": \"16:43 (+01)\", \"Fajr\": \"05:57 (+01)\", \"Isha\": \"20:34 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:16 (+01)\", \"Shurooq\": \"07:20 (+01)\"}'),
-(121, 1, 1, '2025-09-29', '{\"Asr\": \"16:42 (+01)\", \"Fajr\": \"05:57 (+01)\", \"Isha\": \"20:32 (+01)\", \"Dhuhr\": \"13:18 (+01)\", \"Maghrib\": \"19:14 (+01)\", \"Shurooq\": \"07:20 (+01)\"}'),
-(122, 1, 1, '2025-09-30', '{\"Asr\": \"16:41 (+01)\", \"Fajr\": \"05:58 (+01)\", \"Isha\": \"20:31 (+01)\", \"Dhuhr\": \"13:17 (+01)\", \"Maghrib\": \"19:13 (+01)\", \"Shurooq\": \"07:21 (+01)\"}'),
 (123, 3, 1, '2025-09-01', '{\"Asr\": \"17:05 (+01)\", \"Fajr\": \"05:26 (+01)\", \"Isha\": \"21:17 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:53 (+01)\", \"Shurooq\": \"07:01 (+01)\"}'),
 (124, 3, 1, '2025-09-02', '{\"Asr\": \"17:04 (+01)\", \"Fajr\": \"05:27 (+01)\", \"Isha\": \"21:15 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:52 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
 (125, 3, 1, '2025-09-03', '{\"Asr\": \"17:03 (+01)\", \"Fajr\": \"05:28 (+01)\", \"Isha\": \"21:14 (+01)\", \"Dhuhr\": \"13:27 (+01)\", \"Maghrib\": \"19:50 (+01)\", \"Shurooq\": \"07:02 (+01)\"}'),
@@ -239,7 +172,7 @@ CREATE TABLE IF NOT EXISTS `athan_school` (
   PRIMARY KEY (`id`),
   UNIQUE KEY `name` (`name`),
   UNIQUE KEY `startegy_name` (`startegy_name`)
-) ENGINE=MyISAM AUTO_INCREMENT=24 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+) ENGINE=MyISAM AUTO_INCREMENT=25 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 --
 -- Dumping data for table `athan_school`
@@ -268,7 +201,82 @@ INSERT INTO `athan_school` (`id`, `name`, `startegy_name`, `description`, `prior
 (20, 'KEMENAG', 'athan-api-20', 'Kementerian Agama Republik Indonesia', 0),
 (21, 'MOROCCO', 'athan-api-21', 'Morocco', 0),
 (22, 'PORTUGAL', 'athan-api-22', 'Comunidade Islamica de Lisboa', 0),
-(23, 'JORDAN', 'athan-api-23', 'Ministry of Awqaf, Islamic Affairs and Holy Places, Jordan', 0);
+(23, 'JORDAN', 'athan-api-23', 'Ministry of Awqaf, Islamic Affairs and Holy Places, Jordan', 0),
+(24, 'HABOUS', 'athan-official-habous', 'Official timetable of the Moroccan Ministry of Habous and Islamic Affairs', 0);
+
+-- --------------------------------------------------------
+
+--
+-- Table structure for table `athan_school_provider`
+--
+
+DROP TABLE IF EXISTS `athan_school_provider`;
+CREATE TABLE IF NOT EXISTS `athan_school_provider` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `athan_school_id` int NOT NULL,
+  `provider` varchar(20) NOT NULL,
+  `params` json NOT NULL,
+  `priority` smallint NOT NULL DEFAULT '0',
+  `enabled` tinyint(1) NOT NULL DEFAULT '1',
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `school_provider` (`athan_school_id`,`provider`)
+) ENGINE=InnoDB AUTO_INCREMENT=51 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
+--
+-- Dumping data for table `athan_school_provider`
+--
+
+INSERT INTO `athan_school_provider` (`id`, `athan_school_id`, `provider`, `params`, `priority`, `enabled`) VALUES
+(1, 1, 'aladhan', '{\"method\": 3}', 100, 1),
+(2, 2, 'aladhan', '{\"method\": 2}', 100, 1),
+(3, 3, 'aladhan', '{\"method\": 5}', 100, 1),
+(4, 4, 'aladhan', '{\"method\": 4}', 100, 1),
+(5, 5, 'aladhan', '{\"method\": 1}', 100, 1),
+(6, 6, 'aladhan', '{\"method\": 7}', 100, 1),
+(7, 7, 'aladhan', '{\"method\": 0}', 100, 1),
+(8, 8, 'aladhan', '{\"method\": 8}', 100, 1),
+(9, 9, 'aladhan', '{\"method\": 9}', 100, 1),
+(10, 10, 'aladhan', '{\"method\": 10}', 100, 1),
+(11, 11, 'aladhan', '{\"method\": 11}', 100, 1),
+(12, 12, 'aladhan', '{\"method\": 12}', 100, 1),
+(13, 13, 'aladhan', '{\"method\": 13}', 100, 1),
+(14, 14, 'aladhan', '{\"method\": 14}', 100, 1),
+(15, 15, 'aladhan', '{\"method\": 15}', 100, 1),
+(16, 16, 'aladhan', '{\"method\": 16}', 100, 1),
+(17, 17, 'aladhan', '{\"method\": 17}', 100, 1),
+(18, 18, 'aladhan', '{\"method\": 18}', 100, 1),
+(19, 19, 'aladhan', '{\"method\": 19}', 100, 1),
+(20, 20, 'aladhan', '{\"method\": 20}', 100, 1),
+(21, 21, 'aladhan', '{\"method\": 21}', 100, 1),
+(22, 22, 'aladhan', '{\"method\": 22}', 100, 1),
+(23, 23, 'aladhan', '{\"method\": 23}', 100, 1),
+(24, 1, 'local', '{\"school\": \"MWL\"}', 10, 1),
+(25, 2, 'local', '{\"school\": \"ISNA\"}', 10, 1),
+(26, 3, 'local', '{\"school\": \"EGYPT\"}', 10, 1),
+(27, 4, 'local', '{\"school\": \"MAKKAH\"}', 10, 1),
+(28, 5, 'local', '{\"school\": \"KARACHI\"}', 10, 1),
+(29, 6, 'local', '{\"school\": \"TEHRAN\"}', 10, 1),
+(30, 7, 'local', '{\"school\": \"JAFARI\"}', 10, 1),
+(31, 8, 'local', '{\"school\": \"GULF\"}', 10, 1),
+(32, 9, 'local', '{\"school\": \"KUWAIT\"}', 10, 1),
+(33, 10, 'local', '{\"school\": \"QATAR\"}', 10, 1),
+(34, 11, 'local', '{\"school\": \"SINGAPORE\"}', 10, 1),
+(35, 12, 'local', '{\"school\": \"FRANCE\"}', 10, 1),
+(36, 13, 'local', '{\"school\": \"TURKEY\"}', 10, 1),
+(37, 14, 'local', '{\"school\": \"RUSSIA\"}', 10, 1),
+(38, 15, 'local', '{\"school\": \"MOONSIGHTING\"}', 10, 1),
+(39, 16, 'local', '{\"school\": \"DUBAI\"}', 10, 1),
+(40, 17, 'local', '{\"school\": \"JAKIM\"}', 10, 1),
+(41, 18, 'local', '{\"school\": \"TUNISIA\"}', 10, 1),
+(42, 19, 'local', '{\"school\": \"ALGERIA\"}', 10, 1),
+(43, 20, 'local', '{\"school\": \"KEMENAG\"}', 10, 1),
+(44, 21, 'local', '{\"school\": \"MOROCCO\"}', 10, 1),
+(45, 22, 'local', '{\"school\": \"PORTUGAL\"}', 10, 1),
+(46, 23, 'local', '{\"school\": \"JORDAN\"}', 10, 1),
+(47, 24, 'official', '{\"school\": \"HABOUS\"}', 100, 1),
+(48, 24, 'aladhan', '{\"method\": 21}', 50, 1),
+(49, 24, 'local', '{\"school\": \"MOROCCO\"}', 10, 1),
+(50, 21, 'official', '{\"school\": \"HABOUS\"}', 200, 1);
 
 -- --------------------------------------------------------
 
@@ -283,15 +291,23 @@ CREATE TABLE IF NOT EXISTS `city` (
   `country_name` varchar(50) NOT NULL,
   `country_id` int NOT NULL,
   `athan_school_id` int DEFAULT NULL,
-  PRIMARY KEY (`id`)
+  `latitude` double DEFAULT NULL,
+  `longitude` double DEFAULT NULL,
+  `timezone` varchar(64) DEFAULT NULL,
+  `asr_school` varchar(10) DEFAULT NULL,
+  `high_latitude_rule` varchar(20) DEFAULT NULL,
+  `prayer_offsets` json DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `name` (`name`,`country_id`),
+  KEY `location` (`latitude`,`longitude`)
 ) ENGINE=MyISAM AUTO_INCREMENT=2 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 --
 -- Dumping data for table `city`
 --
 
-INSERT INTO `city` (`id`, `name`, `country_name`, `country_id`, `athan_school_id`) VALUES
-(1, 'Rabat', 'Morocco', 1, 0);
+INSERT INTO `city` (`id`, `name`, `country_name`, `country_id`, `athan_school_id`, `latitude`, `longitude`, `timezone`, `asr_school`, `high_latitude_rule`, `prayer_offsets`) VALUES
+(1, 'Rabat', 'Morocco', 1, 0, 34.020882, -6.84165, 'Africa/Casablanca', NULL, NULL, NULL);
 
 -- --------------------------------------------------------
 
@@ -304,7 +320,8 @@ CREATE TABLE IF NOT EXISTS `country` (
   `id` int NOT NULL AUTO_INCREMENT,
   `name` varchar(50) NOT NULL,
   `athan_school_id` int NOT NULL,
-  PRIMARY KEY (`id`)
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `name` (`name`)
 ) ENGINE=MyISAM AUTO_INCREMENT=2 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 
 --
@@ -348,6 +365,148 @@ INSERT INTO `hijri_calendar` (`id`, `month`, `hijri_first_day`, `hijri_last_day`
 (154, '2026-10-01', '1448-04-20', '1448-05-20', 0),
 (155, '2026-11-01', '1448-05-21', '1448-06-20', 0),
 (156, '2026-12-01', '1448-06-21', '1448-07-22', 0);
+
+-- --------------------------------------------------------
+
+--
+-- Table structure for table `hijri_month`
+--
+
+DROP TABLE IF EXISTS `hijri_month`;
+CREATE TABLE IF NOT EXISTS `hijri_month` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `country_id` int NOT NULL DEFAULT '0',
+  `hijri_year` smallint NOT NULL,
+  `hijri_month` tinyint NOT NULL,
+  `first_day` date NOT NULL,
+  `source` varchar(10) NOT NULL DEFAULT 'aladhan',
+  `note` varchar(255) DEFAULT NULL,
+  `updated_at` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `hijri_month` (`country_id`,`hijri_year`,`hijri_month`),
+  KEY `first_day` (`first_day`)
+) ENGINE=InnoDB AUTO_INCREMENT=14 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
+--
+-- Dumping data for table `hijri_month`
+--
+
+INSERT INTO `hijri_month` (`id`, `country_id`, `hijri_year`, `hijri_month`, `first_day`, `source`, `note`) VALUES
+(1, 0, 1447, 7, '2025-12-21', 'aladhan', NULL),
+(2, 0, 1447, 8, '2026-01-20', 'aladhan', NULL),
+(3, 0, 1447, 9, '2026-02-18', 'aladhan', NULL),
+(4, 0, 1447, 10, '2026-03-20', 'aladhan', NULL),
+(5, 0, 1447, 11, '2026-04-18', 'aladhan', NULL),
+(6, 0, 1447, 12, '2026-05-18', 'aladhan', NULL),
+(7, 0, 1448, 1, '2026-06-16', 'aladhan', NULL),
+(8, 0, 1448, 2, '2026-07-15', 'aladhan', NULL),
+(9, 0, 1448, 3, '2026-08-14', 'aladhan', NULL),
+(10, 0, 1448, 4, '2026-09-12', 'aladhan', NULL),
+(11, 0, 1448, 5, '2026-10-12', 'aladhan', NULL),
+(12, 0, 1448, 6, '2026-11-11', 'aladhan', NULL),
+(13, 0, 1448, 7, '2026-12-10', 'aladhan', NULL);
+
+-- --------------------------------------------------------
+
+--
+-- Table structure for table `mosque`
+--
+
+DROP TABLE IF EXISTS `mosque`;
+CREATE TABLE IF NOT EXISTS `mosque` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `name` varchar(100) NOT NULL,
+  `city_id` int NOT NULL,
+  `athan_school_id` int DEFAULT NULL,
+  `address` varchar(255) DEFAULT NULL,
+  `latitude` double DEFAULT NULL,
+  `longitude` double DEFAULT NULL,
+  `iqamah_rules` json DEFAULT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `name` (`name`,`city_id`),
+  KEY `city_id` (`city_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Table structure for table `schema_migrations`
+--
+
+DROP TABLE IF EXISTS `schema_migrations`;
+CREATE TABLE IF NOT EXISTS `schema_migrations` (
+  `version` int NOT NULL,
+  `name` varchar(100) NOT NULL,
+  `applied_at` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`version`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
+--
+-- Dumping data for table `schema_migrations`
+--
+
+INSERT INTO `schema_migrations` (`version`, `name`) VALUES
+(1, 'baseline'),
+(2, 'city-location'),
+(3, 'athan-calendar-keys'),
+(4, 'school-providers'),
+(5, 'official-timetables'),
+(6, 'city-prayer-profile'),
+(7, 'hijri-months'),
+(8, 'city-location-index'),
+(9, 'city-timezones'),
+(10, 'mosques'),
+(11, 'webhooks'),
+(12, 'api-keys');
+
+-- --------------------------------------------------------
+
+--
+-- Table structure for table `webhook_delivery`
+--
+
+DROP TABLE IF EXISTS `webhook_delivery`;
+CREATE TABLE IF NOT EXISTS `webhook_delivery` (
+  `id` bigint NOT NULL AUTO_INCREMENT,
+  `subscription_id` int NOT NULL,
+  `prayer` varchar(10) NOT NULL,
+  `prayer_date` date NOT NULL,
+  `prayer_at` datetime NOT NULL,
+  `fire_at` datetime NOT NULL,
+  `status` varchar(10) NOT NULL DEFAULT 'pending',
+  `attempts` tinyint NOT NULL DEFAULT '0',
+  `next_attempt_at` datetime NOT NULL,
+  `response_status` smallint DEFAULT NULL,
+  `error` varchar(255) DEFAULT NULL,
+  `delivered_at` datetime DEFAULT NULL,
+  `payload` json NOT NULL,
+  PRIMARY KEY (`id`),
+  UNIQUE KEY `prayer` (`subscription_id`,`prayer_date`,`prayer`),
+  KEY `due` (`status`,`next_attempt_at`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Table structure for table `webhook_subscription`
+--
+
+DROP TABLE IF EXISTS `webhook_subscription`;
+CREATE TABLE IF NOT EXISTS `webhook_subscription` (
+  `id` int NOT NULL AUTO_INCREMENT,
+  `city_id` int DEFAULT NULL,
+  `mosque_id` int DEFAULT NULL,
+  `athan_school_id` int DEFAULT NULL,
+  `prayers` json NOT NULL,
+  `lead_minutes` smallint NOT NULL DEFAULT '0',
+  `callback_url` varchar(2048) NOT NULL,
+  `secret` varchar(64) NOT NULL,
+  `enabled` tinyint(1) NOT NULL DEFAULT '1',
+  `created_at` timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (`id`),
+  KEY `city_id` (`city_id`),
+  KEY `mosque_id` (`mosque_id`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
 COMMIT;
 
 /*!40101 SET CHARACTER_SET_CLIENT=@OLD_CHARACTER_SET_CLIENT */;
@@ -1,17 +1,129 @@
-import { Module } from '@nestjs/common';
+import {
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  ValidationPipe,
+} from '@nestjs/common';
+import { APP_FILTER, APP_GUARD, APP_PIPE } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { PrayerService } from './prayer.service';
 import { PrayerController } from './prayer.controller';
 import { CalendarController } from './calendar.controller';
 import { AppService } from './app.service';
 import { DbService } from './db.service';
-import { AthanService, CoordinatesPrayerTimeByAthanStrategy, CityPrayerTimeByAthanStrategy } from './athan.service';
+import {
+  AladhanProvider,
+  AthanService,
+  CoordinatesPrayerTimeByAthanStrategy,
+  CityPrayerTimeByAthanStrategy,
+  LocalPrayerTimeStrategy,
+  LocalProvider,
+} from './athan.service';
 import { HijriService } from './calendar.service';
+import { PrayerCacheService } from './prayer-cache.service';
+import { SchoolResolverService } from './school-resolver.service';
+import { LocationService } from './location.service';
+import { CountryController } from './country.controller';
+import { CityController } from './city.controller';
+import { PrecomputeService } from './precompute.service';
+import { JobsController } from './jobs.controller';
+import { MigrationService } from './migration.service';
+import { HttpExceptionFilter } from './http-exception.filter';
+import { OfficialTimetableProvider } from './official-timetable.provider';
+import { TimetableImportService } from './timetable-import.service';
+import { TimetableController } from './timetable.controller';
+import { MethodComparisonService } from './method-comparison.service';
+import { HijriController } from './hijri.controller';
+import { RamadanService } from './ramadan.service';
+import { GeocodingService } from './geocoding.service';
+import { MosqueService } from './mosque.service';
+import { MosqueController } from './mosque.controller';
+import { WebhookService } from './webhook.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhookController } from './webhook.controller';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { AuthGuard } from './auth.guard';
+import { RateLimitGuard } from './rate-limit.guard';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+import { MetricsService } from './metrics.service';
+import { RequestContextMiddleware } from './request-context.middleware';
+import { TimetableExportService } from './timetable-export.service';
+import {
+  AladhanHijriSource,
+  FixtureHijriSource,
+  HIJRI_CALENDAR_SOURCE,
+} from './hijri-source';
 
-import { HttpModule } from '@nestjs/axios';
+import { HttpModule, HttpService } from '@nestjs/axios';
 @Module({
   imports: [HttpModule],
-  controllers: [PrayerController, AppController,CalendarController],
-  providers: [PrayerService, AppService, DbService, AthanService, CoordinatesPrayerTimeByAthanStrategy, CityPrayerTimeByAthanStrategy, HijriService],
+  controllers: [
+    PrayerController,
+    AppController,
+    CalendarController,
+    CountryController,
+    CityController,
+    JobsController,
+    TimetableController,
+    HijriController,
+    MosqueController,
+    WebhookController,
+    AuthController,
+    HealthController,
+  ],
+  providers: [
+    PrayerService,
+    AppService,
+    DbService,
+    AthanService,
+    CoordinatesPrayerTimeByAthanStrategy,
+    CityPrayerTimeByAthanStrategy,
+    LocalPrayerTimeStrategy,
+    AladhanProvider,
+    LocalProvider,
+    OfficialTimetableProvider,
+    HijriService,
+    PrayerCacheService,
+    SchoolResolverService,
+    LocationService,
+    PrecomputeService,
+    MigrationService,
+    TimetableImportService,
+    MethodComparisonService,
+    RamadanService,
+    GeocodingService,
+    MosqueService,
+    WebhookService,
+    WebhookDispatcher,
+    AuthService,
+    HealthService,
+    MetricsService,
+    TimetableExportService,
+    {
+      provide: APP_PIPE,
+      useValue: new ValidationPipe({ transform: true, whitelist: true }),
+    },
+    { provide: APP_FILTER, useClass: HttpExceptionFilter },
+    // Guards run in this order: the rate limit needs the principal
+    { provide: APP_GUARD, useClass: AuthGuard },
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+    {
+      provide: HIJRI_CALENDAR_SOURCE,
+      // Saved Aladhan responses instead of the network, e.g. for tests or offline setups
+      useFactory: (httpService: HttpService) =>
+        process.env.HIJRI_FIXTURES_DIR
+          ? new FixtureHijriSource({
+              directory: process.env.HIJRI_FIXTURES_DIR,
+            })
+          : new AladhanHijriSource(httpService),
+      inject: [HttpService],
+    },
+  ],
 })
-export class AppModule { }
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestContextMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,145 @@
+import { BadGatewayException, BadRequestException } from '@nestjs/common';
+import { rabat as rabatFixture } from '../test/fixtures';
+import {
+  AladhanProvider,
+  AthanService,
+  CityPrayerTimeByAthanStrategy,
+  CoordinatesPrayerTimeByAthanStrategy,
+  LocalPrayerTimeStrategy,
+  LocalProvider,
+} from './athan.service';
+import { CityRow, DbService, SchoolProviderRow } from './db.service';
+import { MetricsService } from './metrics.service';
+import { OfficialTimetableProvider } from './official-timetable.provider';
+import { PrayerService } from './prayer.service';
+import { SchoolResolverService } from './school-resolver.service';
+
+describe('AthanService provider failover', () => {
+  const rabat: CityRow = { ...rabatFixture, athan_school_id: 21 };
+  const providerRow = (
+    provider: string,
+    params: SchoolProviderRow['params'],
+  ): SchoolProviderRow => ({
+    id: 1,
+    athan_school_id: 21,
+    provider,
+    params,
+    priority: 0,
+    enabled: 1,
+  });
+
+  let prayerService: jest.Mocked<Pick<PrayerService, 'getByCity'>>;
+  let db: jest.Mocked<Pick<DbService, 'findSchoolProviders' | 'findCity'>>;
+  let service: AthanService;
+
+  beforeEach(() => {
+    prayerService = { getByCity: jest.fn() };
+    db = {
+      findSchoolProviders: jest
+        .fn()
+        .mockResolvedValue([
+          providerRow('aladhan', { method: 21 }),
+          providerRow('local', { school: 'MOROCCO' }),
+        ]),
+      findCity: jest.fn().mockResolvedValue(rabat),
+    };
+
+    const upstream = prayerService as unknown as PrayerService;
+    const coordinates = new CoordinatesPrayerTimeByAthanStrategy(upstream);
+    const city = new CityPrayerTimeByAthanStrategy(upstream);
+    const local = new LocalPrayerTimeStrategy();
+    service = new AthanService(
+      coordinates,
+      city,
+      local,
+      upstream,
+      {} as SchoolResolverService,
+      db as unknown as DbService,
+      new AladhanProvider(coordinates, city),
+      new LocalProvider(local),
+      new OfficialTimetableProvider(db as unknown as DbService),
+      new MetricsService(),
+    );
+  });
+
+  const params = {
+    city: 'Rabat',
+    country: 'Morocco',
+    from: '2025-03-01',
+    duration: 2,
+  };
+
+  it('should report the first provider that succeeds', async () => {
+    prayerService.getByCity.mockResolvedValue([]);
+
+    const result = await service.executeStrategy('athan-api-21', params);
+
+    expect(result).toEqual({ provider: 'aladhan', days: [], failures: [] });
+    expect(prayerService.getByCity).toHaveBeenCalledWith(
+      'Rabat',
+      'Morocco',
+      21,
+      { from: '2025-03-01', to: '2025-03-02' },
+      {},
+    );
+  });
+
+  it('should fall back to the local calculation with the city coordinates', async () => {
+    prayerService.getByCity.mockRejectedValue(new Error('timeout'));
+
+    const result = await service.executeStrategy('athan-api-21', params);
+
+    expect(result.provider).toBe('local');
+    expect(result.failures).toEqual([
+      { provider: 'aladhan', error: 'timeout' },
+    ]);
+    expect(result.days.map((day) => day.date)).toEqual([
+      '01-03-2025',
+      '02-03-2025',
+    ]);
+    expect(db.findCity).toHaveBeenCalledWith('Rabat', 'Morocco');
+  });
+
+  it('should fail with 502 when every provider failed', async () => {
+    db.findSchoolProviders.mockResolvedValue([
+      providerRow('aladhan', { method: 21 }),
+    ]);
+    prayerService.getByCity.mockRejectedValue(new Error('timeout'));
+
+    await expect(
+      service.executeStrategy('athan-api-21', params),
+    ).rejects.toThrow(BadGatewayException);
+  });
+
+  it('should derive the provider from the strategy name when none is configured', async () => {
+    db.findSchoolProviders.mockResolvedValue([]);
+    prayerService.getByCity.mockResolvedValue([]);
+
+    await service.executeStrategy('athan-api-23', params);
+
+    expect(prayerService.getByCity).toHaveBeenCalledWith(
+      'Rabat',
+      'Morocco',
+      23,
+      expect.anything(),
+      expect.anything(),
+    );
+    await expect(service.executeStrategy('unknown', params)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should reject schools without a calculation method', async () => {
+    db.findSchoolProviders.mockResolvedValue([
+      providerRow('local', { school: 'ATLANTIS' }),
+    ]);
+    await expect(
+      service.executeStrategy('athan-school-atlantis', params),
+    ).rejects.toThrow('No calculation method is known for school "ATLANTIS"');
+
+    db.findSchoolProviders.mockResolvedValue([]);
+    await expect(
+      service.executeStrategy('athan-local-atlantis', params),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
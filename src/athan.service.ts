@@ -1,10 +1,38 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadGatewayException,
+  BadRequestException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
 import { PrayerService } from './prayer.service'; // Assuming prayer.service.ts is in the same directory
+import {
+  CALCULATION_METHODS,
+  calculatePrayerTimesRange,
+  DailyPrayerTimes,
+  isValidTimezone,
+} from './prayer-calculator';
+import { countDays, parseIsoDate, resolveRange } from './date-range';
+import { SchoolResolverService } from './school-resolver.service';
+import { DbService } from './db.service';
+import { PrayerSettings } from './prayer-settings';
+import { OfficialTimetableProvider } from './official-timetable.provider';
+import { MetricsService } from './metrics.service';
+import {
+  PrayerTimeProvider,
+  ProviderConfig,
+  ProviderFailure,
+  ProviderResult,
+  ProviderSettings,
+  providersFromStrategyName,
+} from './prayer-provider';
 
 // Define common parameter interfaces for better type safety
-interface BasePrayerTimeParams {
-    method: number;
-    duration: number; // New parameter: number of days for which to fetch prayer times
+// Asr school and high-latitude rule are applied by the strategies; offsets are left to the
+// readers (see PrayerCacheService) so stored days never include them
+interface BasePrayerTimeParams extends PrayerSettings {
+  method?: number; // Resolved from the city/country defaults when omitted (see AthanService.getPrayerTimes)
+  duration: number; // New parameter: number of days for which to fetch prayer times
+  from?: string; // First day, "YYYY-MM-DD"; defaults to today (or the current month when duration is also missing)
 }
 
 interface CoordinatesPrayerTimeParams extends BasePrayerTimeParams {
@@ -17,17 +45,25 @@ interface CityPrayerTimeParams extends BasePrayerTimeParams {
   country: string;
 }
 
+interface LocalPrayerTimeParams extends CoordinatesPrayerTimeParams {
+  school: string; // athan_school.name, e.g. 'MWL' or 'MOROCCO'
+  timezone?: string; // IANA zone, defaults to UTC
+}
+
 // Union type for all possible prayer time parameters
-type PrayerTimeParams = CoordinatesPrayerTimeParams | CityPrayerTimeParams;
+export type PrayerTimeParams =
+  | CoordinatesPrayerTimeParams
+  | CityPrayerTimeParams
+  | LocalPrayerTimeParams;
 
 // 1. Strategy Interface
 interface IPrayerTimeStrategy {
   /**
    * Fetches prayer times based on the provided parameters.
    * @param params An object containing parameters specific to the strategy (e.g., {lat, lon, method, duration} or {city, country, method, duration}).
-   * @returns A promise that resolves to an array of prayer time data.
+   * @returns A promise that resolves to one entry per day, ordered by date.
    */
-  getPrayerTimes(params: PrayerTimeParams): Promise<any[]>;
+  getPrayerTimes(params: PrayerTimeParams): Promise<DailyPrayerTimes[]>;
 
   /**
    * Determines if this strategy can handle the given parameters.
@@ -46,15 +82,28 @@ export class CityPrayerTimeByAthanStrategy implements IPrayerTimeStrategy {
 
   constructor(private readonly prayerService: PrayerService) {}
 
-  canHandle(params: any): boolean {
-    // Check if parameters contain city, country, method, and a positive duration
-    return true;
+  canHandle(params: Partial<CityPrayerTimeParams>): boolean {
+    // Check if parameters contain city, country and method
+    return (
+      typeof params.city === 'string' &&
+      typeof params.country === 'string' &&
+      typeof params.method === 'number'
+    );
   }
 
-  async getPrayerTimes(params: CityPrayerTimeParams): Promise<any[]> {
-    this.logger.debug(`Executing CityPrayerTimeStrategy for city=${params.city}, country=${params.country}, method=${params.method}, duration=${params.duration}`);
-    // Assuming prayerService.getByCity now accepts a duration parameter
-    return this.prayerService.getByCity(params.city, params.country, params.method);
+  async getPrayerTimes(
+    params: CityPrayerTimeParams,
+  ): Promise<DailyPrayerTimes[]> {
+    this.logger.debug(
+      `Executing CityPrayerTimeStrategy for city=${params.city}, country=${params.country}, method=${params.method}, from=${params.from}, duration=${params.duration}`,
+    );
+    return this.prayerService.getByCity(
+      params.city,
+      params.country,
+      params.method!,
+      resolveRange(params.from, params.duration),
+      { asr: params.asr, highLatitudeRule: params.highLatitudeRule },
+    );
   }
 }
 // 2. Concrete Strategy: Fetch by Coordinates
@@ -64,37 +113,180 @@ export class CoordinatesPrayerTimeByAthanStrategy implements IPrayerTimeStrategy
 
   constructor(private readonly prayerService: PrayerService) {}
 
-  canHandle(params: any): boolean {
+  canHandle(params: Partial<CoordinatesPrayerTimeParams>): boolean {
     // Check if parameters contain lat, lon, method, and a positive duration
-    return typeof params.lat === 'number' &&
-           typeof params.lon === 'number' &&
-           typeof params.method === 'number' &&
-           typeof params.duration === 'number' && params.duration > 0;
+    return (
+      typeof params.lat === 'number' &&
+      typeof params.lon === 'number' &&
+      typeof params.method === 'number' &&
+      typeof params.duration === 'number' &&
+      params.duration > 0 &&
+      (params.from === undefined || parseIsoDate(params.from) !== null)
+    );
+  }
+
+  async getPrayerTimes(
+    params: CoordinatesPrayerTimeParams,
+  ): Promise<DailyPrayerTimes[]> {
+    this.logger.debug(
+      `Executing CoordinatesPrayerTimeStrategy for lat=${params.lat}, lon=${params.lon}, method=${params.method}, from=${params.from}, duration=${params.duration}`,
+    );
+    return this.prayerService.getByCoordinates(
+      params.lat,
+      params.lon,
+      params.method!,
+      resolveRange(params.from, params.duration),
+      { asr: params.asr, highLatitudeRule: params.highLatitudeRule },
+    );
+  }
+}
+
+// 2. Concrete Strategy: Offline astronomical calculation
+@Injectable()
+export class LocalPrayerTimeStrategy implements IPrayerTimeStrategy {
+  private readonly logger = new Logger(LocalPrayerTimeStrategy.name);
+
+  canHandle(params: Partial<LocalPrayerTimeParams>): boolean {
+    // Check for coordinates, a school, a valid time zone and a positive duration
+    return (
+      typeof params.lat === 'number' &&
+      typeof params.lon === 'number' &&
+      typeof params.school === 'string' &&
+      (params.timezone === undefined || isValidTimezone(params.timezone)) &&
+      typeof params.duration === 'number' &&
+      params.duration > 0 &&
+      (params.from === undefined || parseIsoDate(params.from) !== null)
+    );
+  }
+
+  /**
+   * @throws BadRequestException for schools without a known calculation method,
+   *   rather than guessing their angles.
+   */
+  getPrayerTimes(params: LocalPrayerTimeParams): Promise<DailyPrayerTimes[]> {
+    this.logger.debug(
+      `Executing LocalPrayerTimeStrategy for lat=${params.lat}, lon=${params.lon}, school=${params.school}, timezone=${params.timezone}, from=${params.from}, duration=${params.duration}`,
+    );
+    const school = params.school.toUpperCase();
+    if (!(school in CALCULATION_METHODS)) {
+      throw new BadRequestException(
+        `No calculation method is known for school "${school}"`,
+      );
+    }
+    const range = resolveRange(params.from, params.duration);
+    return Promise.resolve(
+      calculatePrayerTimesRange(parseIsoDate(range.from)!, countDays(range), {
+        lat: params.lat,
+        lon: params.lon,
+        method: CALCULATION_METHODS[school],
+        timezone: params.timezone ?? 'UTC',
+        asr: params.asr,
+        highLatitudeRule: params.highLatitudeRule,
+      }),
+    );
+  }
+}
+
+// 3. Providers: the upstream sources a school can be served by, see prayer-provider.ts
+@Injectable()
+export class AladhanProvider implements PrayerTimeProvider {
+  readonly name = 'aladhan';
+
+  constructor(
+    private readonly coordinatesStrategy: CoordinatesPrayerTimeByAthanStrategy,
+    private readonly cityStrategy: CityPrayerTimeByAthanStrategy,
+  ) {}
+
+  canServe(params: PrayerTimeParams, settings: ProviderSettings): boolean {
+    return this.select(params, settings) !== null;
+  }
+
+  getPrayerTimes(
+    params: PrayerTimeParams,
+    settings: ProviderSettings,
+  ): Promise<DailyPrayerTimes[]> {
+    const selected = this.select(params, settings);
+    if (!selected) {
+      throw new BadRequestException(
+        'Aladhan needs coordinates or a city and country.',
+      );
+    }
+    return selected.strategy.getPrayerTimes(selected.params);
+  }
+
+  // Coordinates take precedence over city/country when both are given
+  private select(params: PrayerTimeParams, settings: ProviderSettings) {
+    const withMethod = { ...params, method: Number(settings.method) };
+    const strategies: IPrayerTimeStrategy[] = [
+      this.coordinatesStrategy,
+      this.cityStrategy,
+    ];
+    for (const strategy of strategies) {
+      if (strategy.canHandle(withMethod)) {
+        return { strategy, params: withMethod };
+      }
+    }
+    return null;
   }
+}
 
-  async getPrayerTimes(params: CoordinatesPrayerTimeParams): Promise<any[]> {
-    this.logger.debug(`Executing CoordinatesPrayerTimeStrategy for lat=${params.lat}, lon=${params.lon}, method=${params.method}, duration=${params.duration}`);
-    // The prayerService.getByCoordinates method currently fetches for the current month and returns 7 days.
-    // The 'duration' parameter from the strategy interface is not directly used by the underlying PrayerService method yet.
-    return this.prayerService.getByCoordinates(params.lat, params.lon, params.method);
+@Injectable()
+export class LocalProvider implements PrayerTimeProvider {
+  readonly name = 'local';
+
+  constructor(private readonly localStrategy: LocalPrayerTimeStrategy) {}
+
+  canServe(params: PrayerTimeParams, settings: ProviderSettings): boolean {
+    return this.localStrategy.canHandle({
+      ...params,
+      school: String(settings.school),
+    });
+  }
+
+  getPrayerTimes(
+    params: PrayerTimeParams,
+    settings: ProviderSettings,
+  ): Promise<DailyPrayerTimes[]> {
+    return this.localStrategy.getPrayerTimes({
+      ...(params as CoordinatesPrayerTimeParams),
+      school: String(settings.school),
+    });
   }
 }
 
-// 3. Context: AthanService
+// 4. Context: AthanService
 @Injectable()
 export class AthanService {
   private readonly logger = new Logger(AthanService.name);
   private strategies: IPrayerTimeStrategy[];
+  private providers: Map<string, PrayerTimeProvider>;
 
   constructor(
 
     private readonly coordinatesPrayerTimeByAthanStrategy: CoordinatesPrayerTimeByAthanStrategy,
     private readonly CityPrayerTimeByAthanStrategy:CityPrayerTimeByAthanStrategy,
+    private readonly localPrayerTimeStrategy: LocalPrayerTimeStrategy,
     // Inject PrayerService directly if AthanService needs to use its methods that are not part of the strategy (e.g., getMethods)
     private readonly prayerService: PrayerService,
+    private readonly schoolResolver: SchoolResolverService,
+    private readonly dbService: DbService,
+    aladhanProvider: AladhanProvider,
+    localProvider: LocalProvider,
+    officialProvider: OfficialTimetableProvider,
+    private readonly metricsService: MetricsService,
   ) {
     // Store all available strategies
-    this.strategies = [coordinatesPrayerTimeByAthanStrategy,CityPrayerTimeByAthanStrategy];
+    this.strategies = [
+      localPrayerTimeStrategy,
+      coordinatesPrayerTimeByAthanStrategy,
+      CityPrayerTimeByAthanStrategy,
+    ];
+    this.providers = new Map(
+      [aladhanProvider, localProvider, officialProvider].map((provider) => [
+        provider.name,
+        provider,
+      ]),
+    );
   }
 
   /**
@@ -102,19 +294,36 @@ export class AthanService {
    * based on the provided parameters.
    * @param params An object containing parameters for fetching prayer times.
    *               Expected to be either { lat: number, lon: number, method: number, duration: number }
-   *               or { city: string, country: string, method: number, duration: number }.
+   *               or { city: string, country: string, method: number, duration: number },
+   *               optionally with `from` ("YYYY-MM-DD") to start the range on another day than today.
+   *               When `method` is omitted, the school is resolved from the city, then its country,
+   *               then the highest-priority athan_school.
    * @returns A promise that resolves to an array of prayer time data.
-   * @throws Error if no suitable strategy is found for the given parameters.
+   * @throws BadRequestException if no suitable strategy is found for the given parameters.
    */
-  async getPrayerTimes(params: PrayerTimeParams): Promise<any[]> {
+  async getPrayerTimes(params: PrayerTimeParams): Promise<DailyPrayerTimes[]> {
     this.logger.log('Attempting to get prayer times with parameters:', params);
 
+    if (params.method === undefined && !('school' in params)) {
+      const { school, source } = await this.schoolResolver.resolve({
+        city: 'city' in params ? params.city : undefined,
+        country: 'country' in params ? params.country : undefined,
+      });
+      this.logger.log(`Resolved school "${school.name}" from ${source}.`);
+      return this.executeStrategyByName(school.startegy_name, params);
+    }
+
     // Find the first strategy that can handle the given parameters
     const strategy = this.strategies.find(s => s.canHandle(params));
 
     if (!strategy) {
-      this.logger.error('No suitable strategy found for the given parameters.', params);
-      throw new Error('Invalid parameters for fetching prayer times. Please provide either coordinates (lat, lon, method, duration) or city (city, country, method, duration).');
+      this.logger.error(
+        'No suitable strategy found for the given parameters.',
+        params,
+      );
+      throw new BadRequestException(
+        'Invalid parameters for fetching prayer times. Please provide either coordinates (lat, lon, method, duration) or city (city, country, method, duration).',
+      );
     }
 
     // Delegate the call to the selected strategy
@@ -134,36 +343,137 @@ export class AthanService {
   /**
    * Executes a specific prayer time strategy by its conceptual name.
    * This allows for explicit selection of a strategy, bypassing the automatic `canHandle` detection.
-   * @param strategyName The name of the strategy to execute (e.g., 'city', 'coordinates').
+   * @param strategyName The name of the strategy to execute: `athan-api-<method>` for Aladhan,
+   *                     `athan-local-<school>` (e.g. 'athan-local-mwl') for the offline calculation,
+   *                     or `athan-official-<school>` for an imported timetable.
    * @param params An object containing parameters required by the selected strategy.
    *               The structure of params must match the requirements of the chosen strategy.
    * @returns A promise that resolves to an array of prayer time data.
-   * @throws Error if the strategyName is not recognized or if the selected strategy cannot handle the provided parameters.
+   * @throws BadRequestException if the strategyName is not recognized or if no provider can handle the provided parameters.
+   * @throws BadGatewayException if every provider able to handle them failed.
+   */
+  async executeStrategyByName(
+    strategyName: string,
+    params: PrayerTimeParams,
+  ): Promise<DailyPrayerTimes[]> {
+    return (await this.executeStrategy(strategyName, params)).days;
+  }
+
+  /**
+   * Same as executeStrategyByName, also reporting which provider served the days.
+   * The providers of the strategy's school are tried by descending priority; a provider
+   * that fails or cannot handle the parameters hands over to the next one.
    */
-  async executeStrategyByName(strategyName: string, params: PrayerTimeParams): Promise<any[]> {
-    this.logger.log(`Attempting to execute strategy "${strategyName}" with parameters:`, params,strategyName.toLowerCase().indexOf('athan-api-'));
+  async executeStrategy(
+    strategyName: string,
+    params: PrayerTimeParams,
+  ): Promise<ProviderResult> {
+    this.logger.log(
+      `Attempting to execute strategy "${strategyName}" with parameters:`,
+      params,
+    );
+
+    const chain = await this.findProviders(strategyName);
+    if (chain.length === 0) {
+      this.logger.error(`Unknown strategy name: "${strategyName}"`);
+      throw new BadRequestException(
+        `Strategy "${strategyName}" not found. Available strategies: 'athan-api-<method>', 'athan-local-<school>', 'athan-official-<school>' or an athan_school with providers.`,
+      );
+    }
 
-    let selectedStrategy: IPrayerTimeStrategy | undefined;
+    const failures: ProviderFailure[] = [];
+    let located: PrayerTimeParams | null = null;
+    let attempted = false;
+    for (const { provider: name, settings } of chain) {
+      const provider = this.providers.get(name);
+      if (!provider) {
+        failures.push({ provider: name, error: 'Provider is not available.' });
+        continue;
+      }
 
+      let request = located ?? params;
+      if (!provider.canServe(request, settings) && !located) {
+        // Providers such as the local calculation need the coordinates of a registered city
+        located = await this.withCityLocation(params);
+        request = located;
+      }
+      if (!provider.canServe(request, settings)) {
+        failures.push({
+          provider: name,
+          error: 'Cannot handle these parameters.',
+        });
+        continue;
+      }
 
-    if(strategyName.toLowerCase().indexOf('athan-api-') == 0){
-      selectedStrategy = this.CityPrayerTimeByAthanStrategy;
-      params['method'] = parseInt(strategyName.charAt(strategyName.length-1));
-      console.log('methode', params['method'],strategyName);
-    }else{
-        this.logger.error(`Unknown strategy name: "${strategyName}"`);
-        throw new Error(`Strategy "${strategyName}" not found. Available strategies: 'athan'.`);
+      attempted = true;
+      try {
+        const days = await this.metricsService.timeUpstream(
+          strategyName,
+          name,
+          () => provider.getPrayerTimes(request, settings),
+        );
+        if (failures.length > 0) {
+          this.logger.warn(
+            `Strategy "${strategyName}" served by fallback provider "${name}".`,
+          );
+        }
+        return { provider: name, days, failures };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(
+          `Provider "${name}" failed for strategy "${strategyName}": ${message}`,
+        );
+        failures.push({ provider: name, error: message });
+      }
     }
 
-    console.log('params',params);
-    // Before executing, ensure the selected strategy can actually handle the provided parameters.
-    // This adds a layer of validation even when a strategy is explicitly chosen.
-    if (!selectedStrategy.canHandle(params)) {
-      this.logger.error(`Selected strategy "${strategyName}" cannot handle the provided parameters.`, params);
-      throw new Error(`Parameters are not valid for the "${strategyName}" strategy. Please check the required parameters for this strategy.`);
+    const summary = failures.map((f) => `${f.provider}: ${f.error}`).join('; ');
+    if (!attempted) {
+      this.logger.error(
+        `No provider of strategy "${strategyName}" can handle the provided parameters.`,
+        params,
+      );
+      throw new BadRequestException(
+        `Parameters are not valid for the "${strategyName}" strategy (${summary}).`,
+      );
     }
+    throw new BadGatewayException(
+      `Every provider failed for the "${strategyName}" strategy (${summary}).`,
+    );
+  }
 
-    // Delegate the call to the explicitly selected strategy
-    return selectedStrategy.getPrayerTimes(params);
+  /**
+   * Provider chain of a strategy: its `athan_school_provider` rows, or the one implied by its name.
+   */
+  private async findProviders(strategyName: string): Promise<ProviderConfig[]> {
+    const rows = await this.dbService.findSchoolProviders(strategyName);
+    if (rows.length > 0) {
+      return rows.map((row) => ({
+        provider: row.provider,
+        settings: row.params,
+      }));
+    }
+    return providersFromStrategyName(strategyName);
+  }
+
+  /**
+   * Adds the coordinates and time zone of the registered city named in the parameters, if any.
+   */
+  private async withCityLocation(
+    params: PrayerTimeParams,
+  ): Promise<PrayerTimeParams> {
+    if (!('city' in params) || 'lat' in params) {
+      return params;
+    }
+    const city = await this.dbService.findCity(params.city, params.country);
+    if (city?.latitude == null || city.longitude == null) {
+      return params;
+    }
+    return {
+      ...params,
+      lat: city.latitude,
+      lon: city.longitude,
+      timezone: city.timezone ?? undefined,
+    };
   }
 }
@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { CurrentPrincipal, RequireRole } from './auth';
+import type { Principal } from './auth';
+import { CreateApiKeyDto, UpdateApiKeyDto } from './auth.dto';
+import { AuthService } from './auth.service';
+import { PageQueryDto } from './location.dto';
+
+@Controller('auth')
+export class AuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * Who the credentials of the request belong to.
+   */
+  @Get('me')
+  @RequireRole('public')
+  me(@CurrentPrincipal() principal: Principal) {
+    return principal;
+  }
+
+  /**
+   * Exchanges the API key of the request for a short-lived bearer token with the same role.
+   * Tokens cannot be exchanged for new ones.
+   */
+  @Post('token')
+  @HttpCode(200)
+  @RequireRole('public')
+  issueToken(@CurrentPrincipal() principal: Principal) {
+    return this.authService.issueToken(principal);
+  }
+
+  @Get('keys')
+  @RequireRole('admin')
+  async listKeys(@Query() query: PageQueryDto) {
+    return this.authService.listKeys(query);
+  }
+
+  @Get('keys/:id')
+  @RequireRole('admin')
+  async getKey(@Param('id', ParseIntPipe) id: number) {
+    return this.authService.getKey(id);
+  }
+
+  @Post('keys')
+  @RequireRole('admin')
+  async createKey(@Body() body: CreateApiKeyDto) {
+    return this.authService.createKey(body);
+  }
+
+  @Put('keys/:id')
+  @RequireRole('admin')
+  async updateKey(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateApiKeyDto,
+  ) {
+    return this.authService.updateKey(id, body);
+  }
+
+  @Delete('keys/:id')
+  @HttpCode(204)
+  @RequireRole('admin')
+  async deleteKey(@Param('id', ParseIntPipe) id: number) {
+    await this.authService.deleteKey(id);
+  }
+}
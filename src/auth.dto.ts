@@ -0,0 +1,71 @@
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ROLES } from './auth';
+import type { Role } from './auth';
+
+/**
+ * Request bodies of the `/auth` endpoints.
+ */
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+export class CreateApiKeyDto {
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @IsIn(ROLES)
+  role!: Role;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  mosque_id?: number; // required for mosque_admin
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  rate_limit?: number; // requests per window; the default for keys when omitted
+}
+
+/**
+ * Omitted fields keep their value; keys themselves cannot be changed, only replaced.
+ */
+export class UpdateApiKeyDto {
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsIn(ROLES)
+  role?: Role;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  mosque_id?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  rate_limit?: number | null;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,185 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  AuthenticatedRequest,
+  hashApiKey,
+  RequireRole,
+  signToken,
+  verifyToken,
+} from './auth';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+import { ApiKeyRow, DbService } from './db.service';
+
+class RoutesStub {
+  open() {}
+
+  @RequireRole('admin')
+  adminOnly() {}
+
+  @RequireRole('mosque_admin')
+  mosqueAdmin() {}
+}
+
+describe('AuthGuard', () => {
+  const mosqueKey: ApiKeyRow = {
+    id: 3,
+    name: 'Grande Mosquée',
+    key_hash: hashApiKey('athan_mosque'),
+    key_prefix: 'athan_mosque',
+    role: 'mosque_admin',
+    mosque_id: 5,
+    rate_limit: null,
+    enabled: 1,
+  };
+
+  let db: jest.Mocked<Pick<DbService, 'findApiKeyByHash' | 'findApiKeyById'>>;
+  let authService: AuthService;
+  let guard: AuthGuard;
+
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = 'athan_admin';
+    process.env.JWT_SECRET = 'test-secret';
+    db = {
+      findApiKeyByHash: jest.fn((hash: string) =>
+        Promise.resolve(hash === mosqueKey.key_hash ? mosqueKey : null),
+      ),
+      findApiKeyById: jest.fn((id: number) =>
+        Promise.resolve(id === mosqueKey.id ? mosqueKey : null),
+      ),
+    };
+    authService = new AuthService(db as unknown as DbService);
+    guard = new AuthGuard(new Reflector(), authService);
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_API_KEY;
+    delete process.env.JWT_SECRET;
+  });
+
+  const check = async (
+    route: keyof RoutesStub,
+    headers: Record<string, string> = {},
+  ) => {
+    const request = { headers } as AuthenticatedRequest;
+    const context = {
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => RoutesStub.prototype[route],
+      getClass: () => RoutesStub,
+    } as unknown as ExecutionContext;
+    await guard.canActivate(context);
+    return request.principal;
+  };
+
+  it('lets anonymous requests through open routes', async () => {
+    await expect(check('open')).resolves.toBeUndefined();
+  });
+
+  it('requires credentials on protected routes', async () => {
+    await expect(check('mosqueAdmin')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects unknown keys even on open routes', async () => {
+    await expect(
+      check('open', { 'x-api-key': 'athan_unknown' }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('checks the role against the route', async () => {
+    const headers = { 'x-api-key': 'athan_mosque' };
+    await expect(check('mosqueAdmin', headers)).resolves.toMatchObject({
+      id: 'key:3',
+      role: 'mosque_admin',
+      mosqueId: 5,
+    });
+    await expect(check('adminOnly', headers)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(
+      check('mosqueAdmin', { 'x-api-key': 'athan_admin' }),
+    ).resolves.toMatchObject({ role: 'admin' });
+  });
+
+  it('accepts the bearer tokens it issues', async () => {
+    const principal = (await check('open', { 'x-api-key': 'athan_mosque' }))!;
+    const { token } = authService.issueToken(principal);
+    await expect(
+      check('mosqueAdmin', { authorization: `Bearer ${token}` }),
+    ).resolves.toEqual({ ...principal, credential: 'token' });
+  });
+
+  it('rejects the tokens of revoked keys', async () => {
+    const principal = (await check('open', { 'x-api-key': 'athan_mosque' }))!;
+    const { token } = authService.issueToken(principal);
+    db.findApiKeyById.mockResolvedValue({ ...mosqueKey, enabled: 0 });
+    await expect(
+      check('open', { authorization: `Bearer ${token}` }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    db.findApiKeyById.mockResolvedValue(null);
+    await expect(
+      check('open', { authorization: `Bearer ${token}` }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('applies the current role of the key to its tokens', async () => {
+    const principal = (await check('open', { 'x-api-key': 'athan_mosque' }))!;
+    const { token } = authService.issueToken(principal);
+    db.findApiKeyById.mockResolvedValue({
+      ...mosqueKey,
+      role: 'public',
+      mosque_id: null,
+    });
+    await expect(
+      check('mosqueAdmin', { authorization: `Bearer ${token}` }),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      check('open', { authorization: `Bearer ${token}` }),
+    ).resolves.toMatchObject({ role: 'public', mosqueId: null });
+  });
+
+  it('only exchanges API keys for tokens', async () => {
+    const principal = (await check('open', { 'x-api-key': 'athan_mosque' }))!;
+    const { token } = authService.issueToken(principal);
+    const bearer = (await check('open', { authorization: `Bearer ${token}` }))!;
+    expect(() => authService.issueToken(bearer)).toThrow(ForbiddenException);
+  });
+});
+
+describe('verifyToken', () => {
+  const claims = {
+    sub: 'key:3',
+    name: 'Grande Mosquée',
+    role: 'mosque_admin' as const,
+    mosque_id: 5,
+    rate_limit: null,
+    iat: 1_800_000_000,
+    exp: 1_800_003_600,
+  };
+  const token = signToken(claims, 'secret');
+
+  it('returns the claims of valid tokens', () => {
+    expect(verifyToken(token, 'secret', 1_800_000_000_000)).toEqual(claims);
+  });
+
+  it('rejects expired, tampered or foreign tokens', () => {
+    expect(verifyToken(token, 'secret', 1_800_003_600_000)).toBeNull();
+    expect(verifyToken(token, 'other', 1_800_000_000_000)).toBeNull();
+    const [header, , signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, role: 'admin' }),
+    ).toString('base64url');
+    expect(
+      verifyToken(
+        `${header}.${forged}.${signature}`,
+        'secret',
+        1_800_000_000_000,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedRequest, hasRole, Role, ROLE_KEY } from './auth';
+import { AuthService } from './auth.service';
+
+/**
+ * Authenticates every request, then checks the role required by the route (see RequireRole).
+ * Credentials that do not check out are rejected even on open routes.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const principal = await this.authService.authenticate(request.headers);
+    request.principal = principal ?? undefined;
+
+    const role = this.reflector.getAllAndOverride<Role | undefined>(ROLE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!role) {
+      return true;
+    }
+    if (!principal) {
+      throw new UnauthorizedException(
+        'Authentication required: send an X-API-Key header or a bearer token',
+      );
+    }
+    if (!hasRole(principal, role)) {
+      throw new ForbiddenException(`Requires the ${role} role`);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,245 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { IncomingHttpHeaders } from 'http';
+import {
+  generateApiKey,
+  hashApiKey,
+  Principal,
+  sameSecret,
+  signToken,
+  verifyToken,
+} from './auth';
+import { CreateApiKeyDto, UpdateApiKeyDto } from './auth.dto';
+import { ApiKeyRow, DbService } from './db.service';
+import { PageQueryDto } from './location.dto';
+import { Paginated } from './location.service';
+
+/**
+ * An API key as returned by the API: the key itself is only shown when created.
+ */
+export type ApiKey = Omit<ApiKeyRow, 'key_hash'> & { key?: string };
+
+export interface IssuedToken {
+  token: string;
+  expiresAt: string;
+}
+
+const DEFAULT_TOKEN_TTL_SECONDS = 3600;
+
+/**
+ * Authenticates requests and manages the `api_key` table.
+ * `ADMIN_API_KEY` is an admin key outside the table, to create the first keys;
+ * `JWT_SECRET` enables bearer tokens, issued in exchange for a key.
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  private readonly adminKey = process.env.ADMIN_API_KEY || null;
+  private readonly jwtSecret = process.env.JWT_SECRET || null;
+  private readonly tokenTtlSeconds = Number(
+    process.env.JWT_TTL_SECONDS || DEFAULT_TOKEN_TTL_SECONDS,
+  );
+
+  constructor(private readonly dbService: DbService) {}
+
+  /**
+   * @returns null for requests without credentials.
+   * @throws UnauthorizedException for unknown, disabled or expired credentials.
+   */
+  async authenticate(headers: IncomingHttpHeaders): Promise<Principal | null> {
+    const apiKey = headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey) {
+      return this.authenticateKey(apiKey);
+    }
+    const authorization = headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return this.authenticateToken(authorization.slice('Bearer '.length));
+    }
+    return null;
+  }
+
+  /**
+   * Issues a bearer token carrying the role and limits of the principal.
+   * @throws BadRequestException when JWT_SECRET is not configured.
+   * @throws ForbiddenException unless the principal authenticated with an API key.
+   */
+  issueToken(principal: Principal): IssuedToken {
+    if (!this.jwtSecret) {
+      throw new BadRequestException('Bearer tokens are not enabled');
+    }
+    if (principal.credential !== 'key') {
+      throw new ForbiddenException('Only API keys can be exchanged for tokens');
+    }
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + this.tokenTtlSeconds;
+    return {
+      token: signToken(
+        {
+          sub: principal.id,
+          name: principal.name,
+          role: principal.role,
+          mosque_id: principal.mosqueId,
+          rate_limit: principal.rateLimit,
+          iat: issuedAt,
+          exp: expiresAt,
+        },
+        this.jwtSecret,
+      ),
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+    };
+  }
+
+  async listKeys(query: PageQueryDto): Promise<Paginated<ApiKey>> {
+    const { page, limit } = query;
+    const result = await this.dbService.listApiKeys(limit, (page - 1) * limit);
+    return { ...result, items: result.items.map(hideHash), page, limit };
+  }
+
+  async getKey(id: number): Promise<ApiKey> {
+    return hideHash(await this.findKey(id));
+  }
+
+  /**
+   * @returns The key record with the key itself, which is not shown again.
+   */
+  async createKey(body: CreateApiKeyDto): Promise<ApiKey> {
+    const key = generateApiKey();
+    const row: Omit<ApiKeyRow, 'id'> = {
+      name: body.name,
+      key_hash: hashApiKey(key),
+      key_prefix: key.slice(0, 12),
+      role: body.role,
+      mosque_id: await this.checkMosque(body.role, body.mosque_id),
+      rate_limit: body.rate_limit ?? null,
+      enabled: 1,
+    };
+    const id = await this.dbService.insertApiKey(row);
+    this.logger.log(`Created ${row.role} API key ${id} "${row.name}".`);
+    return { ...hideHash({ id, ...row }), key };
+  }
+
+  async updateKey(id: number, body: UpdateApiKeyDto): Promise<ApiKey> {
+    const current = await this.findKey(id);
+    const role = body.role ?? current.role;
+    const row: ApiKeyRow = {
+      ...current,
+      name: body.name ?? current.name,
+      role,
+      mosque_id: await this.checkMosque(
+        role,
+        body.mosque_id === undefined ? current.mosque_id : body.mosque_id,
+      ),
+      rate_limit:
+        body.rate_limit === undefined ? current.rate_limit : body.rate_limit,
+      enabled:
+        body.enabled === undefined ? current.enabled : Number(body.enabled),
+    };
+    await this.dbService.updateApiKey(row);
+    return hideHash(row);
+  }
+
+  async deleteKey(id: number): Promise<void> {
+    await this.findKey(id);
+    await this.dbService.deleteApiKey(id);
+  }
+
+  private async authenticateKey(key: string): Promise<Principal> {
+    if (this.adminKey && sameSecret(key, this.adminKey)) {
+      return {
+        id: 'admin',
+        name: 'ADMIN_API_KEY',
+        role: 'admin',
+        mosqueId: null,
+        rateLimit: null,
+        credential: 'key',
+      };
+    }
+    const row = await this.dbService.findApiKeyByHash(hashApiKey(key));
+    if (!row || !row.enabled) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    return keyPrincipal(row, 'key');
+  }
+
+  /**
+   * Tokens of table keys are only valid while their key exists and is enabled,
+   * and carry the current role, mosque and rate limit of the key, not the claimed ones.
+   */
+  private async authenticateToken(token: string): Promise<Principal> {
+    const claims = this.jwtSecret ? verifyToken(token, this.jwtSecret) : null;
+    if (!claims) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+    if (claims.sub.startsWith('key:')) {
+      const row = await this.dbService.findApiKeyById(
+        Number(claims.sub.slice('key:'.length)),
+      );
+      if (!row || !row.enabled) {
+        throw new UnauthorizedException('The API key of this token is revoked');
+      }
+      return keyPrincipal(row, 'token');
+    }
+    return {
+      id: claims.sub,
+      name: claims.name,
+      role: claims.role,
+      mosqueId: claims.mosque_id,
+      rateLimit: claims.rate_limit,
+      credential: 'token',
+    };
+  }
+
+  private async findKey(id: number): Promise<ApiKeyRow> {
+    const key = await this.dbService.findApiKeyById(id);
+    if (!key) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    return key;
+  }
+
+  /**
+   * Mosque admins need an existing mosque; other roles have none.
+   */
+  private async checkMosque(
+    role: string,
+    mosqueId: number | null | undefined,
+  ): Promise<number | null> {
+    if (role !== 'mosque_admin') {
+      return null;
+    }
+    if (!mosqueId) {
+      throw new BadRequestException('mosque_id is required for mosque_admin');
+    }
+    if (!(await this.dbService.findMosqueById(mosqueId))) {
+      throw new BadRequestException(`Mosque ${mosqueId} does not exist`);
+    }
+    return mosqueId;
+  }
+}
+
+function keyPrincipal(
+  row: ApiKeyRow,
+  credential: Principal['credential'],
+): Principal {
+  return {
+    id: `key:${row.id}`,
+    name: row.name,
+    role: row.role,
+    mosqueId: row.mosque_id,
+    rateLimit: row.rate_limit,
+    credential,
+  };
+}
+
+function hideHash(row: ApiKeyRow): ApiKey {
+  const key: ApiKey & { key_hash?: string } = { ...row };
+  delete key.key_hash;
+  return key;
+}
@@ -0,0 +1,160 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  ForbiddenException,
+  SetMetadata,
+} from '@nestjs/common';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+/**
+ * Who is calling: API keys (`X-API-Key`) and the JWTs issued for them
+ * (`Authorization: Bearer`) carry a role; requests without credentials are anonymous.
+ */
+
+export const ROLES = ['public', 'mosque_admin', 'admin'] as const;
+export type Role = (typeof ROLES)[number]; // each role includes the ones before it
+
+export interface Principal {
+  id: string; // e.g. "key:3"; tokens keep the id of the key they were issued for
+  name: string;
+  role: Role;
+  mosqueId: number | null; // the mosque a mosque_admin manages
+  rateLimit: number | null; // requests per window; null for the default
+  credential: 'key' | 'token'; // only keys can be exchanged for tokens
+}
+
+export type AuthenticatedRequest = Request & { principal?: Principal };
+
+export function hasRole(principal: Principal, role: Role): boolean {
+  return ROLES.indexOf(principal.role) >= ROLES.indexOf(role);
+}
+
+/**
+ * @throws ForbiddenException unless the principal is an admin or manages the mosque.
+ */
+export function assertCanManageMosque(
+  principal: Principal,
+  mosqueId: number | null,
+): void {
+  if (
+    !hasRole(principal, 'admin') &&
+    (principal.role !== 'mosque_admin' || principal.mosqueId !== mosqueId)
+  ) {
+    throw new ForbiddenException(`Not allowed to manage mosque ${mosqueId}`);
+  }
+}
+
+/**
+ * @returns The id of the `api_key` row of the principal; null for ADMIN_API_KEY.
+ */
+export function apiKeyId(principal: Principal): number | null {
+  return principal.id.startsWith('key:')
+    ? Number(principal.id.slice('key:'.length))
+    : null;
+}
+
+export const ROLE_KEY = 'role';
+export const RATE_LIMITED_KEY = 'rateLimited';
+
+/**
+ * Lowest role allowed on a route; routes without one are open to anonymous requests.
+ * `public` only requires credentials.
+ */
+export const RequireRole = (role: Role) => SetMetadata(ROLE_KEY, role);
+
+/**
+ * Counts the requests of each key (or anonymous address) against its rate limit.
+ */
+export const RateLimited = () => SetMetadata(RATE_LIMITED_KEY, true);
+
+/**
+ * The principal of the request, undefined when anonymous.
+ */
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().principal,
+);
+
+const API_KEY_PREFIX = 'athan_';
+
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Keys are stored as SHA-256 hashes; being random, they need no salt or slow hash.
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Compares secrets in constant time.
+ */
+export function sameSecret(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export interface TokenClaims {
+  sub: string;
+  name: string;
+  role: Role;
+  mosque_id: number | null;
+  rate_limit: number | null;
+  iat: number; // Unix seconds
+  exp: number;
+}
+
+const JWT_HEADER = Buffer.from(
+  JSON.stringify({ alg: 'HS256', typ: 'JWT' }),
+).toString('base64url');
+
+/**
+ * Signs claims as an HS256 JWT.
+ */
+export function signToken(claims: TokenClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = createHmac('sha256', secret)
+    .update(`${JWT_HEADER}.${payload}`)
+    .digest('base64url');
+  return `${JWT_HEADER}.${payload}.${signature}`;
+}
+
+/**
+ * @returns The claims of a valid, unexpired HS256 token; null otherwise.
+ */
+export function verifyToken(
+  token: string,
+  secret: string,
+  now = Date.now(),
+): TokenClaims | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    return null;
+  }
+  const expected = createHmac('sha256', secret)
+    .update(`${header}.${payload}`)
+    .digest('base64url');
+  if (!sameSecret(signature, expected)) {
+    return null;
+  }
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString()) as {
+      alg?: string;
+    };
+    const claims = JSON.parse(
+      Buffer.from(payload, 'base64url').toString(),
+    ) as TokenClaims;
+    const valid =
+      alg === 'HS256' &&
+      ROLES.includes(claims.role) &&
+      typeof claims.exp === 'number' &&
+      claims.exp * 1000 > now;
+    return valid ? claims : null;
+  } catch {
+    return null;
+  }
+}
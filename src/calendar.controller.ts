@@ -1,12 +1,70 @@
-import { Controller, Get, Param } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireRole } from './auth';
 import { HijriService } from './calendar.service';
+import {
+  HijriCountryQueryDto,
+  IslamicEventsQueryDto,
+  RamadanQueryDto,
+} from './hijri.dto';
+import { RamadanService } from './ramadan.service';
 
 @Controller('calendar')
 export class CalendarController {
-  constructor(private readonly hijriService: HijriService) {}
+  constructor(
+    private readonly hijriService: HijriService,
+    private readonly ramadanService: RamadanService,
+  ) {}
 
-  @Get('/:year')
-  async getNextYearCalendar(@Param('year') year: number) {
-    return this.hijriService.updateOfficialHijriCalendar(year);
+  /**
+   * Ramadan, the Eids and the other Islamic events of a Gregorian year.
+   */
+  @Get('events')
+  getEvents(@Query() query: IslamicEventsQueryDto) {
+    return this.hijriService.listEvents(
+      query.year ?? new Date().getFullYear(),
+      query.country,
+    );
+  }
+
+  /**
+   * Daily end of Suhoor and Iftar for the days of Ramadan in a city.
+   */
+  @Get('ramadan')
+  getRamadan(@Query() query: RamadanQueryDto) {
+    return this.ramadanService.imsakiya({
+      city: query.city,
+      country: query.country,
+      school: query.school,
+      method: query.method,
+      year: query.year,
+      imsak: query.imsak,
+      asr: query.asr,
+      highLatitudeRule: query.high_latitude,
+      offsets: query.offsets,
+    });
+  }
+
+  /**
+   * Loads the Hijri calendar of a Gregorian year, for `country` or the default calendar.
+   */
+  @Post('/:year')
+  @HttpCode(200)
+  @RequireRole('admin')
+  async loadYearCalendar(
+    @Param('year', ParseIntPipe) year: number,
+    @Query() query: HijriCountryQueryDto,
+  ) {
+    return this.hijriService.updateOfficialHijriCalendar(
+      year,
+      await this.hijriService.countryId(query.country),
+    );
   }
 }
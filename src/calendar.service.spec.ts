@@ -0,0 +1,75 @@
+import { BadGatewayException } from '@nestjs/common';
+import { HijriService } from './calendar.service';
+import { DbService } from './db.service';
+import { AladhanHijriDay, FixtureHijriSource } from './hijri-source';
+
+const day = (gregorian: string, hijri: string): AladhanHijriDay => ({
+  gregorian: { date: gregorian },
+  hijri: { date: hijri },
+});
+
+describe('HijriService', () => {
+  let db: jest.Mocked<
+    Pick<DbService, 'upsertHijriCalendar' | 'upsertHijriMonths'>
+  >;
+
+  beforeEach(() => {
+    db = {
+      upsertHijriCalendar: jest.fn().mockResolvedValue(0),
+      upsertHijriMonths: jest.fn().mockResolvedValue(0),
+    };
+  });
+
+  const service = (months: Record<string, AladhanHijriDay[]>) =>
+    new HijriService(
+      db as unknown as DbService,
+      new FixtureHijriSource({ months }),
+    );
+
+  it('stores the months it could fetch and reports the others', async () => {
+    const result = await service({
+      '2026-02': [
+        day('01-02-2026', '13-08-1447'),
+        day('17-02-2026', '29-08-1447'),
+        day('18-02-2026', '01-09-1447'),
+        day('28-02-2026', '11-09-1447'),
+      ],
+    }).updateOfficialHijriCalendar(2026, 1);
+
+    expect(result.months).toEqual([2]);
+    expect(result.failures.map((f) => f.month)).toEqual([
+      1, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12,
+    ]);
+    expect(db.upsertHijriCalendar).toHaveBeenCalledWith([
+      {
+        month: '2026-02-01',
+        hijri_first_day: '1447-08-13',
+        hijri_last_day: '1447-09-11',
+        country_id: 1,
+      },
+    ]);
+    expect(db.upsertHijriMonths).toHaveBeenCalledWith([
+      {
+        country_id: 1,
+        hijri_year: 1447,
+        hijri_month: 8,
+        first_day: '2026-01-20',
+        source: 'aladhan',
+      },
+      {
+        country_id: 1,
+        hijri_year: 1447,
+        hijri_month: 9,
+        first_day: '2026-02-18',
+        source: 'aladhan',
+      },
+    ]);
+  });
+
+  it('fails when no month could be fetched', async () => {
+    await expect(
+      service({}).updateOfficialHijriCalendar(2026),
+    ).rejects.toBeInstanceOf(BadGatewayException);
+    expect(db.upsertHijriCalendar).not.toHaveBeenCalled();
+  });
+});
@@ -1,75 +1,420 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { DbService } from './db.service';
-import axios from 'axios';
-import moment from 'moment';
+import {
+  BadGatewayException,
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { DbService, HijriMonthRow, HijriMonthSource } from './db.service';
+import { addDays, countDays, fromAladhanDate, today } from './date-range';
+import {
+  formatHijri,
+  HIJRI_MONTH_NAMES,
+  HijriDate,
+  HijriMonthStart,
+  monthLength,
+  monthStartsOf,
+  parseHijri,
+  toGregorian,
+  toHijri,
+} from './hijri';
+import { HIJRI_CALENDAR_SOURCE } from './hijri-source';
+import type { HijriCalendarDay, HijriCalendarSource } from './hijri-source';
+import { runWithConcurrency } from './retry';
+import { DailyPrayerTimes } from './prayer-calculator';
+import { HijriCorrectionDto } from './hijri.dto';
+import { findIslamicEvents, IslamicEvent } from './islamic-events';
+
+export interface HijriMonth extends HijriMonthStart {
+  source: HijriMonthSource;
+  note: string | null;
+}
+
+export interface HijriMonthSummary {
+  month: number;
+  name: string;
+  firstDay: string;
+  lastDay: string | null; // null while the next month's start is unknown
+  length: number | null;
+  source: HijriMonthSource;
+  note: string | null;
+}
+
+/**
+ * Largest shift an official correction may apply to a known month start.
+ */
+const MAX_CORRECTION_DAYS = 2;
+
+// A month start is at most 30 days before a day, the next one at most 30 days after it
+const MONTH_WINDOW_DAYS = 31;
+
+/**
+ * Months fetched at once when loading a year.
+ */
+const HIJRI_FETCH_CONCURRENCY = 4;
+
+export interface HijriFetchFailure {
+  month: number; // Gregorian, 1-12
+  error: string;
+}
+
+export interface HijriCalendarUpdate {
+  year: number; // Gregorian
+  countryId: number;
+  source: string;
+  months: number[]; // Gregorian months stored
+  monthStarts: number; // Hijri month starts stored
+  failures: HijriFetchFailure[]; // months left out, to retry later
+}
 
 @Injectable()
 export class HijriService {
   private readonly logger = new Logger(HijriService.name);
 
-  constructor(private readonly dbService: DbService) { }
+  constructor(
+    private readonly dbService: DbService,
+    @Inject(HIJRI_CALENDAR_SOURCE)
+    private readonly source: HijriCalendarSource,
+  ) {}
+
+  /**
+   * Fetches and stores the Hijri calendar of a Gregorian year, for a country or for
+   * the default calendar (country 0), with the month starts used for conversions.
+   * Months that fail are reported in `failures`; the others are stored anyway.
+   * @throws BadGatewayException when every month failed.
+   */
+  async updateOfficialHijriCalendar(
+    gregoYear: number,
+    countryId = 0,
+  ): Promise<HijriCalendarUpdate> {
+    this.logger.log(
+      `Updating Hijri calendar of country ${countryId} for year ${gregoYear}`,
+    );
+
+    const fetched = new Map<number, HijriCalendarDay[]>();
+    const failures: HijriFetchFailure[] = [];
+    const months = Array.from({ length: 12 }, (_, index) => index + 1);
+    await runWithConcurrency(months, HIJRI_FETCH_CONCURRENCY, async (month) => {
+      try {
+        const days = await this.source.fetchMonth(gregoYear, month);
+        if (days.length === 0) {
+          throw new Error('No days returned');
+        }
+        fetched.set(month, days);
+      } catch (error) {
+        const message = (error as Error).message;
+        this.logger.warn(
+          `Hijri calendar of ${gregoYear}-${month} unavailable from ${this.source.name}: ${message}`,
+        );
+        failures.push({ month, error: message });
+      }
+    });
+    if (fetched.size === 0) {
+      throw new BadGatewayException(
+        `No month of the ${gregoYear} Hijri calendar could be fetched from ${this.source.name}.`,
+      );
+    }
 
-  formatDate(date:string):string{
-    const parts = date.split('-');
-    return [parts[2],parts[1],parts[0]].join('-');
+    const stored = months.filter((month) => fetched.has(month));
+    await this.dbService.upsertHijriCalendar(
+      stored.map((month) => {
+        const days = fetched.get(month)!;
+        return {
+          month: days[0].date,
+          hijri_first_day: formatHijri(days[0].hijri),
+          hijri_last_day: formatHijri(days[days.length - 1].hijri),
+          country_id: countryId,
+        };
+      }),
+    );
+    const starts = monthStartsOf(
+      stored.flatMap((month) => fetched.get(month)!),
+    );
+    await this.dbService.upsertHijriMonths(
+      starts.map((start) => ({
+        country_id: countryId,
+        hijri_year: start.year,
+        hijri_month: start.month,
+        first_day: start.firstDay,
+        source: 'aladhan',
+      })),
+    );
+
+    this.logger.log(
+      `Stored ${stored.length} month(s) of the ${gregoYear} Hijri calendar of country ${countryId}.`,
+    );
+    return {
+      year: gregoYear,
+      countryId,
+      source: this.source.name,
+      months: stored,
+      monthStarts: starts.length,
+      failures: failures.sort((x, y) => x.month - y.month),
+    };
   }
+
   /**
-   * Fetch and update the official Moroccan Hijri calendar for a given Hijri year.
+   * Country whose Hijri calendar applies to a request; 0 (the default calendar) when
+   * no country is given.
+   * @throws NotFoundException for an unknown country name.
    */
-  async updateOfficialHijriCalendar(gregoYear: number): Promise<any> {
-    this.logger.log(`Updating official Hijri calendar for Morocco year ${gregoYear}`);
+  async countryId(name?: string): Promise<number> {
+    if (!name) {
+      return 0;
+    }
+    const country = await this.dbService.findCountryByName(name);
+    if (!country) {
+      throw new NotFoundException(`Country "${name}" not found`);
+    }
+    return country.id;
+  }
 
-    const calendar = await this.fetchMonthlyAnnouncements(gregoYear);
-    if (Object.keys(calendar).length === 0) {
-      this.logger.warn('No calendar found for year ' + gregoYear);
-      return;
+  /**
+   * @throws NotFoundException when no stored month covers the day.
+   */
+  async convertToHijri(day: string, countryName?: string) {
+    const countryId = await this.countryId(countryName);
+    const months = await this.findMonths(countryId, {
+      from: addDays(day, -MONTH_WINDOW_DAYS),
+      to: addDays(day, MONTH_WINDOW_DAYS),
+    });
+    const date = toHijri(day, months);
+    if (!date) {
+      throw new NotFoundException(
+        `No Hijri calendar covers ${day}; an admin can load its year with POST /calendar/:year`,
+      );
     }
-    let answer:any = [];
-    console.log(calendar);
-    for (const month in calendar) {
-      let firstDay = calendar[month].first;
-      let lastDay = calendar[month].last;
-      let params = [
-        this.formatDate(firstDay.gregorian.date), 
-        this.formatDate(firstDay.hijri.date), 
-        this.formatDate(lastDay.hijri.date)
-      ];
-      answer.push(params);
-        
-      await this.dbService['pool'].execute(
-        `INSERT INTO hijri_calendar 
-          ( month, hijri_first_day, hijri_last_day) 
-         VALUES (?, ?, ?) on DUPLICATE KEY UPDATE hijri_first_day=hijri_first_day, hijri_last_day=hijri_last_day;`,
-         params,
+    const month = months.find(
+      (m) => m.year === date.year && m.month === date.month,
+    )!;
+    return {
+      date: day,
+      hijri: formatHijri(date),
+      ...date,
+      monthName: HIJRI_MONTH_NAMES[date.month - 1],
+      source: month.source,
+    };
+  }
+
+  /**
+   * @param value Hijri date, "YYYY-MM-DD".
+   * @throws NotFoundException when the month is not stored or shorter than the day.
+   */
+  async convertToGregorian(value: string, countryName?: string) {
+    const date = parseHijri(value);
+    if (!date) {
+      throw new BadRequestException(
+        `Invalid Hijri date "${value}", expected YYYY-MM-DD`,
       );
     }
+    const countryId = await this.countryId(countryName);
+    const months = await this.findMonths(countryId, {
+      fromYear: date.year,
+      toYear: date.year + 1,
+    });
+    const day = toGregorian(date, months);
+    if (!day) {
+      throw new NotFoundException(`No Hijri calendar covers ${value}`);
+    }
+    return {
+      hijri: formatHijri(date),
+      date: day,
+      monthName: HIJRI_MONTH_NAMES[date.month - 1],
+      source: months.find(
+        (m) => m.year === date.year && m.month === date.month,
+      )!.source,
+    };
+  }
+
+  /**
+   * The stored months of a Hijri year, with their Gregorian bounds.
+   */
+  async listYear(
+    year: number,
+    countryName?: string,
+  ): Promise<{ year: number; months: HijriMonthSummary[] }> {
+    const countryId = await this.countryId(countryName);
+    const months = await this.findMonths(countryId, {
+      fromYear: year,
+      toYear: year + 1,
+    });
+    return {
+      year,
+      months: months
+        .filter((m) => m.year === year)
+        .map((m) => summarize(m, months)),
+    };
+  }
 
-    this.logger.log(`Inserted/updated ${Object.keys(calendar).length} records for year ${gregoYear}`);
-    return answer;
+  /**
+   * Islamic events of a Gregorian year, following the country's moon-sighting corrections.
+   */
+  async listEvents(
+    year: number,
+    countryName?: string,
+  ): Promise<{ year: number; events: IslamicEvent[] }> {
+    const countryId = await this.countryId(countryName);
+    const months = await this.findMonths(countryId, {
+      from: addDays(`${year}-01-01`, -MONTH_WINDOW_DAYS),
+      to: `${year}-12-31`,
+    });
+    return { year, events: findIslamicEvents(year, months) };
   }
 
-  private async fetchMonthlyAnnouncements(GregoYear: number): Promise<object> {
-    const results = {};
-
-    // Example: you might scan known URLs or search the site for each month announcement
-    // For brevity: assume you know the URL pattern or search endpoint
-    for (let month = 1; month <= 12; month++) {
-      let url = `https://api.aladhan.com/v1/gToHCalendar/${month}/${GregoYear}`;
-      console.log(url);
-      let resp = await axios.get(url);
-      //const gregDate = moment(resp, 'D MMMM YYYY').format('YYYY-MM-DD');
-      let days = resp.data.data
-      results[month] = { first: days[0], last: days[days.length - 1] };
+  /**
+   * Ramadan of a Hijri year, or the ongoing or next one when `year` is omitted.
+   * @throws NotFoundException when its start is not stored.
+   */
+  async findRamadan(
+    countryId: number,
+    year?: number,
+  ): Promise<{ start: HijriMonth; summary: HijriMonthSummary }> {
+    const months = await this.findMonths(
+      countryId,
+      year === undefined
+        ? {
+            from: addDays(today(), -MONTH_WINDOW_DAYS),
+            to: addDays(today(), 366),
+          }
+        : { fromYear: year, toYear: year + 1 },
+    );
+    const start = months.find(
+      (m) =>
+        m.month === 9 &&
+        (year === undefined
+          ? // A full month is assumed until Chawwal is announced
+            addDays(m.firstDay, (monthLength(m, months) ?? 30) - 1) >= today()
+          : m.year === year),
+    );
+    if (!start) {
+      throw new NotFoundException(
+        year === undefined
+          ? 'No upcoming Ramadan in the stored Hijri calendar'
+          : `Ramadan ${year} is not in the stored Hijri calendar`,
+      );
+    }
+    return { start, summary: summarize(start, months) };
+  }
+
+  /**
+   * Records the official start of a month for a country, e.g. Ramadan starting a day
+   * later than calculated. Every conversion reads the stored starts, so the correction
+   * applies at once, including to the length of the previous month.
+   * @throws BadRequestException when the start moves by more than MAX_CORRECTION_DAYS.
+   */
+  async recordCorrection(body: HijriCorrectionDto): Promise<HijriMonthSummary> {
+    const countryId = await this.countryId(body.country);
+    const around = await this.findMonths(countryId, {
+      fromYear: body.year - 1,
+      toYear: body.year + 1,
+    });
+    const current = around.find(
+      (m) => m.year === body.year && m.month === body.month,
+    );
+    if (current) {
+      // Negative when the official start is earlier
+      const shift =
+        countDays({ from: current.firstDay, to: body.first_day }) - 1;
+      if (Math.abs(shift) > MAX_CORRECTION_DAYS) {
+        throw new BadRequestException(
+          `${body.first_day} is ${Math.abs(shift)} days away from the expected start ${current.firstDay}; corrections are limited to ${MAX_CORRECTION_DAYS} days`,
+        );
+      }
     }
 
-    return results;
+    await this.dbService.saveHijriCorrection({
+      country_id: countryId,
+      hijri_year: body.year,
+      hijri_month: body.month,
+      first_day: body.first_day,
+      note: body.note ?? null,
+    });
+    this.logger.log(
+      `Hijri month ${body.year}-${body.month} of country ${countryId} starts on ${body.first_day} (was ${current?.firstDay ?? 'unknown'}).`,
+    );
+
+    const months = await this.findMonths(countryId, {
+      fromYear: body.year,
+      toYear: body.year + 1,
+    });
+    return summarize(
+      months.find((m) => m.year === body.year && m.month === body.month)!,
+      months,
+    );
   }
 
+  /**
+   * Adds the Hijri date of each day, null outside the stored months.
+   */
+  async withHijriDates<T extends DailyPrayerTimes>(
+    days: T[],
+    countryId: number,
+  ): Promise<(T & { hijri: string | null })[]> {
+    const dates = await this.findHijriDates(
+      days.map((day) => fromAladhanDate(day.date)),
+      countryId,
+    );
+    return days.map((day) => {
+      const hijri = dates.get(fromAladhanDate(day.date));
+      return { ...day, hijri: hijri ? formatHijri(hijri) : null };
+    });
+  }
+
+  /**
+   * Hijri date of each day ("YYYY-MM-DD"), null outside the stored months.
+   */
+  async findHijriDates(
+    days: string[],
+    countryId: number,
+  ): Promise<Map<string, HijriDate | null>> {
+    if (days.length === 0) {
+      return new Map();
+    }
+    const sorted = [...days].sort();
+    const months = await this.findMonths(countryId, {
+      from: addDays(sorted[0], -MONTH_WINDOW_DAYS),
+      to: addDays(sorted[sorted.length - 1], MONTH_WINDOW_DAYS),
+    });
+    return new Map(days.map((day) => [day, toHijri(day, months)]));
+  }
 
-  private hijriMonthName(month: number): string {
-    const names = [
-      '', 'Moharram', 'Safar', 'Rabi I', 'Rabi II', 'Joumada I', 'Joumada II', 'Rajab', 'Chaaban', 'Ramadan', 'Chawwal', 'Dhou al-Qi’dah', 'Dhou al-Hijjah'
-    ];
-    return names[month] || '';
+  /**
+   * Month starts of a country, falling back to the default calendar month by month.
+   */
+  private async findMonths(
+    countryId: number,
+    where: Parameters<DbService['findHijriMonths']>[1],
+  ): Promise<HijriMonth[]> {
+    const rows = await this.dbService.findHijriMonths(countryId, where);
+    const months = new Map<string, HijriMonthRow>();
+    for (const row of rows) {
+      const key = `${row.hijri_year}-${row.hijri_month}`;
+      if (!months.has(key) || row.country_id === countryId) {
+        months.set(key, row);
+      }
+    }
+    return [...months.values()]
+      .map((row) => ({
+        year: row.hijri_year,
+        month: row.hijri_month,
+        firstDay: row.first_day,
+        source: row.source,
+        note: row.note,
+      }))
+      .sort((a, b) => a.firstDay.localeCompare(b.firstDay));
   }
 }
+
+function summarize(month: HijriMonth, months: HijriMonth[]): HijriMonthSummary {
+  const length = monthLength(month, months);
+  return {
+    month: month.month,
+    name: HIJRI_MONTH_NAMES[month.month - 1],
+    firstDay: month.firstDay,
+    lastDay: length === null ? null : addDays(month.firstDay, length - 1),
+    length,
+    source: month.source,
+    note: month.note,
+  };
+}
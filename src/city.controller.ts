@@ -0,0 +1,52 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { RequireRole } from './auth';
+import { LocationService } from './location.service';
+import { CityListQueryDto, CreateCityDto, UpdateCityDto } from './location.dto';
+
+@Controller('cities')
+export class CityController {
+  constructor(private readonly locationService: LocationService) {}
+
+  @Get()
+  async list(@Query() query: CityListQueryDto) {
+    return this.locationService.listCities(query);
+  }
+
+  @Get(':id')
+  async get(@Param('id', ParseIntPipe) id: number) {
+    return this.locationService.getCity(id);
+  }
+
+  @Post()
+  @RequireRole('admin')
+  async create(@Body() body: CreateCityDto) {
+    return this.locationService.createCity(body);
+  }
+
+  @Put(':id')
+  @RequireRole('admin')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateCityDto,
+  ) {
+    return this.locationService.updateCity(id, body);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @RequireRole('admin')
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    await this.locationService.deleteCity(id);
+  }
+}
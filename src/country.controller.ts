@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { RequireRole } from './auth';
+import { LocationService } from './location.service';
+import {
+  CreateCountryDto,
+  PageQueryDto,
+  UpdateCountryDto,
+} from './location.dto';
+
+@Controller('countries')
+export class CountryController {
+  constructor(private readonly locationService: LocationService) {}
+
+  @Get()
+  async list(@Query() query: PageQueryDto) {
+    return this.locationService.listCountries(query);
+  }
+
+  @Get(':id')
+  async get(@Param('id', ParseIntPipe) id: number) {
+    return this.locationService.getCountry(id);
+  }
+
+  @Post()
+  @RequireRole('admin')
+  async create(@Body() body: CreateCountryDto) {
+    return this.locationService.createCountry(body);
+  }
+
+  @Put(':id')
+  @RequireRole('admin')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateCountryDto,
+  ) {
+    return this.locationService.updateCountry(id, body);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @RequireRole('admin')
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    await this.locationService.deleteCountry(id);
+  }
+}
@@ -0,0 +1,37 @@
+import { listDays, listMonths, rangeFromQuery } from './date-range';
+
+describe('date-range', () => {
+  describe('listMonths', () => {
+    it('should span year boundaries', () => {
+      expect(listMonths({ from: '2025-11-20', to: '2026-02-03' })).toEqual([
+        { month: 11, year: 2025 },
+        { month: 12, year: 2025 },
+        { month: 1, year: 2026 },
+        { month: 2, year: 2026 },
+      ]);
+    });
+  });
+
+  describe('rangeFromQuery', () => {
+    it('should build a range from a start and a duration', () => {
+      const range = rangeFromQuery('2025-12-30', undefined, '4');
+      expect(range).toEqual({ from: '2025-12-30', to: '2026-01-02' });
+      expect(listDays(range)).toEqual([
+        '2025-12-30',
+        '2025-12-31',
+        '2026-01-01',
+        '2026-01-02',
+      ]);
+    });
+
+    it('should reject impossible dates and reversed ranges', () => {
+      expect(() => rangeFromQuery('2025-02-30')).toThrow('Invalid "from"');
+      expect(() => rangeFromQuery('2025-03-10', '2025-03-01')).toThrow(
+        'must not be before',
+      );
+      expect(() => rangeFromQuery('2025-01-01', '2026-12-31')).toThrow(
+        'limited to',
+      );
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Helpers for the inclusive "YYYY-MM-DD" day ranges used across the prayer endpoints.
+ */
+
+export interface DateRange {
+  from: string; // first day, YYYY-MM-DD
+  to: string; // last day, YYYY-MM-DD
+}
+
+/**
+ * Longest range a single request may ask for.
+ */
+export const MAX_RANGE_DAYS = 366;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Parses a "YYYY-MM-DD" day, returning null when it is malformed or does not exist.
+ */
+export function parseIsoDate(value: string): Date | null {
+  const match = ISO_DATE.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+export function formatIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date on the server clock, as "YYYY-MM-DD".
+ */
+export function today(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function addDays(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatIsoDate(date);
+}
+
+/**
+ * Number of days in the inclusive range.
+ */
+export function countDays(range: DateRange): number {
+  const from = Date.parse(`${range.from}T00:00:00Z`);
+  const to = Date.parse(`${range.to}T00:00:00Z`);
+  return Math.round((to - from) / 86400000) + 1;
+}
+
+/**
+ * Lists every day of the inclusive range as "YYYY-MM-DD".
+ */
+export function listDays(range: DateRange): string[] {
+  const days: string[] = [];
+  for (let day = range.from; day <= range.to; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Lists the calendar months touched by the range, in order.
+ */
+export function listMonths(
+  range: DateRange,
+): { month: number; year: number }[] {
+  const months: { month: number; year: number }[] = [];
+  let [year, month] = range.from.split('-').map(Number);
+  const [lastYear, lastMonth] = range.to.split('-').map(Number);
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    months.push({ month, year });
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+export function inRange(day: string, range: DateRange): boolean {
+  return day >= range.from && day <= range.to;
+}
+
+export function currentMonthRange(): DateRange {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = now.getMonth() + 1;
+  const days = new Date(year, month, 0).getDate();
+  return {
+    from: `${year}-${pad(month)}-01`,
+    to: `${year}-${pad(month)}-${pad(days)}`,
+  };
+}
+
+/**
+ * Resolves strategy parameters to a range: `duration` days starting at `from` (default today),
+ * or the current month when neither is given.
+ */
+export function resolveRange(from?: string, duration?: number): DateRange {
+  if (from === undefined && duration === undefined) {
+    return currentMonthRange();
+  }
+  const start = from ?? today();
+  return { from: start, to: addDays(start, Math.max(duration ?? 1, 1) - 1) };
+}
+
+/**
+ * Builds a range from the `from`, `to` and `duration` query parameters.
+ * Without any of them the current month is returned.
+ * @throws Error when a value is malformed, the range is reversed or longer than MAX_RANGE_DAYS.
+ */
+export function rangeFromQuery(
+  from?: string,
+  to?: string,
+  duration?: string,
+): DateRange {
+  if (!from && !to && !duration) {
+    return currentMonthRange();
+  }
+  if (from && !parseIsoDate(from)) {
+    throw new Error(`Invalid "from" date "${from}", expected YYYY-MM-DD`);
+  }
+  if (to && !parseIsoDate(to)) {
+    throw new Error(`Invalid "to" date "${to}", expected YYYY-MM-DD`);
+  }
+  if (to && duration) {
+    throw new Error('Use either "to" or "duration", not both');
+  }
+
+  const start = from || today();
+  let range: DateRange;
+  if (to) {
+    range = { from: start, to };
+  } else {
+    const days = duration ? Number(duration) : 1;
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error(
+        `Invalid duration "${duration}", expected a positive integer`,
+      );
+    }
+    range = { from: start, to: addDays(start, days - 1) };
+  }
+
+  if (range.to < range.from) {
+    throw new Error('"to" must not be before "from"');
+  }
+  if (countDays(range) > MAX_RANGE_DAYS) {
+    throw new Error(`Ranges are limited to ${MAX_RANGE_DAYS} days`);
+  }
+  return range;
+}
+
+/**
+ * Converts an Aladhan "DD-MM-YYYY" date to "YYYY-MM-DD".
+ */
+export function fromAladhanDate(date: string): string {
+  const [day, month, year] = date.split('-');
+  return `${year}-${month}-${day}`;
+}
@@ -1,44 +1,217 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
 import * as mysql from 'mysql2/promise'; // Using mysql2/promise for async/await support
+import {
+  AsrSchool,
+  DailyPrayerTimes,
+  HighLatitudeRule,
+  PrayerTimings,
+} from './prayer-calculator';
+import { ProviderSettings } from './prayer-provider';
+import type { Role } from './auth';
+import type { IqamahRule } from './iqamah';
+import type { PrayerOffsets } from './prayer-settings';
+import type { PrayerReminder, WebhookPrayer } from './webhook';
+import { EARTH_RADIUS_KM, KM_PER_DEGREE } from './geo';
+
+/**
+ * Rows per INSERT statement when storing calendars.
+ */
+const CALENDAR_BATCH_SIZE = 500;
+
+export interface AthanSchoolRow {
+  id: number;
+  name: string;
+  startegy_name: string;
+  description: string;
+  priority: number;
+}
+
+export interface SchoolProviderRow {
+  id: number;
+  athan_school_id: number;
+  provider: string; // PrayerTimeProvider.name, e.g. 'aladhan'
+  params: ProviderSettings;
+  priority: number;
+  enabled: number;
+}
+
+export interface CityRow {
+  id: number;
+  name: string;
+  country_name: string;
+  country_id: number;
+  athan_school_id: number | null; // 0 or NULL when the city follows its country
+  latitude: number | null;
+  longitude: number | null;
+  timezone: string | null; // IANA zone, e.g. "Africa/Casablanca"
+  asr_school: AsrSchool | null; // NULL for 'shafi'
+  high_latitude_rule: HighLatitudeRule | null; // NULL for 'none'
+  prayer_offsets: PrayerOffsets | null; // minutes added to each prayer when read
+}
+
+export interface MosqueRow {
+  id: number;
+  name: string;
+  city_id: number;
+  athan_school_id: number | null; // NULL when the mosque follows its city
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  iqamah_rules: IqamahRule[] | null;
+}
+
+export interface WebhookSubscriptionRow {
+  id: number;
+  city_id: number | null; // exactly one of city_id and mosque_id is set
+  mosque_id: number | null;
+  athan_school_id: number | null; // NULL for the city (or mosque) default
+  prayers: WebhookPrayer[];
+  lead_minutes: number;
+  callback_url: string;
+  secret: string;
+  enabled: number;
+  api_key_id: number | null; // the key that created it; NULL for ADMIN_API_KEY
+}
+
+export type WebhookDeliveryStatus =
+  | 'pending'
+  | 'delivered'
+  | 'failed'
+  | 'expired';
+
+export interface WebhookDeliveryRow {
+  id: number;
+  subscription_id: number;
+  prayer: string;
+  prayer_date: string; // YYYY-MM-DD
+  prayer_at: string; // ISO, UTC
+  fire_at: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  error: string | null;
+  delivered_at: string | null;
+}
+
+/**
+ * A delivery due to be sent, with where to send it.
+ */
+export interface DueWebhookDelivery {
+  id: number;
+  subscription_id: number;
+  prayer_at: string; // ISO, UTC
+  attempts: number;
+  payload: PrayerReminder;
+  callback_url: string;
+  secret: string;
+}
+
+export interface PlannedWebhookDelivery {
+  prayer: string;
+  prayer_date: string; // YYYY-MM-DD
+  prayer_at: string; // UTC "YYYY-MM-DD HH:mm:ss"
+  fire_at: string;
+  payload: PrayerReminder;
+}
+
+export interface ApiKeyRow {
+  id: number;
+  name: string;
+  key_hash: string; // SHA-256 of the key, which is never stored
+  key_prefix: string;
+  role: Role;
+  mosque_id: number | null;
+  rate_limit: number | null; // requests per window; NULL for the default
+  enabled: number;
+}
+
+export interface CountryRow {
+  id: number;
+  name: string;
+  athan_school_id: number; // 0 when no default is configured
+}
+
+export interface StoredPrayerTimes extends DailyPrayerTimes {
+  provider: string | null; // NULL for rows stored before providers were tracked
+}
+
+export type HijriMonthSource = 'aladhan' | 'official';
+
+export interface HijriMonthRow {
+  country_id: number; // 0 for the default calendar of countries without their own
+  hijri_year: number;
+  hijri_month: number;
+  first_day: string; // Gregorian, YYYY-MM-DD
+  source: HijriMonthSource; // 'official' rows are moon-sighting corrections, never overwritten
+  note: string | null;
+}
+
+export interface HijriCalendarRow {
+  month: string; // first Gregorian day of the month, YYYY-MM-DD
+  hijri_first_day: string; // Hijri date of that day, YYYY-MM-DD
+  hijri_last_day: string; // Hijri date of the last day of the month
+  country_id: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
 
 @Injectable()
 export class DbService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(DbService.name);
   private pool: mysql.Pool;
+  private readonly calendarListeners: ((city_id: number) => void)[] = [];
 
   constructor() {
     // The connection pool will be initialized in onModuleInit
   }
 
   async onModuleInit() {
-    try {
-      this.pool = mysql.createPool({
-        host: process.env.DB_HOST || 'localhost',
-        port: parseInt(process.env.DB_PORT || '3306', 10),
-        user: process.env.DB_USER || 'root',
-        password: process.env.DB_PASSWORD || '',
-        database: process.env.DB_NAME || 'my_athan',
-        waitForConnections: true,
-        connectionLimit: 10,
-        queueLimit: 0,
-      });
-      this.logger.log('MySQL connection pool initialized successfully.');
+    const config = {
+      host: process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.DB_PORT || '3306', 10),
+      user: process.env.DB_USER || 'root',
+      database: process.env.DB_NAME || 'my_athan',
+    };
+    this.pool = mysql.createPool({
+      ...config,
+      password: process.env.DB_PASSWORD || '',
+      waitForConnections: true,
+      connectionLimit: 10,
+      queueLimit: 0,
+    });
+    this.logger.log('MySQL connection pool initialized successfully.');
 
-      // Optional: Test the connection
-      const connection = await this.pool.getConnection();
-      await connection.query('SELECT 1');
-      connection.release();
+    // The pool reconnects on demand: an unreachable database at startup is reported,
+    // and by /health/ready until it comes back, instead of stopping the application
+    try {
+      await this.ping();
       this.logger.log('Successfully connected to MySQL database.');
-
-      // Optional: Ensure table exists (for demonstration purposes)
-     // await this.createPrayerTimesTable();
-      //await this.createPrayerMethodsTable();
+      // The schema is managed by MigrationService (`npm run migrate`)
     } catch (error) {
-      this.logger.error('Failed to initialize MySQL connection pool:', error.message);
-      // Depending on your application's needs, you might want to throw the error
-      // or handle it gracefully (e.g., retry logic).
-      throw new Error('Database connection failed');
+      this.logger.error({
+        message: 'Failed to connect to MySQL database.',
+        ...config,
+        code: (error as { code?: string }).code,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Runs a trivial query through the pool.
+   * @returns The round trip in milliseconds.
+   */
+  async ping(): Promise<number> {
+    if (!this.pool) {
+      throw new Error('Database service not ready.');
     }
+    const start = Date.now();
+    await this.pool.query('SELECT 1');
+    return Date.now() - start;
   }
 
   async onModuleDestroy() {
@@ -48,48 +221,57 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  private async createPrayerTimesTable() {
-    const createTableSql = `
-      CREATE TABLE IF NOT EXISTS prayer_times (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        prayer_date DATE NOT NULL,
-        fajr_time VARCHAR(10) NOT NULL,
-        shurooq_time VARCHAR(10) NOT NULL,
-        dhuhr_time VARCHAR(10) NOT NULL,
-        asr_time VARCHAR(10) NOT NULL,
-        maghrib_time VARCHAR(10) NOT NULL,
-        isha_time VARCHAR(10) NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-    `;
-    try {
-      await this.pool.execute(createTableSql);
-      this.logger.log('Ensured "prayer_times" table exists.');
-    } catch (error) {
-      this.logger.error('Error creating "prayer_times" table:', error.message);
-      throw error;
+  /**
+   * Registers a listener called after the stored days of a city were written or deleted.
+   */
+  onCalendarChange(listener: (city_id: number) => void): void {
+    this.calendarListeners.push(listener);
+  }
+
+  private notifyCalendarChange(city_id: number) {
+    for (const listener of this.calendarListeners) {
+      listener(city_id);
     }
   }
 
-  private async createPrayerMethodsTable() {
-    const createTableSql = `
-        CREATE TABLE IF NOT EXISTS athan_school (
-        'id' int NOT NULL AUTO_INCREMENT,
-        'name' varchar(50) NOT NULL,
-        'startegy_name' varchar(50) NOT NULL,
-        'description' text NOT NULL,
-        PRIMARY KEY ('id')
-        ) ENGINE=MyISAM DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;
-    `;
+  /**
+   * Runs a callback with a dedicated connection from the pool, released afterwards.
+   */
+  async withConnection<T>(
+    callback: (connection: mysql.PoolConnection) => Promise<T>,
+  ): Promise<T> {
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    const connection = await this.pool.getConnection();
     try {
-      await this.pool.execute(createTableSql);
-      this.logger.log('Ensured "athan_school" table exists.');
-    } catch (error) {
-      this.logger.error('Error creating "athan_school" table:', error.message);
-      throw error;
+      return await callback(connection);
+    } finally {
+      connection.release();
     }
   }
 
+  /**
+   * Runs a callback inside a transaction, committed when it resolves and rolled back when it throws.
+   */
+  async withTransaction<T>(
+    callback: (connection: mysql.PoolConnection) => Promise<T>,
+  ): Promise<T> {
+    return this.withConnection(async (connection) => {
+      await connection.beginTransaction();
+      try {
+        const result = await callback(connection);
+        await connection.commit();
+        return result;
+      } catch (error) {
+        await connection.rollback();
+        throw error;
+      }
+    });
+  }
+
   /**
    * Fetches prayer calculation methods from the PrayerService and saves them to the database.
    * This method assumes that PrayerService has been injected into DbService's constructor.
@@ -113,13 +295,17 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
 
     try {
-      const methods = await prayerService.getMethods();
+      const methods = (await prayerService.getMethods()) as Record<
+        string,
+        { id: number; name?: string }
+      >;
       let insertedCount = 0;
       let updatedCount = 0;
-        console.log(methods);
+      // Schools already registered keep their id and priority
       const sql = `
-        INSERT INTO athan_school (name, startegy_name,description)
-        VALUES (?, ?, ?);`;
+        INSERT INTO athan_school (name, startegy_name, description, priority)
+        VALUES (?, ?, ?, 0)
+        AS incoming ON DUPLICATE KEY UPDATE description = incoming.description;`;
 
       for (const methodId in methods) {
         if (methods.hasOwnProperty(methodId)) {
@@ -127,17 +313,16 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
           if(undefined === method.name){
             continue;
           }
-          console.log(methodId,`athan-api-${method['id']}`,method.name);
+          this.logger.debug(
+            `Saving method ${methodId} as athan-api-${method.id} (${method.name}).`,
+          );
           const [result] = await this.pool.execute(sql, [methodId,`athan-api-${method['id']}`,method.name]);
 
-          // Check if a row was inserted or updated
+          // With ON DUPLICATE KEY UPDATE, affectedRows is 1 for an insert,
+          // 2 for an update and 0 when the row was unchanged
           if ((result as mysql.ResultSetHeader).affectedRows === 1) {
             insertedCount++;
           } else if ((result as mysql.ResultSetHeader).affectedRows === 2) {
-            // For ON DUPLICATE KEY UPDATE, affectedRows can be 2 if a row was updated
-            // (1 for delete, 1 for insert, or 2 for update depending on driver/version)
-            // Or 1 if no change was made but it matched.
-            // A more robust check might involve selecting before updating, but this is generally sufficient.
             updatedCount++;
           }
         }
@@ -149,51 +334,1079 @@ export class DbService implements OnModuleInit, OnModuleDestroy {
     }
   }
   /**
-   * Inserts prayer time data into the database.
+   * Inserts or replaces prayer times for a school and city, in batches within one transaction,
+   * so storing the same days twice never creates duplicates.
    *
-   * @param data The data object to be inserted, expected to have 'date' and 'timings' properties.
-   *             Example: { date: "25-07-2024", timings: { Fajr: "04:00", Shurooq: "05:30", ... } }
-   * @returns A promise that resolves with the result of the insertion.
+   * @param data Rows shaped like `PrayerService.fetchData` output.
+   *             Example: [{ date: "25-07-2024", timings: { Fajr: "04:00", Shurooq: "05:30", ... } }]
+   * @param provider The provider the rows came from, see ProviderResult.
+   * @returns The number of rows written.
    */
-  async insertData(athan_school_id:number,city_id:number,data: any): Promise<any> {
-    this.logger.log('Attempting to insert data:', data);
+  async upsertCalendarRows(
+    athan_school_id: number,
+    city_id: number,
+    data: DailyPrayerTimes[],
+    provider: string | null = null,
+  ): Promise<number> {
+    if (data.length === 0) {
+      return 0;
+    }
+
+    const sql = `
+      INSERT INTO athan_calendar (athan_school_id, city_id, date, data, provider)
+      VALUES ?
+      AS incoming ON DUPLICATE KEY UPDATE
+        data = incoming.data, provider = incoming.provider;`;
+
+    try {
+      await this.withTransaction(async (connection) => {
+        for (let i = 0; i < data.length; i += CALENDAR_BATCH_SIZE) {
+          const values = data
+            .slice(i, i + CALENDAR_BATCH_SIZE)
+            .map(({ date, timings }) => {
+              // Dates come as "DD-MM-YYYY" and are stored as "YYYY-MM-DD"
+              const [day, month, year] = date.split('-');
+              return [
+                athan_school_id,
+                city_id,
+                `${year}-${month}-${day}`,
+                JSON.stringify(timings),
+                provider,
+              ];
+            });
+          await connection.query(sql, [values]);
+        }
+      });
+      this.logger.log(
+        `Stored ${data.length} day(s) for athan_school ${athan_school_id}, city ${city_id}.`,
+      );
+      this.notifyCalendarChange(city_id);
+      return data.length;
+    } catch (error) {
+      this.logger.error(
+        'Error upserting into "athan_calendar":',
+        (error as Error).message,
+      );
+      throw error; // Re-throw the error for the caller to handle
+    }
+  }
 
+  /**
+   * Reads stored prayer times for a school and city over an inclusive date range.
+   * When the same day was stored more than once, the most recent row wins.
+   *
+   * @param from First day, "YYYY-MM-DD".
+   * @param to Last day, "YYYY-MM-DD".
+   * @returns Rows shaped like `PrayerService.fetchData` output, keyed by "YYYY-MM-DD".
+   */
+  async findCalendarRows(
+    athan_school_id: number,
+    city_id: number,
+    from: string,
+    to: string,
+  ): Promise<Map<string, StoredPrayerTimes>> {
     if (!this.pool) {
       this.logger.error('Database pool not initialized.');
       throw new Error('Database service not ready.');
     }
 
+    try {
+      const sql = `
+        SELECT DATE_FORMAT(date, '%Y-%m-%d') AS date, data, provider FROM athan_calendar
+        WHERE athan_school_id = ? AND city_id = ? AND date BETWEEN ? AND ?
+        ORDER BY date, id DESC;`;
+      const [rows] = await this.pool.execute<mysql.RowDataPacket[]>(sql, [
+        athan_school_id,
+        city_id,
+        from,
+        to,
+      ]);
 
+      const result = new Map<string, StoredPrayerTimes>();
+      for (const row of rows) {
+        const date = String(row.date);
+        if (result.has(date)) {
+          continue;
+        }
+        const [year, month, day] = date.split('-');
+        result.set(date, {
+          date: `${day}-${month}-${year}`,
+          timings:
+            typeof row.data === 'string'
+              ? (JSON.parse(row.data) as PrayerTimings)
+              : (row.data as PrayerTimings),
+          provider: (row.provider as string | null) ?? null,
+        });
+      }
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Error reading rows from table "athan_calendar"`,
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
 
-    const sql = `
-      INSERT INTO athan_calendar (athan_school_id, city_id, date, data)
-      VALUES (?, ?, ?, ?)
-    `;
-    let toInsert;
-    for (const dataId in data) {
-        try {
-            const {date, timings } = data[dataId];
-
-            // Assuming date is in "DD-MM-YYYY" format and needs to be converted to "YYYY-MM-DD" for MySQL DATE type
-            const [day, month, year] = date.split('-');
-            const formattedDate = `${year}-${month}-${day}`;
-            toInsert = [
-                athan_school_id,
-                city_id,
-                formattedDate,
-                JSON.stringify(timings)
-            ];
-            const [result] = await this.pool.execute(sql, toInsert);
-            this.logger.log('Data inserted successfully:', result);
-            //return { id: (result as mysql.ResultSetHeader).insertId, ...data };
-          } catch (error) {
-            this.logger.error('Error inserting data into database:', error.message);
-            throw error; // Re-throw the error for the caller to handle
-          }
+  /**
+   * Deletes the days other schools stored for a city while relying on a provider,
+   * e.g. MOROCCO rows copied from the HABOUS timetable, so they are fetched again.
+   *
+   * @param settings The provider settings identifying the source, e.g. `{ school: 'HABOUS' }`.
+   * @param source_school_id The school holding the source rows, which are kept.
+   * @returns The number of rows deleted.
+   */
+  async deleteCalendarRowsByProvider(
+    provider: string,
+    settings: ProviderSettings,
+    source_school_id: number,
+    city_id: number,
+    from: string,
+    to: string,
+  ): Promise<number> {
+    const result = await this.run(
+      `DELETE c FROM athan_calendar c
+       JOIN athan_school_provider p
+         ON p.athan_school_id = c.athan_school_id AND p.provider = c.provider
+       WHERE c.provider = ? AND JSON_CONTAINS(p.params, ?)
+         AND c.athan_school_id <> ? AND c.city_id = ? AND c.date BETWEEN ? AND ?;`,
+      [provider, JSON.stringify(settings), source_school_id, city_id, from, to],
+      'athan_calendar',
+    );
+    if (result.affectedRows > 0) {
+      this.notifyCalendarChange(city_id);
+    }
+    return result.affectedRows;
+  }
+
+  /**
+   * Deletes every stored day of a city, e.g. after its calculation settings changed.
+   * @returns The number of rows deleted.
+   */
+  async deleteCalendarRowsForCity(city_id: number): Promise<number> {
+    const result = await this.run(
+      `DELETE FROM athan_calendar WHERE city_id = ?;`,
+      [city_id],
+      'athan_calendar',
+    );
+    if (result.affectedRows > 0) {
+      this.notifyCalendarChange(city_id);
+    }
+    return result.affectedRows;
+  }
+
+  /**
+   * Reads the Hijri month starts of a country and of the default calendar (country 0).
+   * @param where Either a Gregorian range of first days or a range of Hijri years.
+   */
+  async findHijriMonths(
+    country_id: number,
+    where: { from: string; to: string } | { fromYear: number; toYear: number },
+  ): Promise<HijriMonthRow[]> {
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    const [condition, bounds] =
+      'from' in where
+        ? ['first_day BETWEEN ? AND ?', [where.from, where.to]]
+        : ['hijri_year BETWEEN ? AND ?', [where.fromYear, where.toYear]];
+    try {
+      const [rows] = await this.pool.execute<mysql.RowDataPacket[]>(
+        `SELECT country_id, hijri_year, hijri_month,
+           DATE_FORMAT(first_day, '%Y-%m-%d') AS first_day, source, note
+         FROM hijri_month
+         WHERE country_id IN (?, 0) AND ${condition}
+         ORDER BY first_day, country_id DESC;`,
+        [country_id, ...bounds],
+      );
+      return rows as HijriMonthRow[];
+    } catch (error) {
+      this.logger.error(
+        `Error reading rows from table "hijri_month"`,
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the Hijri bounds of Gregorian months, replacing those already stored.
+   * @returns The number of rows written.
+   */
+  async upsertHijriCalendar(rows: HijriCalendarRow[]): Promise<number> {
+    if (rows.length === 0) {
+      return 0;
+    }
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    try {
+      await this.pool.query(
+        `INSERT INTO hijri_calendar (month, hijri_first_day, hijri_last_day, country_id)
+         VALUES ?
+         AS incoming ON DUPLICATE KEY UPDATE
+           hijri_first_day = incoming.hijri_first_day,
+           hijri_last_day = incoming.hijri_last_day;`,
+        [
+          rows.map((row) => [
+            row.month,
+            row.hijri_first_day,
+            row.hijri_last_day,
+            row.country_id,
+          ]),
+        ],
+      );
+      return rows.length;
+    } catch (error) {
+      this.logger.error(
+        'Error upserting into "hijri_calendar":',
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Stores Hijri month starts, keeping the official corrections already recorded.
+   * @returns The number of rows written.
+   */
+  async upsertHijriMonths(
+    rows: Omit<HijriMonthRow, 'note'>[],
+  ): Promise<number> {
+    if (rows.length === 0) {
+      return 0;
+    }
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    try {
+      await this.pool.query(
+        `INSERT INTO hijri_month (country_id, hijri_year, hijri_month, first_day, source)
+         VALUES ?
+         AS incoming ON DUPLICATE KEY UPDATE
+           first_day = IF(hijri_month.source = 'official' AND incoming.source <> 'official',
+             hijri_month.first_day, incoming.first_day),
+           source = IF(hijri_month.source = 'official', 'official', incoming.source);`,
+        [
+          rows.map((row) => [
+            row.country_id,
+            row.hijri_year,
+            row.hijri_month,
+            row.first_day,
+            row.source,
+          ]),
+        ],
+      );
+      return rows.length;
+    } catch (error) {
+      this.logger.error(
+        'Error upserting into "hijri_month":',
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Records the official start of a Hijri month for a country, replacing any previous one.
+   */
+  async saveHijriCorrection(row: Omit<HijriMonthRow, 'source'>): Promise<void> {
+    await this.run(
+      `INSERT INTO hijri_month (country_id, hijri_year, hijri_month, first_day, source, note)
+       VALUES (?, ?, ?, ?, 'official', ?)
+       AS incoming ON DUPLICATE KEY UPDATE
+         first_day = incoming.first_day, source = 'official', note = incoming.note;`,
+      [
+        row.country_id,
+        row.hijri_year,
+        row.hijri_month,
+        row.first_day,
+        row.note,
+      ],
+      'hijri_month',
+    );
+  }
+
+  /**
+   * Runs a query expected to match at most one row.
+   */
+  private async findOne<T>(
+    sql: string,
+    params: unknown[],
+    table: string,
+  ): Promise<T | null> {
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    try {
+      const [rows] = await this.pool.execute<mysql.RowDataPacket[]>(
+        sql,
+        params,
+      );
+      return rows.length > 0 ? (rows[0] as T) : null;
+    } catch (error) {
+      this.logger.error(
+        `Error searching in table "${table}"`,
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a query returning a page of rows and the total number of matches.
+   * Uses `query` rather than `execute`, as prepared statements reject LIMIT placeholders.
+   */
+  private async findPage<T>(
+    from: string,
+    where: string[],
+    params: unknown[],
+    orderBy: string,
+    limit: number,
+    offset: number,
+  ): Promise<Page<T>> {
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    const condition = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+    try {
+      const [rows] = await this.pool.query<mysql.RowDataPacket[]>(
+        `SELECT * FROM ${from} ${condition} ORDER BY ${orderBy} LIMIT ? OFFSET ?;`,
+        [...params, limit, offset],
+      );
+      const [count] = await this.pool.query<mysql.RowDataPacket[]>(
+        `SELECT COUNT(*) AS total FROM ${from} ${condition};`,
+        params,
+      );
+      return { items: rows as T[], total: Number(count[0].total) };
+    } catch (error) {
+      this.logger.error(
+        `Error listing table "${from}"`,
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Runs an INSERT, UPDATE or DELETE statement.
+   */
+  private async run(
+    sql: string,
+    params: unknown[],
+    table: string,
+  ): Promise<mysql.ResultSetHeader> {
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    try {
+      const [result] = await this.pool.execute<mysql.ResultSetHeader>(
+        sql,
+        params,
+      );
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Error writing to table "${table}"`,
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  async listCountries(
+    search: string | undefined,
+    limit: number,
+    offset: number,
+  ): Promise<Page<CountryRow>> {
+    return search
+      ? this.findPage<CountryRow>(
+          'country',
+          ['name LIKE ?'],
+          [`%${search}%`],
+          'name',
+          limit,
+          offset,
+        )
+      : this.findPage<CountryRow>('country', [], [], 'name', limit, offset);
+  }
+
+  async insertCountry(country: Omit<CountryRow, 'id'>): Promise<number> {
+    const result = await this.run(
+      `INSERT INTO country (name, athan_school_id) VALUES (?, ?);`,
+      [country.name, country.athan_school_id],
+      'country',
+    );
+    return result.insertId;
+  }
+
+  async updateCountry(country: CountryRow): Promise<void> {
+    await this.run(
+      `UPDATE country SET name = ?, athan_school_id = ? WHERE id = ?;`,
+      [country.name, country.athan_school_id, country.id],
+      'country',
+    );
+    // Keep the denormalized name on cities in sync
+    await this.run(
+      `UPDATE city SET country_name = ? WHERE country_id = ?;`,
+      [country.name, country.id],
+      'city',
+    );
+  }
+
+  async deleteCountry(id: number): Promise<void> {
+    await this.run(`DELETE FROM country WHERE id = ?;`, [id], 'country');
+  }
+
+  async listCities(
+    search: string | undefined,
+    countryId: number | undefined,
+    limit: number,
+    offset: number,
+  ): Promise<Page<CityRow>> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (search) {
+      where.push('name LIKE ?');
+      params.push(`%${search}%`);
+    }
+    if (countryId !== undefined) {
+      where.push('country_id = ?');
+      params.push(countryId);
+    }
+    return this.findPage<CityRow>('city', where, params, 'name', limit, offset);
+  }
+
+  async findAllCities(): Promise<CityRow[]> {
+    const { items } = await this.findPage<CityRow>(
+      'city',
+      [],
+      [],
+      'id',
+      Number.MAX_SAFE_INTEGER,
+      0,
+    );
+    return items;
+  }
+
+  async findAllSchools(): Promise<AthanSchoolRow[]> {
+    const { items } = await this.findPage<AthanSchoolRow>(
+      'athan_school',
+      [],
+      [],
+      'priority DESC, id',
+      Number.MAX_SAFE_INTEGER,
+      0,
+    );
+    return items;
+  }
+
+  async findCityById(id: number): Promise<CityRow | null> {
+    return this.findOne<CityRow>(
+      `SELECT * FROM city WHERE id = ? LIMIT 1;`,
+      [id],
+      'city',
+    );
+  }
+
+  async insertCity(city: Omit<CityRow, 'id'>): Promise<number> {
+    const result = await this.run(
+      `INSERT INTO city (name, country_name, country_id, athan_school_id, latitude, longitude, timezone,
+         asr_school, high_latitude_rule, prayer_offsets)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+      [
+        city.name,
+        city.country_name,
+        city.country_id,
+        city.athan_school_id,
+        city.latitude,
+        city.longitude,
+        city.timezone,
+        city.asr_school,
+        city.high_latitude_rule,
+        city.prayer_offsets && JSON.stringify(city.prayer_offsets),
+      ],
+      'city',
+    );
+    return result.insertId;
+  }
+
+  async updateCity(city: CityRow): Promise<void> {
+    await this.run(
+      `UPDATE city SET name = ?, country_name = ?, country_id = ?, athan_school_id = ?,
+         latitude = ?, longitude = ?, timezone = ?,
+         asr_school = ?, high_latitude_rule = ?, prayer_offsets = ?
+       WHERE id = ?;`,
+      [
+        city.name,
+        city.country_name,
+        city.country_id,
+        city.athan_school_id,
+        city.latitude,
+        city.longitude,
+        city.timezone,
+        city.asr_school,
+        city.high_latitude_rule,
+        city.prayer_offsets && JSON.stringify(city.prayer_offsets),
+        city.id,
+      ],
+      'city',
+    );
+  }
+
+  async deleteCity(id: number): Promise<void> {
+    await this.run(`DELETE FROM city WHERE id = ?;`, [id], 'city');
+  }
+
+  /**
+   * Finds a registered city by name, optionally restricted to a country name.
+   */
+  async findCity(name: string, country?: string): Promise<CityRow | null> {
+    return country
+      ? this.findOne<CityRow>(
+          `SELECT * FROM city WHERE name = ? AND country_name = ? LIMIT 1;`,
+          [name, country],
+          'city',
+        )
+      : this.findOne<CityRow>(
+          `SELECT * FROM city WHERE name = ? ORDER BY id LIMIT 1;`,
+          [name],
+          'city',
+        );
+  }
+
+  /**
+   * Nearest registered city with coordinates, by haversine distance.
+   * The bounding box lets the `location` index discard most rows first.
+   */
+  async findNearestCity(
+    latitude: number,
+    longitude: number,
+    radiusKm: number,
+  ): Promise<(CityRow & { distance_km: number }) | null> {
+    const latitudeDelta = radiusKm / KM_PER_DEGREE;
+    const longitudeDelta =
+      radiusKm /
+      (KM_PER_DEGREE * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+    // Near the poles or the antimeridian the box wraps around: only latitude filters
+    const anyLongitude = Math.abs(longitude) + longitudeDelta > 180;
+    return this.findOne<CityRow & { distance_km: number }>(
+      `SELECT *, 2 * ? * ASIN(SQRT(
+           POWER(SIN(RADIANS(latitude - ?) / 2), 2) +
+           COS(RADIANS(?)) * COS(RADIANS(latitude)) *
+           POWER(SIN(RADIANS(longitude - ?) / 2), 2))) AS distance_km
+       FROM city
+       WHERE latitude BETWEEN ? AND ?
+         AND (longitude BETWEEN ? AND ? OR ?)
+       HAVING distance_km <= ?
+       ORDER BY distance_km
+       LIMIT 1;`,
+      [
+        EARTH_RADIUS_KM,
+        latitude,
+        latitude,
+        longitude,
+        latitude - latitudeDelta,
+        latitude + latitudeDelta,
+        longitude - longitudeDelta,
+        longitude + longitudeDelta,
+        anyLongitude,
+        radiusKm,
+      ],
+      'city',
+    );
+  }
+
+  async listMosques(
+    search: string | undefined,
+    cityId: number | undefined,
+    limit: number,
+    offset: number,
+  ): Promise<Page<MosqueRow>> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (search) {
+      where.push('name LIKE ?');
+      params.push(`%${search}%`);
+    }
+    if (cityId !== undefined) {
+      where.push('city_id = ?');
+      params.push(cityId);
+    }
+    return this.findPage<MosqueRow>(
+      'mosque',
+      where,
+      params,
+      'name',
+      limit,
+      offset,
+    );
+  }
+
+  async findMosqueById(id: number): Promise<MosqueRow | null> {
+    return this.findOne<MosqueRow>(
+      `SELECT * FROM mosque WHERE id = ? LIMIT 1;`,
+      [id],
+      'mosque',
+    );
+  }
+
+  async insertMosque(mosque: Omit<MosqueRow, 'id'>): Promise<number> {
+    const result = await this.run(
+      `INSERT INTO mosque (name, city_id, athan_school_id, address, latitude, longitude, iqamah_rules)
+       VALUES (?, ?, ?, ?, ?, ?, ?);`,
+      [
+        mosque.name,
+        mosque.city_id,
+        mosque.athan_school_id,
+        mosque.address,
+        mosque.latitude,
+        mosque.longitude,
+        mosque.iqamah_rules && JSON.stringify(mosque.iqamah_rules),
+      ],
+      'mosque',
+    );
+    return result.insertId;
+  }
+
+  async updateMosque(mosque: MosqueRow): Promise<void> {
+    await this.run(
+      `UPDATE mosque SET name = ?, city_id = ?, athan_school_id = ?, address = ?,
+         latitude = ?, longitude = ?, iqamah_rules = ?
+       WHERE id = ?;`,
+      [
+        mosque.name,
+        mosque.city_id,
+        mosque.athan_school_id,
+        mosque.address,
+        mosque.latitude,
+        mosque.longitude,
+        mosque.iqamah_rules && JSON.stringify(mosque.iqamah_rules),
+        mosque.id,
+      ],
+      'mosque',
+    );
+  }
+
+  async deleteMosque(id: number): Promise<void> {
+    await this.run(`DELETE FROM mosque WHERE id = ?;`, [id], 'mosque');
+  }
+
+  /**
+   * @param owner When set, only the subscriptions of the mosque and the city
+   *   subscriptions created by the key.
+   */
+  async listWebhookSubscriptions(
+    search: string | undefined,
+    owner: { mosqueId: number | null; apiKeyId: number | null } | undefined,
+    limit: number,
+    offset: number,
+  ): Promise<Page<WebhookSubscriptionRow>> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    if (search) {
+      where.push('callback_url LIKE ?');
+      params.push(`%${search}%`);
+    }
+    if (owner) {
+      where.push('(mosque_id = ? OR (city_id IS NOT NULL AND api_key_id = ?))');
+      params.push(owner.mosqueId, owner.apiKeyId);
+    }
+    return this.findPage<WebhookSubscriptionRow>(
+      'webhook_subscription',
+      where,
+      params,
+      'id',
+      limit,
+      offset,
+    );
+  }
+
+  /**
+   * Enabled subscriptions, all of them or those following a city, directly or
+   * through one of its mosques.
+   */
+  async findWebhookSubscriptions(
+    city_id?: number,
+  ): Promise<WebhookSubscriptionRow[]> {
+    const where = ['enabled = 1'];
+    const params: unknown[] = [];
+    if (city_id !== undefined) {
+      where.push(
+        '(city_id = ? OR mosque_id IN (SELECT id FROM mosque WHERE city_id = ?))',
+      );
+      params.push(city_id, city_id);
+    }
+    const { items } = await this.findPage<WebhookSubscriptionRow>(
+      'webhook_subscription',
+      where,
+      params,
+      'id',
+      Number.MAX_SAFE_INTEGER,
+      0,
+    );
+    return items;
+  }
+
+  async findWebhookSubscriptionById(
+    id: number,
+  ): Promise<WebhookSubscriptionRow | null> {
+    return this.findOne<WebhookSubscriptionRow>(
+      `SELECT * FROM webhook_subscription WHERE id = ? LIMIT 1;`,
+      [id],
+      'webhook_subscription',
+    );
+  }
+
+  async insertWebhookSubscription(
+    subscription: Omit<WebhookSubscriptionRow, 'id'>,
+  ): Promise<number> {
+    const result = await this.run(
+      `INSERT INTO webhook_subscription (city_id, mosque_id, athan_school_id, prayers, lead_minutes,
+         callback_url, secret, enabled, api_key_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+      [
+        subscription.city_id,
+        subscription.mosque_id,
+        subscription.athan_school_id,
+        JSON.stringify(subscription.prayers),
+        subscription.lead_minutes,
+        subscription.callback_url,
+        subscription.secret,
+        subscription.enabled,
+        subscription.api_key_id,
+      ],
+      'webhook_subscription',
+    );
+    return result.insertId;
+  }
+
+  async updateWebhookSubscription(
+    subscription: WebhookSubscriptionRow,
+  ): Promise<void> {
+    await this.run(
+      `UPDATE webhook_subscription SET city_id = ?, mosque_id = ?, athan_school_id = ?, prayers = ?,
+         lead_minutes = ?, callback_url = ?, secret = ?, enabled = ?
+       WHERE id = ?;`,
+      [
+        subscription.city_id,
+        subscription.mosque_id,
+        subscription.athan_school_id,
+        JSON.stringify(subscription.prayers),
+        subscription.lead_minutes,
+        subscription.callback_url,
+        subscription.secret,
+        subscription.enabled,
+        subscription.id,
+      ],
+      'webhook_subscription',
+    );
+  }
+
+  /**
+   * Deletes a subscription with its delivery log.
+   */
+  async deleteWebhookSubscription(id: number): Promise<void> {
+    await this.withTransaction(async (connection) => {
+      await connection.execute(
+        `DELETE FROM webhook_delivery WHERE subscription_id = ?;`,
+        [id],
+      );
+      await connection.execute(
+        `DELETE FROM webhook_subscription WHERE id = ?;`,
+        [id],
+      );
+    });
+  }
+
+  /**
+   * Replaces the upcoming deliveries of a subscription that were not attempted yet.
+   * Days already delivered (or being retried) are kept as they are.
+   * @param now UTC "YYYY-MM-DD HH:mm:ss"; deliveries firing later are replaced.
+   * @returns The number of deliveries planned.
+   */
+  async replaceWebhookDeliveries(
+    subscription_id: number,
+    deliveries: PlannedWebhookDelivery[],
+    now: string,
+  ): Promise<number> {
+    return this.withTransaction(async (connection) => {
+      await connection.execute(
+        `DELETE FROM webhook_delivery
+         WHERE subscription_id = ? AND status = 'pending' AND attempts = 0 AND fire_at > ?;`,
+        [subscription_id, now],
+      );
+      if (deliveries.length === 0) {
+        return 0;
       }
+      const [result] = await connection.query<mysql.ResultSetHeader>(
+        `INSERT IGNORE INTO webhook_delivery
+           (subscription_id, prayer, prayer_date, prayer_at, fire_at, next_attempt_at, payload)
+         VALUES ?;`,
+        [
+          deliveries.map((delivery) => [
+            subscription_id,
+            delivery.prayer,
+            delivery.prayer_date,
+            delivery.prayer_at,
+            delivery.fire_at,
+            delivery.fire_at,
+            JSON.stringify(delivery.payload),
+          ]),
+        ],
+      );
+      return result.affectedRows;
+    });
+  }
+
+  /**
+   * Pending deliveries of enabled subscriptions whose next attempt is due, oldest first.
+   * @param now UTC "YYYY-MM-DD HH:mm:ss".
+   */
+  async findDueWebhookDeliveries(
+    now: string,
+    limit: number,
+  ): Promise<DueWebhookDelivery[]> {
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    try {
+      const [rows] = await this.pool.query<mysql.RowDataPacket[]>(
+        `SELECT d.id, d.subscription_id, d.attempts, d.payload,
+           DATE_FORMAT(d.prayer_at, '%Y-%m-%dT%H:%i:%sZ') AS prayer_at,
+           s.callback_url, s.secret
+         FROM webhook_delivery d
+         JOIN webhook_subscription s ON s.id = d.subscription_id
+         WHERE d.status = 'pending' AND d.next_attempt_at <= ? AND s.enabled = 1
+         ORDER BY d.next_attempt_at
+         LIMIT ?;`,
+        [now, limit],
+      );
+      return rows.map((row) => ({
+        ...(row as DueWebhookDelivery),
+        payload:
+          typeof row.payload === 'string'
+            ? (JSON.parse(row.payload) as PrayerReminder)
+            : (row.payload as PrayerReminder),
+      }));
+    } catch (error) {
+      this.logger.error(
+        'Error reading due rows from table "webhook_delivery"',
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
 
+  /**
+   * Records the outcome of an attempt; instants are UTC "YYYY-MM-DD HH:mm:ss".
+   */
+  async recordWebhookAttempt(
+    id: number,
+    attempt: {
+      status: WebhookDeliveryStatus;
+      attempts: number;
+      next_attempt_at: string;
+      response_status: number | null;
+      error: string | null;
+      delivered_at: string | null;
+    },
+  ): Promise<void> {
+    await this.run(
+      `UPDATE webhook_delivery SET status = ?, attempts = ?, next_attempt_at = ?,
+         response_status = ?, error = ?, delivered_at = ?
+       WHERE id = ?;`,
+      [
+        attempt.status,
+        attempt.attempts,
+        attempt.next_attempt_at,
+        attempt.response_status,
+        attempt.error && attempt.error.slice(0, 255),
+        attempt.delivered_at,
+        id,
+      ],
+      'webhook_delivery',
+    );
   }
 
+  /**
+   * Delivery log of a subscription, most recent prayer first.
+   */
+  async listWebhookDeliveries(
+    subscription_id: number,
+    status: WebhookDeliveryStatus | undefined,
+    limit: number,
+    offset: number,
+  ): Promise<Page<WebhookDeliveryRow>> {
+    const iso = (column: string) =>
+      `DATE_FORMAT(${column}, '%Y-%m-%dT%H:%i:%sZ') AS ${column}`;
+    // Instants are formatted in SQL, as the DATETIME columns hold UTC
+    const deliveries = `(
+      SELECT id, subscription_id, prayer, DATE_FORMAT(prayer_date, '%Y-%m-%d') AS prayer_date,
+        ${iso('prayer_at')}, ${iso('fire_at')}, status, attempts, ${iso('next_attempt_at')},
+        response_status, error, ${iso('delivered_at')}
+      FROM webhook_delivery) AS delivery`;
+    const where = ['subscription_id = ?'];
+    const params: unknown[] = [subscription_id];
+    if (status) {
+      where.push('status = ?');
+      params.push(status);
+    }
+    return this.findPage<WebhookDeliveryRow>(
+      deliveries,
+      where,
+      params,
+      'prayer_at DESC, id DESC',
+      limit,
+      offset,
+    );
+  }
+
+  async listApiKeys(limit: number, offset: number): Promise<Page<ApiKeyRow>> {
+    return this.findPage<ApiKeyRow>('api_key', [], [], 'id', limit, offset);
+  }
+
+  async findApiKeyById(id: number): Promise<ApiKeyRow | null> {
+    return this.findOne<ApiKeyRow>(
+      `SELECT * FROM api_key WHERE id = ? LIMIT 1;`,
+      [id],
+      'api_key',
+    );
+  }
+
+  async findApiKeyByHash(key_hash: string): Promise<ApiKeyRow | null> {
+    return this.findOne<ApiKeyRow>(
+      `SELECT * FROM api_key WHERE key_hash = ? LIMIT 1;`,
+      [key_hash],
+      'api_key',
+    );
+  }
+
+  async insertApiKey(key: Omit<ApiKeyRow, 'id'>): Promise<number> {
+    const result = await this.run(
+      `INSERT INTO api_key (name, key_hash, key_prefix, role, mosque_id, rate_limit, enabled)
+       VALUES (?, ?, ?, ?, ?, ?, ?);`,
+      [
+        key.name,
+        key.key_hash,
+        key.key_prefix,
+        key.role,
+        key.mosque_id,
+        key.rate_limit,
+        key.enabled,
+      ],
+      'api_key',
+    );
+    return result.insertId;
+  }
+
+  async updateApiKey(key: ApiKeyRow): Promise<void> {
+    await this.run(
+      `UPDATE api_key SET name = ?, role = ?, mosque_id = ?, rate_limit = ?, enabled = ?
+       WHERE id = ?;`,
+      [key.name, key.role, key.mosque_id, key.rate_limit, key.enabled, key.id],
+      'api_key',
+    );
+  }
+
+  async deleteApiKey(id: number): Promise<void> {
+    await this.run(`DELETE FROM api_key WHERE id = ?;`, [id], 'api_key');
+  }
+
+  async findCountryById(id: number): Promise<CountryRow | null> {
+    return this.findOne<CountryRow>(
+      `SELECT * FROM country WHERE id = ? LIMIT 1;`,
+      [id],
+      'country',
+    );
+  }
+
+  async findCountryByName(name: string): Promise<CountryRow | null> {
+    return this.findOne<CountryRow>(
+      `SELECT * FROM country WHERE name = ? LIMIT 1;`,
+      [name],
+      'country',
+    );
+  }
+
+  async findSchoolById(id: number): Promise<AthanSchoolRow | null> {
+    return this.findOne<AthanSchoolRow>(
+      `SELECT * FROM athan_school WHERE id = ? LIMIT 1;`,
+      [id],
+      'athan_school',
+    );
+  }
+
+  /**
+   * Finds a school by its name (e.g. "MOROCCO") or its strategy name (e.g. "athan-api-21").
+   */
+  async findSchoolByName(name: string): Promise<AthanSchoolRow | null> {
+    return this.findOne<AthanSchoolRow>(
+      `SELECT * FROM athan_school WHERE name = ? OR startegy_name = ? LIMIT 1;`,
+      [name, name],
+      'athan_school',
+    );
+  }
+
+  /**
+   * Lists the enabled providers of the school with this strategy name, highest priority first.
+   */
+  async findSchoolProviders(
+    startegy_name: string,
+  ): Promise<SchoolProviderRow[]> {
+    if (!this.pool) {
+      this.logger.error('Database pool not initialized.');
+      throw new Error('Database service not ready.');
+    }
+
+    try {
+      const [rows] = await this.pool.execute<mysql.RowDataPacket[]>(
+        `SELECT p.* FROM athan_school_provider p
+         JOIN athan_school s ON s.id = p.athan_school_id
+         WHERE s.startegy_name = ? AND p.enabled = 1
+         ORDER BY p.priority DESC, p.id ASC;`,
+        [startegy_name],
+      );
+      return rows.map((row) => ({
+        ...(row as SchoolProviderRow),
+        params:
+          typeof row.params === 'string'
+            ? (JSON.parse(row.params) as ProviderSettings)
+            : (row.params as ProviderSettings),
+      }));
+    } catch (error) {
+      this.logger.error(
+        `Error searching in table "athan_school_provider"`,
+        (error as Error).message,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the school with the highest priority (lowest id on ties).
+   */
+  async findTopPrioritySchool(): Promise<AthanSchoolRow | null> {
+    return this.findOne<AthanSchoolRow>(
+      `SELECT * FROM athan_school ORDER BY priority DESC, id ASC LIMIT 1;`,
+      [],
+      'athan_school',
+    );
+  }
 
   async findCityIdByName(
     city: string,
@@ -0,0 +1,204 @@
+import { Coordinates, distanceKm } from './geo';
+
+/**
+ * Offline gazetteer of major cities: names the place of coordinate requests that are
+ * not near a registered city, and gives the zone of cities registered without one.
+ * Country names follow the `country` table.
+ */
+
+export interface GazetteerCity extends Coordinates {
+  name: string;
+  country: string;
+  timezone: string; // IANA zone
+}
+
+type Entry = [string, string, number, number, string];
+
+const ENTRIES: Entry[] = [
+  // Morocco
+  ['Rabat', 'Morocco', 34.020882, -6.84165, 'Africa/Casablanca'],
+  ['Casablanca', 'Morocco', 33.57311, -7.589843, 'Africa/Casablanca'],
+  ['Marrakesh', 'Morocco', 31.629472, -7.981084, 'Africa/Casablanca'],
+  ['Fes', 'Morocco', 34.033126, -5.000253, 'Africa/Casablanca'],
+  ['Tangier', 'Morocco', 35.759465, -5.833954, 'Africa/Casablanca'],
+  ['Agadir', 'Morocco', 30.427755, -9.598107, 'Africa/Casablanca'],
+  ['Meknes', 'Morocco', 33.895, -5.5547, 'Africa/Casablanca'],
+  ['Oujda', 'Morocco', 34.681962, -1.900155, 'Africa/Casablanca'],
+  ['Kenitra', 'Morocco', 34.26101, -6.5802, 'Africa/Casablanca'],
+  ['Tetouan', 'Morocco', 35.57845, -5.36837, 'Africa/Casablanca'],
+  ['Laayoune', 'Morocco', 27.125287, -13.1625, 'Africa/El_Aaiun'],
+  // North Africa and the Middle East
+  ['Algiers', 'Algeria', 36.753768, 3.058756, 'Africa/Algiers'],
+  ['Oran', 'Algeria', 35.69707, -0.630799, 'Africa/Algiers'],
+  ['Tunis', 'Tunisia', 36.806495, 10.181532, 'Africa/Tunis'],
+  ['Tripoli', 'Libya', 32.887209, 13.191338, 'Africa/Tripoli'],
+  ['Cairo', 'Egypt', 30.04442, 31.235712, 'Africa/Cairo'],
+  ['Alexandria', 'Egypt', 31.200092, 29.918739, 'Africa/Cairo'],
+  ['Khartoum', 'Sudan', 15.500654, 32.559899, 'Africa/Khartoum'],
+  ['Nouakchott', 'Mauritania', 18.07353, -15.958237, 'Africa/Nouakchott'],
+  ['Mecca', 'Saudi Arabia', 21.389082, 39.857912, 'Asia/Riyadh'],
+  ['Medina', 'Saudi Arabia', 24.524654, 39.569184, 'Asia/Riyadh'],
+  ['Riyadh', 'Saudi Arabia', 24.713552, 46.675296, 'Asia/Riyadh'],
+  ['Jeddah', 'Saudi Arabia', 21.485811, 39.192505, 'Asia/Riyadh'],
+  ['Dammam', 'Saudi Arabia', 26.420683, 50.088795, 'Asia/Riyadh'],
+  ['Dubai', 'United Arab Emirates', 25.204849, 55.270783, 'Asia/Dubai'],
+  ['Abu Dhabi', 'United Arab Emirates', 24.453884, 54.377344, 'Asia/Dubai'],
+  ['Doha', 'Qatar', 25.285447, 51.53104, 'Asia/Qatar'],
+  ['Manama', 'Bahrain', 26.228516, 50.58605, 'Asia/Bahrain'],
+  ['Kuwait City', 'Kuwait', 29.375859, 47.977405, 'Asia/Kuwait'],
+  ['Muscat', 'Oman', 23.588, 58.3829, 'Asia/Muscat'],
+  ["Sana'a", 'Yemen', 15.369445, 44.191006, 'Asia/Aden'],
+  ['Amman', 'Jordan', 31.953949, 35.910635, 'Asia/Amman'],
+  ['Jerusalem', 'Palestine', 31.776719, 35.234508, 'Asia/Jerusalem'],
+  ['Gaza', 'Palestine', 31.501695, 34.466844, 'Asia/Gaza'],
+  ['Beirut', 'Lebanon', 33.893791, 35.501777, 'Asia/Beirut'],
+  ['Damascus', 'Syria', 33.513807, 36.276528, 'Asia/Damascus'],
+  ['Baghdad', 'Iraq', 33.315241, 44.366066, 'Asia/Baghdad'],
+  ['Tehran', 'Iran', 35.689198, 51.388974, 'Asia/Tehran'],
+  ['Istanbul', 'Turkey', 41.008238, 28.978359, 'Europe/Istanbul'],
+  ['Ankara', 'Turkey', 39.933363, 32.859742, 'Europe/Istanbul'],
+  // Africa
+  ['Dakar', 'Senegal', 14.716677, -17.467686, 'Africa/Dakar'],
+  ['Bamako', 'Mali', 12.639232, -8.002889, 'Africa/Bamako'],
+  ['Niamey', 'Niger', 13.511596, 2.125385, 'Africa/Niamey'],
+  ['Kano', 'Nigeria', 12.002179, 8.591956, 'Africa/Lagos'],
+  ['Lagos', 'Nigeria', 6.524379, 3.379206, 'Africa/Lagos'],
+  ['Mogadishu', 'Somalia', 2.046934, 45.318162, 'Africa/Mogadishu'],
+  ['Nairobi', 'Kenya', -1.292066, 36.821946, 'Africa/Nairobi'],
+  ['Dar es Salaam', 'Tanzania', -6.792354, 39.208328, 'Africa/Dar_es_Salaam'],
+  [
+    'Johannesburg',
+    'South Africa',
+    -26.204103,
+    28.047305,
+    'Africa/Johannesburg',
+  ],
+  ['Cape Town', 'South Africa', -33.924869, 18.424055, 'Africa/Johannesburg'],
+  // Asia
+  ['Karachi', 'Pakistan', 24.860735, 67.001137, 'Asia/Karachi'],
+  ['Lahore', 'Pakistan', 31.52037, 74.358749, 'Asia/Karachi'],
+  ['Islamabad', 'Pakistan', 33.684422, 73.047882, 'Asia/Karachi'],
+  ['Kabul', 'Afghanistan', 34.555349, 69.207486, 'Asia/Kabul'],
+  ['Delhi', 'India', 28.704059, 77.10249, 'Asia/Kolkata'],
+  ['Mumbai', 'India', 19.075984, 72.877656, 'Asia/Kolkata'],
+  ['Hyderabad', 'India', 17.385044, 78.486671, 'Asia/Kolkata'],
+  ['Dhaka', 'Bangladesh', 23.810332, 90.412518, 'Asia/Dhaka'],
+  ['Tashkent', 'Uzbekistan', 41.299496, 69.240073, 'Asia/Tashkent'],
+  ['Almaty', 'Kazakhstan', 43.238949, 76.889709, 'Asia/Almaty'],
+  ['Baku', 'Azerbaijan', 40.409262, 49.867092, 'Asia/Baku'],
+  ['Kuala Lumpur', 'Malaysia', 3.139003, 101.686855, 'Asia/Kuala_Lumpur'],
+  ['Singapore', 'Singapore', 1.352083, 103.819836, 'Asia/Singapore'],
+  ['Jakarta', 'Indonesia', -6.208763, 106.845599, 'Asia/Jakarta'],
+  ['Surabaya', 'Indonesia', -7.257472, 112.752088, 'Asia/Jakarta'],
+  ['Makassar', 'Indonesia', -5.147665, 119.432732, 'Asia/Makassar'],
+  ['Bandar Seri Begawan', 'Brunei', 4.903052, 114.939821, 'Asia/Brunei'],
+  ['Manila', 'Philippines', 14.599512, 120.984222, 'Asia/Manila'],
+  // Europe
+  ['London', 'United Kingdom', 51.507351, -0.127758, 'Europe/London'],
+  ['Birmingham', 'United Kingdom', 52.486243, -1.890401, 'Europe/London'],
+  ['Manchester', 'United Kingdom', 53.480759, -2.242631, 'Europe/London'],
+  ['Paris', 'France', 48.856614, 2.352222, 'Europe/Paris'],
+  ['Marseille', 'France', 43.296482, 5.36978, 'Europe/Paris'],
+  ['Lyon', 'France', 45.764043, 4.835659, 'Europe/Paris'],
+  ['Brussels', 'Belgium', 50.850346, 4.351721, 'Europe/Brussels'],
+  ['Amsterdam', 'Netherlands', 52.367573, 4.904139, 'Europe/Amsterdam'],
+  ['Rotterdam', 'Netherlands', 51.92442, 4.477733, 'Europe/Amsterdam'],
+  ['Berlin', 'Germany', 52.520007, 13.404954, 'Europe/Berlin'],
+  ['Cologne', 'Germany', 50.937531, 6.960279, 'Europe/Berlin'],
+  ['Madrid', 'Spain', 40.416775, -3.70379, 'Europe/Madrid'],
+  ['Barcelona', 'Spain', 41.385064, 2.173403, 'Europe/Madrid'],
+  ['Rome', 'Italy', 41.902784, 12.496366, 'Europe/Rome'],
+  ['Milan', 'Italy', 45.464204, 9.189982, 'Europe/Rome'],
+  ['Vienna', 'Austria', 48.208174, 16.373819, 'Europe/Vienna'],
+  ['Stockholm', 'Sweden', 59.329323, 18.068581, 'Europe/Stockholm'],
+  ['Oslo', 'Norway', 59.913869, 10.752245, 'Europe/Oslo'],
+  ['Copenhagen', 'Denmark', 55.676097, 12.568337, 'Europe/Copenhagen'],
+  [
+    'Sarajevo',
+    'Bosnia and Herzegovina',
+    43.856259,
+    18.413076,
+    'Europe/Sarajevo',
+  ],
+  ['Moscow', 'Russia', 55.755826, 37.6173, 'Europe/Moscow'],
+  ['Kazan', 'Russia', 55.796127, 49.106405, 'Europe/Moscow'],
+  // Americas and Oceania
+  ['New York', 'United States', 40.712776, -74.005974, 'America/New_York'],
+  ['Chicago', 'United States', 41.878114, -87.629798, 'America/Chicago'],
+  ['Detroit', 'United States', 42.331427, -83.045754, 'America/Detroit'],
+  ['Houston', 'United States', 29.760427, -95.369803, 'America/Chicago'],
+  [
+    'Los Angeles',
+    'United States',
+    34.052234,
+    -118.243685,
+    'America/Los_Angeles',
+  ],
+  ['Toronto', 'Canada', 43.653226, -79.383184, 'America/Toronto'],
+  ['Montreal', 'Canada', 45.501689, -73.567256, 'America/Toronto'],
+  ['Vancouver', 'Canada', 49.282729, -123.120738, 'America/Vancouver'],
+  ['Sao Paulo', 'Brazil', -23.55052, -46.633308, 'America/Sao_Paulo'],
+  ['Sydney', 'Australia', -33.86882, 151.209296, 'Australia/Sydney'],
+  ['Melbourne', 'Australia', -37.813628, 144.963058, 'Australia/Melbourne'],
+];
+
+export const GAZETTEER: GazetteerCity[] = ENTRIES.map(
+  ([name, country, latitude, longitude, timezone]) => ({
+    name,
+    country,
+    latitude,
+    longitude,
+    timezone,
+  }),
+);
+
+/**
+ * Nearest gazetteer city within `radiusKm`, or null.
+ */
+export function findNearestGazetteerCity(
+  location: Coordinates,
+  radiusKm: number,
+  cities: GazetteerCity[] = GAZETTEER,
+): { city: GazetteerCity; distanceKm: number } | null {
+  let nearest: { city: GazetteerCity; distanceKm: number } | null = null;
+  for (const city of cities) {
+    const distance = distanceKm(location, city);
+    if (distance <= radiusKm && (!nearest || distance < nearest.distanceKm)) {
+      nearest = { city, distanceKm: distance };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * IANA zone of a city from the gazetteer: the city itself when listed, else the nearest
+ * listed city of the same country, or any of them when the country has a single zone.
+ * @returns null for countries missing from the gazetteer.
+ */
+export function guessTimezone(
+  name: string,
+  country: string,
+  location?: { latitude: number | null; longitude: number | null },
+): string | null {
+  const sameCountry = GAZETTEER.filter(
+    (city) => city.country.toLowerCase() === country.toLowerCase(),
+  );
+  const listed = sameCountry.find(
+    (city) => city.name.toLowerCase() === name.toLowerCase(),
+  );
+  if (listed) {
+    return listed.timezone;
+  }
+  if (location && location.latitude !== null && location.longitude !== null) {
+    const nearest = findNearestGazetteerCity(
+      { latitude: location.latitude, longitude: location.longitude },
+      Infinity,
+      sameCountry,
+    );
+    if (nearest) {
+      return nearest.city.timezone;
+    }
+  }
+  const zones = new Set(sameCountry.map((city) => city.timezone));
+  return zones.size === 1 ? [...zones][0] : null;
+}
@@ -0,0 +1,31 @@
+/**
+ * Distances on the Earth, taken as a sphere of mean radius.
+ */
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Mean Earth radius (IUGG)
+export const EARTH_RADIUS_KM = 6371.0088;
+
+// Length of a degree of latitude, and of longitude at the equator
+export const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+export const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+export const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Great-circle (haversine) distance.
+ */
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const deltaPhi = toRadians(to.latitude - from.latitude);
+  const deltaLambda = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaPhi / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLambda / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
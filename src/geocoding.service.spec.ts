@@ -0,0 +1,58 @@
+import { rabat } from '../test/fixtures';
+import { DbService } from './db.service';
+import { GeocodingService } from './geocoding.service';
+import { LocationService } from './location.service';
+
+describe('GeocodingService', () => {
+  let db: jest.Mocked<Pick<DbService, 'findNearestCity' | 'findCity'>>;
+  let locations: jest.Mocked<Pick<LocationService, 'registerCity'>>;
+  let service: GeocodingService;
+
+  beforeEach(() => {
+    db = {
+      findNearestCity: jest.fn().mockResolvedValue(null),
+      findCity: jest.fn().mockResolvedValue(null),
+    };
+    locations = {
+      registerCity: jest.fn((name: string, country: string) =>
+        Promise.resolve({ ...rabat, id: 2, name, country_name: country }),
+      ),
+    };
+    service = new GeocodingService(
+      db as unknown as DbService,
+      locations as unknown as LocationService,
+    );
+  });
+
+  it('prefers the nearest registered city', async () => {
+    db.findNearestCity.mockResolvedValue({ ...rabat, distance_km: 3.2 });
+
+    await expect(service.findNearestCity(34.0, -6.8)).resolves.toEqual({
+      city: rabat,
+      distanceKm: 3.2,
+      source: 'registered',
+    });
+    expect(locations.registerCity).not.toHaveBeenCalled();
+  });
+
+  it('registers the nearest gazetteer city', async () => {
+    const nearest = await service.findNearestCity(33.59, -7.6); // Casablanca
+
+    expect(nearest?.source).toBe('gazetteer');
+    expect(nearest?.city.name).toBe('Casablanca');
+    expect(locations.registerCity).toHaveBeenCalledWith(
+      'Casablanca',
+      'Morocco',
+      {
+        latitude: 33.57311,
+        longitude: -7.589843,
+        timezone: 'Africa/Casablanca',
+      },
+    );
+  });
+
+  it('leaves coordinates far from any city alone', async () => {
+    await expect(service.findNearestCity(0, -30)).resolves.toBeNull(); // Atlantic
+    expect(locations.registerCity).not.toHaveBeenCalled();
+  });
+});
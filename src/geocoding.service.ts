@@ -0,0 +1,77 @@
+import { ConflictException, Injectable, Logger } from '@nestjs/common';
+import { CityRow, DbService } from './db.service';
+import { findNearestGazetteerCity } from './gazetteer';
+import { LocationService } from './location.service';
+
+/**
+ * How far coordinates may be from a city to be served as that city.
+ */
+const DEFAULT_RADIUS_KM = 25;
+
+export interface NearestCity {
+  city: CityRow;
+  distanceKm: number;
+  source: 'registered' | 'gazetteer'; // 'gazetteer' when the city was registered for this request
+}
+
+/**
+ * Maps coordinates to a city, so coordinate requests share the cache and the default
+ * school of the city: the nearest registered city first, then the nearest city of the
+ * bundled gazetteer, which is registered on first use.
+ */
+@Injectable()
+export class GeocodingService {
+  private readonly logger = new Logger(GeocodingService.name);
+
+  private readonly radiusKm = Number(
+    process.env.REVERSE_GEOCODING_RADIUS_KM || DEFAULT_RADIUS_KM,
+  );
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly locationService: LocationService,
+  ) {}
+
+  /**
+   * @returns null when no city is within the radius.
+   */
+  async findNearestCity(
+    latitude: number,
+    longitude: number,
+  ): Promise<NearestCity | null> {
+    const registered = await this.dbService.findNearestCity(
+      latitude,
+      longitude,
+      this.radiusKm,
+    );
+    if (registered) {
+      const { distance_km, ...city } = registered;
+      return { city, distanceKm: distance_km, source: 'registered' };
+    }
+
+    const nearest = findNearestGazetteerCity(
+      { latitude, longitude },
+      this.radiusKm,
+    );
+    if (!nearest) {
+      return null;
+    }
+    const { name, country, ...location } = nearest.city;
+    let city: CityRow | null;
+    try {
+      city = await this.locationService.registerCity(name, country, location);
+      this.logger.log(
+        `Registered "${name}, ${country}" from the gazetteer for ${latitude},${longitude}.`,
+      );
+    } catch (error) {
+      // Registered by a concurrent request in the meantime
+      if (!(error instanceof ConflictException)) {
+        throw error;
+      }
+      city = await this.dbService.findCity(name, country);
+    }
+    return city
+      ? { city, distanceKm: nearest.distanceKm, source: 'gazetteer' }
+      : null;
+  }
+}
@@ -0,0 +1,176 @@
+import { toDegrees, toRadians } from './geo';
+
+/**
+ * Magnetic declination from a bundled spherical-harmonic main-field model, so a compass
+ * bearing can be given without calling an external service.
+ * Only the low degrees of the model are bundled: declination is good to a degree or two
+ * away from the magnetic poles, enough to point a phone compass, not to navigate.
+ */
+
+export interface GeomagneticModel {
+  name: string;
+  epoch: number; // decimal year of the coefficients
+  radiusKm: number; // reference radius
+  // Schmidt semi-normalized Gauss coefficients in nT and nT/year: [n, m, g, h, gDot, hDot]
+  coefficients: [number, number, number, number, number, number][];
+}
+
+export const WMM2020_LOW_DEGREE: GeomagneticModel = {
+  name: 'WMM2020 (degree 6)',
+  epoch: 2020.0,
+  radiusKm: 6371.2,
+  coefficients: [
+    [1, 0, -29404.5, 0.0, 6.7, 0.0],
+    [1, 1, -1450.7, 4652.9, 7.7, -25.1],
+    [2, 0, -2500.0, 0.0, -11.5, 0.0],
+    [2, 1, 2982.0, -2991.6, -7.1, -30.2],
+    [2, 2, 1676.8, -734.8, -2.2, -23.9],
+    [3, 0, 1363.9, 0.0, 2.8, 0.0],
+    [3, 1, -2381.0, -82.2, -6.2, 5.7],
+    [3, 2, 1236.2, 241.8, 3.4, -1.0],
+    [3, 3, 525.7, -542.9, -12.2, 1.1],
+    [4, 0, 903.1, 0.0, -1.1, 0.0],
+    [4, 1, 809.4, 282.0, -1.6, 0.2],
+    [4, 2, 86.2, -158.4, -6.0, 6.9],
+    [4, 3, -309.4, 199.8, 5.4, 3.7],
+    [4, 4, 47.9, -350.1, -5.5, -5.6],
+    [5, 0, -234.4, 0.0, -0.3, 0.0],
+    [5, 1, 363.1, 47.7, 0.6, 0.1],
+    [5, 2, 187.8, 208.4, -0.7, 2.5],
+    [5, 3, -140.7, -121.3, 0.1, -0.9],
+    [5, 4, -151.2, 32.2, 1.2, 3.0],
+    [5, 5, 13.7, 99.1, 1.0, 0.5],
+    [6, 0, 65.9, 0.0, -0.6, 0.0],
+    [6, 1, 65.6, -19.1, -0.4, 0.1],
+    [6, 2, 73.0, 25.0, 0.5, -1.8],
+    [6, 3, -121.5, 52.7, 1.4, -1.4],
+    [6, 4, -36.2, -64.4, -1.4, 0.9],
+    [6, 5, 13.5, 9.0, -0.0, 0.1],
+    [6, 6, -64.7, 68.1, 0.8, 1.0],
+  ],
+};
+
+// WGS 84 ellipsoid
+const EQUATORIAL_RADIUS_KM = 6378.137;
+const FLATTENING = 1 / 298.257223563;
+const ECCENTRICITY_SQUARED = FLATTENING * (2 - FLATTENING);
+
+/**
+ * Decimal year of an instant, e.g. 2026.5 in early July 2026.
+ */
+export function decimalYear(date: Date): number {
+  const year = date.getUTCFullYear();
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (date.getTime() - start) / (end - start);
+}
+
+/**
+ * Angle between true north and magnetic north, in degrees: positive when the compass
+ * needle points east of true north.
+ * Past the model's five-year span the secular variation is extrapolated, losing accuracy.
+ */
+export function magneticDeclination(
+  latitude: number,
+  longitude: number,
+  date: Date,
+  altitudeKm = 0,
+  model: GeomagneticModel = WMM2020_LOW_DEGREE,
+): number {
+  // Geodetic to geocentric spherical coordinates
+  const phi = toRadians(latitude);
+  const lambda = toRadians(longitude);
+  const primeVertical =
+    EQUATORIAL_RADIUS_KM /
+    Math.sqrt(1 - ECCENTRICITY_SQUARED * Math.sin(phi) ** 2);
+  const p = (primeVertical + altitudeKm) * Math.cos(phi);
+  const z =
+    (primeVertical * (1 - ECCENTRICITY_SQUARED) + altitudeKm) * Math.sin(phi);
+  const r = Math.hypot(p, z);
+  const geocentricLatitude = Math.asin(z / r);
+  const theta = Math.PI / 2 - geocentricLatitude; // colatitude
+  const sinTheta = Math.max(Math.sin(theta), 1e-10); // avoid dividing by zero at the poles
+  const cosTheta = Math.cos(theta);
+
+  const maxDegree = Math.max(...model.coefficients.map(([n]) => n));
+  const { values, derivatives } = schmidtLegendre(
+    maxDegree,
+    cosTheta,
+    sinTheta,
+  );
+  const years = decimalYear(date) - model.epoch;
+
+  let north = 0;
+  let east = 0;
+  let down = 0;
+  for (const [n, m, g0, h0, gDot, hDot] of model.coefficients) {
+    const g = g0 + gDot * years;
+    const h = h0 + hDot * years;
+    const scale = (model.radiusKm / r) ** (n + 2);
+    const cos = Math.cos(m * lambda);
+    const sin = Math.sin(m * lambda);
+    north += scale * (g * cos + h * sin) * derivatives[n][m];
+    east += (scale * m * (g * sin - h * cos) * values[n][m]) / sinTheta;
+    down -= scale * (n + 1) * (g * cos + h * sin) * values[n][m];
+  }
+
+  // Back to the geodetic frame; east is unchanged
+  const tilt = geocentricLatitude - phi;
+  const geodeticNorth = north * Math.cos(tilt) - down * Math.sin(tilt);
+  return toDegrees(Math.atan2(east, geodeticNorth));
+}
+
+/**
+ * Schmidt semi-normalized associated Legendre functions of cos(θ) and their θ derivatives.
+ */
+function schmidtLegendre(
+  maxDegree: number,
+  cosTheta: number,
+  sinTheta: number,
+): { values: number[][]; derivatives: number[][] } {
+  const size = maxDegree + 1;
+  const values = Array.from({ length: size }, () =>
+    new Array<number>(size).fill(0),
+  );
+  const derivatives = Array.from({ length: size }, () =>
+    new Array<number>(size).fill(0),
+  );
+  values[0][0] = 1;
+
+  // Gauss-normalized recursion first
+  for (let n = 1; n <= maxDegree; n++) {
+    for (let m = 0; m <= n; m++) {
+      if (m === n) {
+        values[n][m] = sinTheta * values[n - 1][m - 1];
+        derivatives[n][m] =
+          sinTheta * derivatives[n - 1][m - 1] +
+          cosTheta * values[n - 1][m - 1];
+        continue;
+      }
+      const k =
+        n === 1 ? 0 : ((n - 1) ** 2 - m ** 2) / ((2 * n - 1) * (2 * n - 3));
+      const previous = n >= 2 ? values[n - 2][m] : 0;
+      const previousDerivative = n >= 2 ? derivatives[n - 2][m] : 0;
+      values[n][m] = cosTheta * values[n - 1][m] - k * previous;
+      derivatives[n][m] =
+        cosTheta * derivatives[n - 1][m] -
+        sinTheta * values[n - 1][m] -
+        k * previousDerivative;
+    }
+  }
+
+  // Then the Schmidt factors
+  let factor = 1;
+  for (let n = 1; n <= maxDegree; n++) {
+    factor *= (2 * n - 1) / n;
+    let schmidt = factor;
+    for (let m = 0; m <= n; m++) {
+      if (m > 0) {
+        schmidt *= Math.sqrt(((n - m + 1) * (m === 1 ? 2 : 1)) / (n + m));
+      }
+      values[n][m] *= schmidt;
+      derivatives[n][m] *= schmidt;
+    }
+  }
+  return { values, derivatives };
+}
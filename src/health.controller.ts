@@ -0,0 +1,41 @@
+import { Controller, Get, Header, HttpStatus, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { HealthService } from './health.service';
+import { MetricsService } from './metrics.service';
+
+@Controller()
+export class HealthController {
+  constructor(
+    private readonly healthService: HealthService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  /**
+   * Liveness: the process serves requests, whatever the state of its dependencies.
+   */
+  @Get('health')
+  liveness() {
+    return { status: 'ok', uptimeSeconds: Math.round(process.uptime()) };
+  }
+
+  /**
+   * Readiness of the database and the prayer time provider; 503 while the database is down.
+   */
+  @Get('health/ready')
+  async readiness(@Res({ passthrough: true }) response: Response) {
+    const readiness = await this.healthService.readiness();
+    if (readiness.status === 'unavailable') {
+      response.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return readiness;
+  }
+
+  /**
+   * Prometheus scrape endpoint.
+   */
+  @Get('metrics')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  metrics() {
+    return this.metricsService.render();
+  }
+}
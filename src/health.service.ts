@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DbService } from './db.service';
+import { PrayerService } from './prayer.service';
+
+export type CheckStatus = 'up' | 'down';
+
+export interface HealthCheck {
+  status: CheckStatus;
+  latencyMs?: number;
+  error?: string;
+  checkedAt: string;
+}
+
+export interface Readiness {
+  status: 'ready' | 'degraded' | 'unavailable';
+  checks: { database: HealthCheck; upstream: HealthCheck };
+}
+
+/**
+ * Readiness of the dependencies. Without the database nothing can be served; without
+ * the Aladhan API cached days and local calculations still are, so it only degrades.
+ * The upstream check is cached for `HEALTH_UPSTREAM_CACHE_SECONDS` so frequent probes
+ * do not hit the API each time.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+
+  private readonly upstreamTimeoutMs = Number(
+    process.env.HEALTH_UPSTREAM_TIMEOUT_MS || 3000,
+  );
+  private readonly upstreamCacheMs =
+    Number(process.env.HEALTH_UPSTREAM_CACHE_SECONDS || 30) * 1000;
+  private upstream: HealthCheck | null = null;
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly prayerService: PrayerService,
+  ) {}
+
+  async readiness(): Promise<Readiness> {
+    const [database, upstream] = await Promise.all([
+      this.check('database', () => this.dbService.ping()),
+      this.checkUpstream(),
+    ]);
+    return {
+      status:
+        database.status === 'down'
+          ? 'unavailable'
+          : upstream.status === 'down'
+            ? 'degraded'
+            : 'ready',
+      checks: { database, upstream },
+    };
+  }
+
+  private async checkUpstream(): Promise<HealthCheck> {
+    const fresh =
+      this.upstream &&
+      Date.now() - Date.parse(this.upstream.checkedAt) < this.upstreamCacheMs;
+    if (!fresh) {
+      this.upstream = await this.check('upstream', () =>
+        this.prayerService.ping(this.upstreamTimeoutMs),
+      );
+    }
+    return this.upstream!;
+  }
+
+  private async check(
+    name: string,
+    probe: () => Promise<number>,
+  ): Promise<HealthCheck> {
+    const checkedAt = new Date().toISOString();
+    try {
+      return { status: 'up', latencyMs: await probe(), checkedAt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Health check "${name}" failed: ${message}`);
+      return { status: 'down', error: message, checkedAt };
+    }
+  }
+}
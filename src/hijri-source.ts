@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { firstValueFrom } from 'rxjs';
+import { fromAladhanDate } from './date-range';
+import { HijriDate } from './hijri';
+
+/**
+ * Where the Hijri calendar of a Gregorian month comes from: Aladhan, or saved
+ * Aladhan responses so the calendar can be loaded (and tested) without network.
+ */
+
+export interface HijriCalendarDay {
+  date: string; // Gregorian, YYYY-MM-DD
+  hijri: HijriDate;
+}
+
+export interface HijriCalendarSource {
+  readonly name: string;
+
+  /**
+   * @param month Gregorian month, 1-12.
+   * @returns The days of the month in order.
+   */
+  fetchMonth(year: number, month: number): Promise<HijriCalendarDay[]>;
+}
+
+/**
+ * Injection token of the HijriCalendarSource used by HijriService.
+ */
+export const HIJRI_CALENDAR_SOURCE = 'HIJRI_CALENDAR_SOURCE';
+
+/**
+ * The parts of an Aladhan `/v1/gToHCalendar` day that we use; both dates are DD-MM-YYYY.
+ */
+export interface AladhanHijriDay {
+  hijri: { date: string };
+  gregorian: { date: string };
+}
+
+export function fromAladhanHijriDay(day: AladhanHijriDay): HijriCalendarDay {
+  const [hijriDay, month, year] = day.hijri.date.split('-').map(Number);
+  return {
+    date: fromAladhanDate(day.gregorian.date),
+    hijri: { year, month, day: hijriDay },
+  };
+}
+
+@Injectable()
+export class AladhanHijriSource implements HijriCalendarSource {
+  readonly name = 'aladhan';
+
+  // Same override as PrayerService, to point at a mirror or a self-hosted instance
+  private readonly baseUrl =
+    process.env.ALADHAN_BASE_URL ?? 'http://api.aladhan.com/v1';
+
+  constructor(private readonly httpService: HttpService) {}
+
+  async fetchMonth(year: number, month: number): Promise<HijriCalendarDay[]> {
+    const response = await firstValueFrom(
+      this.httpService.get<{ data: AladhanHijriDay[] }>(
+        `${this.baseUrl}/gToHCalendar/${month}/${year}`,
+      ),
+    );
+    return response.data.data.map(fromAladhanHijriDay);
+  }
+}
+
+/**
+ * Saved Aladhan `/v1/gToHCalendar` responses, in memory by "YYYY-MM" key or as
+ * `<directory>/<YYYY-MM>.json` files holding the response body.
+ */
+export type HijriFixtures =
+  | { directory: string }
+  | { months: Record<string, AladhanHijriDay[]> };
+
+export class FixtureHijriSource implements HijriCalendarSource {
+  readonly name = 'fixture';
+
+  constructor(private readonly fixtures: HijriFixtures) {}
+
+  /**
+   * @throws Error when no fixture covers the month.
+   */
+  async fetchMonth(year: number, month: number): Promise<HijriCalendarDay[]> {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    if ('months' in this.fixtures) {
+      const days = this.fixtures.months[key];
+      if (!days) {
+        throw new Error(`No Hijri calendar fixture for ${key}`);
+      }
+      return days.map(fromAladhanHijriDay);
+    }
+
+    const file = join(this.fixtures.directory, `${key}.json`);
+    const body = JSON.parse(await readFile(file, 'utf8')) as {
+      data: AladhanHijriDay[];
+    };
+    return body.data.map(fromAladhanHijriDay);
+  }
+}
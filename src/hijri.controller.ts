@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireRole } from './auth';
+import { HijriService } from './calendar.service';
+import {
+  HijriCorrectionDto,
+  HijriCountryQueryDto,
+  ToGregorianQueryDto,
+  ToHijriQueryDto,
+} from './hijri.dto';
+
+@Controller('hijri')
+export class HijriController {
+  constructor(private readonly hijriService: HijriService) {}
+
+  @Get('to-hijri')
+  toHijri(@Query() query: ToHijriQueryDto) {
+    return this.hijriService.convertToHijri(query.date, query.country);
+  }
+
+  @Get('to-gregorian')
+  toGregorian(@Query() query: ToGregorianQueryDto) {
+    return this.hijriService.convertToGregorian(query.date, query.country);
+  }
+
+  /**
+   * Months of a Hijri year with their Gregorian first and last days.
+   */
+  @Get('years/:year')
+  listYear(
+    @Param('year', ParseIntPipe) year: number,
+    @Query() query: HijriCountryQueryDto,
+  ) {
+    return this.hijriService.listYear(year, query.country);
+  }
+
+  /**
+   * Records an official moon-sighting decision, e.g. a month starting a day later.
+   */
+  @Post('corrections')
+  @HttpCode(200)
+  @RequireRole('admin')
+  recordCorrection(@Body() body: HijriCorrectionDto) {
+    return this.hijriService.recordCorrection(body);
+  }
+}
@@ -0,0 +1,107 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PrayerSettingsQueryDto } from './prayer.dto';
+import { IsIsoDay } from './validation';
+
+/**
+ * Query parameters and bodies of the `/hijri` and `/calendar` endpoints.
+ * Without `country`, the default calendar (country 0) is used.
+ */
+
+export class HijriCountryQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  country?: string;
+}
+
+export class ToHijriQueryDto extends HijriCountryQueryDto {
+  @IsIsoDay()
+  date!: string; // Gregorian
+}
+
+export class ToGregorianQueryDto extends HijriCountryQueryDto {
+  @Matches(/^\d{1,4}-\d{2}-\d{2}$/, {
+    message: 'date must be a Hijri date formatted YYYY-MM-DD',
+  })
+  date!: string; // Hijri, e.g. "1447-09-01"
+}
+
+export class HijriCorrectionDto {
+  @IsString()
+  @IsNotEmpty()
+  country!: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1300)
+  @Max(1600)
+  year!: number; // Hijri
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  month!: number;
+
+  @IsIsoDay()
+  first_day!: string; // official Gregorian start of the month
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  note?: string; // e.g. "Crescent not sighted on 29 Chaaban"
+}
+
+export class IslamicEventsQueryDto extends HijriCountryQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1900)
+  @Max(2200)
+  year?: number; // Gregorian, defaults to the current year
+}
+
+export class RamadanQueryDto extends PrayerSettingsQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  city!: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  country?: string; // Optional for registered cities
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  school?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  method?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1300)
+  @Max(1600)
+  year?: number; // Hijri, defaults to the ongoing or next Ramadan
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  imsak?: number; // minutes between the end of Suhoor and Fajr
+}
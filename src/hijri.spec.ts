@@ -0,0 +1,63 @@
+import {
+  HijriMonthStart,
+  monthLength,
+  parseHijri,
+  toGregorian,
+  toHijri,
+} from './hijri';
+
+describe('hijri', () => {
+  const months: HijriMonthStart[] = [
+    { year: 1447, month: 8, firstDay: '2026-01-20' },
+    { year: 1447, month: 9, firstDay: '2026-02-18' },
+    { year: 1447, month: 10, firstDay: '2026-03-20' },
+  ];
+
+  it('measures a month up to the next start', () => {
+    expect(monthLength(months[0], months)).toBe(29);
+    expect(monthLength(months[1], months)).toBe(30);
+    expect(monthLength(months[2], months)).toBeNull();
+  });
+
+  it('converts between calendars', () => {
+    expect(toHijri('2026-02-18', months)).toEqual({
+      year: 1447,
+      month: 9,
+      day: 1,
+    });
+    expect(toHijri('2026-03-19', months)).toEqual({
+      year: 1447,
+      month: 9,
+      day: 30,
+    });
+    expect(toGregorian({ year: 1447, month: 9, day: 30 }, months)).toBe(
+      '2026-03-19',
+    );
+  });
+
+  it('follows a corrected month start', () => {
+    const corrected = months.map((m) =>
+      m.month === 9 ? { ...m, firstDay: '2026-02-19' } : m,
+    );
+    expect(toHijri('2026-02-18', corrected)).toEqual({
+      year: 1447,
+      month: 8,
+      day: 30,
+    });
+    expect(
+      toGregorian({ year: 1447, month: 9, day: 30 }, corrected),
+    ).toBeNull();
+  });
+
+  it('stops at 29 days past the last known start', () => {
+    expect(toHijri('2026-04-17', months)?.day).toBe(29);
+    expect(toHijri('2026-04-18', months)).toBeNull();
+    expect(toHijri('2026-01-19', months)).toBeNull();
+  });
+
+  it('parses Hijri dates', () => {
+    expect(parseHijri('1447-09-30')).toEqual({ year: 1447, month: 9, day: 30 });
+    expect(parseHijri('1447-13-01')).toBeNull();
+    expect(parseHijri('1447-09-31')).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { addDays, countDays } from './date-range';
+
+/**
+ * Gregorian ↔ Hijri conversion from the Gregorian first days of Hijri months.
+ * A month lasts until the next one starts, so a moon-sighting correction of one
+ * start date also changes the length of the month before it.
+ */
+
+export interface HijriDate {
+  year: number;
+  month: number; // 1 (Muharram) to 12 (Dhu al-Hijjah)
+  day: number;
+}
+
+export interface HijriMonthStart {
+  year: number;
+  month: number;
+  firstDay: string; // Gregorian, YYYY-MM-DD
+}
+
+export const HIJRI_MONTH_NAMES = [
+  'Moharram',
+  'Safar',
+  'Rabi I',
+  'Rabi II',
+  'Joumada I',
+  'Joumada II',
+  'Rajab',
+  'Chaaban',
+  'Ramadan',
+  'Chawwal',
+  'Dhou al-Qi’dah',
+  'Dhou al-Hijjah',
+];
+
+// Every Hijri month has at least 29 days; the 30th needs the next start to be known
+const MIN_MONTH_DAYS = 29;
+const MAX_MONTH_DAYS = 30;
+
+const HIJRI_DATE = /^(\d{1,4})-(\d{2})-(\d{2})$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function formatHijri({ year, month, day }: HijriDate): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Parses a "YYYY-MM-DD" Hijri date; the day may be 30 whatever the month.
+ */
+export function parseHijri(value: string): HijriDate | null {
+  const match = HIJRI_DATE.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day] = match.map(Number);
+  return month >= 1 && month <= 12 && day >= 1 && day <= MAX_MONTH_DAYS
+    ? { year, month, day }
+    : null;
+}
+
+function nextMonth({ year, month }: { year: number; month: number }) {
+  return month === 12
+    ? { year: year + 1, month: 1 }
+    : { year, month: month + 1 };
+}
+
+/**
+ * Length of a month, or null when the start of the following one is unknown.
+ * @param months Month starts sorted by first day.
+ */
+export function monthLength(
+  start: HijriMonthStart,
+  months: HijriMonthStart[],
+): number | null {
+  const following = nextMonth(start);
+  const next = months.find(
+    (m) => m.year === following.year && m.month === following.month,
+  );
+  return next
+    ? countDays({ from: start.firstDay, to: next.firstDay }) - 1
+    : null;
+}
+
+/**
+ * @param months Month starts sorted by first day.
+ * @returns null when the day is outside the known months.
+ */
+export function toHijri(
+  day: string,
+  months: HijriMonthStart[],
+): HijriDate | null {
+  const start = [...months].reverse().find((m) => m.firstDay <= day);
+  if (!start) {
+    return null;
+  }
+  const offset = countDays({ from: start.firstDay, to: day }) - 1;
+  const length = monthLength(start, months) ?? MIN_MONTH_DAYS;
+  return offset < length
+    ? { year: start.year, month: start.month, day: offset + 1 }
+    : null;
+}
+
+/**
+ * @param months Month starts sorted by first day.
+ * @returns null when the month is unknown or too short for the day.
+ */
+export function toGregorian(
+  date: HijriDate,
+  months: HijriMonthStart[],
+): string | null {
+  const start = months.find(
+    (m) => m.year === date.year && m.month === date.month,
+  );
+  if (!start) {
+    return null;
+  }
+  const length = monthLength(start, months) ?? MIN_MONTH_DAYS;
+  return date.day <= length ? addDays(start.firstDay, date.day - 1) : null;
+}
+
+/**
+ * The month starts implied by consecutive days: day N of a month started N - 1 days before.
+ */
+export function monthStartsOf(
+  days: { date: string; hijri: HijriDate }[],
+): HijriMonthStart[] {
+  const starts = new Map<string, HijriMonthStart>();
+  for (const { date, hijri } of days) {
+    starts.set(`${hijri.year}-${hijri.month}`, {
+      year: hijri.year,
+      month: hijri.month,
+      firstDay: addDays(date, 1 - hijri.day),
+    });
+  }
+  return [...starts.values()].sort((a, b) =>
+    a.firstDay.localeCompare(b.firstDay),
+  );
+}
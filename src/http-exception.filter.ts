@@ -0,0 +1,92 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { isAxiosError } from 'axios';
+import type { Request, Response } from 'express';
+
+/**
+ * Body of every error response.
+ */
+export interface ErrorResponse {
+  statusCode: number;
+  error: string; // HTTP reason phrase, e.g. "Bad Request"
+  message: string;
+  details?: string[]; // one entry per failed validation constraint
+  path: string;
+  timestamp: string;
+}
+
+const REASONS: Record<number, string> = {
+  [HttpStatus.TOO_MANY_REQUESTS]: 'Too Many Requests',
+  [HttpStatus.BAD_GATEWAY]: 'Bad Gateway',
+  [HttpStatus.INTERNAL_SERVER_ERROR]: 'Internal Server Error',
+};
+
+/**
+ * Renders every exception as an ErrorResponse.
+ * Failures of the upstream prayer time API become 502s; anything else that is not
+ * an HttpException is logged and reported as a 500 without leaking its message.
+ */
+@Catch()
+export class HttpExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(HttpExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const http = host.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+
+    const body = this.toErrorResponse(exception, request.url);
+    response.status(body.statusCode).json(body);
+  }
+
+  private toErrorResponse(exception: unknown, path: string): ErrorResponse {
+    const timestamp = new Date().toISOString();
+
+    if (exception instanceof HttpException) {
+      const statusCode = exception.getStatus();
+      const payload = exception.getResponse();
+      const { message, error } =
+        typeof payload === 'string'
+          ? { message: payload, error: undefined }
+          : (payload as { message?: string | string[]; error?: string });
+      return {
+        statusCode,
+        error: error ?? REASONS[statusCode] ?? exception.name,
+        message: Array.isArray(message)
+          ? 'Validation failed'
+          : (message ?? exception.message),
+        ...(Array.isArray(message) && { details: message }),
+        path,
+        timestamp,
+      };
+    }
+
+    if (isAxiosError(exception)) {
+      this.logger.error(
+        `Upstream request failed: ${exception.config?.url} (${exception.message})`,
+      );
+      return {
+        statusCode: HttpStatus.BAD_GATEWAY,
+        error: REASONS[HttpStatus.BAD_GATEWAY],
+        message: 'The prayer time provider did not respond correctly',
+        path,
+        timestamp,
+      };
+    }
+
+    this.logger.error('Unhandled exception:', exception);
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      error: REASONS[HttpStatus.INTERNAL_SERVER_ERROR],
+      message: 'Internal server error',
+      path,
+      timestamp,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { renderPrayerCalendar } from './ical';
+import { DailyPrayerTimes } from './prayer-calculator';
+
+const day: DailyPrayerTimes = {
+  date: '01-03-2025',
+  timings: {
+    Fajr: '05:26 (+01)',
+    Shurooq: '06:51 (+01)',
+    Dhuhr: '12:47 (+01)',
+    Asr: '16:02 (+01)',
+    Maghrib: '18:39 (+01)',
+    Isha: '19:55 (+01)',
+  },
+};
+
+const options = {
+  city: 'Rabat',
+  country: 'Morocco',
+  school: 'MOROCCO',
+  timezone: 'Africa/Casablanca',
+  now: new Date('2025-03-01T00:00:00Z'),
+};
+
+describe('renderPrayerCalendar', () => {
+  it('should write one UTC event per prayer with stable UIDs', () => {
+    const ics = renderPrayerCalendar([day], options);
+
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(5);
+    expect(ics).toContain(
+      'UID:20250301-fajr-rabat-morocco-morocco@athan-api\r\n',
+    );
+    expect(ics).toContain('DTSTART:20250301T042600Z\r\n');
+    expect(ics).toContain('X-WR-TIMEZONE:Africa/Casablanca\r\n');
+    expect(ics).not.toContain('VALARM');
+    expect(renderPrayerCalendar([day], options)).toBe(ics);
+  });
+
+  it('should add reminders and keep lines within 75 octets', () => {
+    const ics = renderPrayerCalendar([day], {
+      ...options,
+      city: 'Une ville au nom particulièrement long, vraiment très long',
+      prayers: ['Maghrib'],
+      alarmMinutes: 10,
+    });
+
+    expect(ics).toContain('TRIGGER:-PT10M\r\n');
+    expect(ics).toContain('DTSTART:20250301T173900Z\r\n');
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+  });
+});
@@ -0,0 +1,139 @@
+import { fromAladhanDate } from './date-range';
+import { DailyPrayerTimes, PrayerTimings } from './prayer-calculator';
+import { timingToDate } from './timing';
+
+/**
+ * RFC 5545 rendering of prayer times, one VEVENT per prayer.
+ * Events are written in UTC so they are correct whatever zone the subscriber uses;
+ * the location zone is only advertised through X-WR-TIMEZONE.
+ */
+
+export type PrayerName = keyof PrayerTimings;
+
+export const DEFAULT_ICAL_PRAYERS: PrayerName[] = [
+  'Fajr',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+];
+
+export interface IcalOptions {
+  city: string;
+  country: string;
+  school: string; // athan_school name, part of the UIDs
+  timezone?: string | null; // IANA zone of the city, when known
+  prayers?: PrayerName[];
+  alarmMinutes?: number; // adds a VALARM this many minutes before each prayer
+  eventMinutes?: number; // length of each event, 15 minutes by default
+  now?: Date; // DTSTAMP, defaults to the current time
+}
+
+const PRODID = '-//athan-api//Prayer Times//EN';
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line at 75 octets, continuing with CRLF + space (RFC 5545 §3.1).
+ */
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+function slug(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Renders a calendar feed. UIDs only depend on the day, prayer, location and school,
+ * so re-fetching the feed updates events instead of duplicating them.
+ */
+export function renderPrayerCalendar(
+  days: DailyPrayerTimes[],
+  options: IcalOptions,
+): string {
+  const prayers = options.prayers ?? DEFAULT_ICAL_PRAYERS;
+  const stamp = formatUtc(options.now ?? new Date());
+  const location = `${options.city}, ${options.country}`;
+  const uidSuffix = `${slug(options.city)}-${slug(options.country)}-${slug(options.school)}@athan-api`;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`Prayer times – ${location} (${options.school})`)}`,
+  ];
+  if (options.timezone) {
+    lines.push(`X-WR-TIMEZONE:${options.timezone}`);
+  }
+
+  for (const { date, timings } of days) {
+    const day = fromAladhanDate(date);
+    for (const prayer of prayers) {
+      const value = timings[prayer];
+      if (!value || value.startsWith('--')) {
+        continue;
+      }
+      const start = timingToDate(day, value, options.timezone);
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${day.replace(/-/g, '')}-${prayer.toLowerCase()}-${uidSuffix}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatUtc(start)}`,
+        `DURATION:PT${options.eventMinutes ?? 15}M`,
+        `SUMMARY:${escapeText(prayer)}`,
+        `LOCATION:${escapeText(location)}`,
+        'TRANSP:TRANSPARENT',
+      );
+      if (options.alarmMinutes !== undefined) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(`${prayer} in ${options.alarmMinutes} minutes`)}`,
+          `TRIGGER:-PT${options.alarmMinutes}M`,
+          'END:VALARM',
+        );
+      }
+      lines.push('END:VEVENT');
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
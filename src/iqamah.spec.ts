@@ -0,0 +1,72 @@
+import { buildMosqueSchedule, IqamahRule, isIqamahRule } from './iqamah';
+import { PrayerTimings } from './prayer-calculator';
+
+describe('iqamah', () => {
+  const timings: PrayerTimings = {
+    Fajr: '05:50 (+01)',
+    Shurooq: '07:16 (+01)',
+    Dhuhr: '13:18 (+01)',
+    Asr: '16:40 (+01)',
+    Maghrib: '19:12 (+01)',
+    Isha: '20:35 (+01)',
+  };
+  const rules: IqamahRule[] = [
+    { prayer: 'Fajr', offset: 20 },
+    { prayer: 'Dhuhr', time: '13:30' },
+    { prayer: 'Isha', offset: 10 },
+    { prayer: 'Isha', time: '21:00', from: '10-01', to: '03-31' },
+    { prayer: 'Jumuah', time: '13:45' },
+  ];
+
+  const iqamahOf = (date: string, rulesOfMosque = rules) =>
+    Object.fromEntries(
+      buildMosqueSchedule([{ date, timings }], rulesOfMosque)[0].prayers.map(
+        ({ prayer, iqamah }) => [prayer, iqamah],
+      ),
+    );
+
+  it('applies offsets and fixed times, keeping the zone suffix', () => {
+    // Thursday, in the winter season
+    expect(iqamahOf('15-10-2026')).toEqual({
+      Fajr: '06:10 (+01)',
+      Shurooq: null,
+      Dhuhr: '13:30 (+01)',
+      Asr: null,
+      Maghrib: null,
+      Isha: '21:00 (+01)',
+    });
+  });
+
+  it("replaces Dhuhr with Jumu'ah on Fridays", () => {
+    const schedule = iqamahOf('16-10-2026');
+    expect(schedule.Jumuah).toBe('13:45 (+01)');
+    expect(schedule).not.toHaveProperty('Dhuhr');
+    // Without a Jumu'ah rule the Dhuhr rule still applies
+    expect(iqamahOf('16-10-2026', rules.slice(0, 2)).Jumuah).toBe(
+      '13:30 (+01)',
+    );
+  });
+
+  it('uses year-round rules outside a season spanning the new year', () => {
+    expect(iqamahOf('15-06-2026').Isha).toBe('20:45 (+01)');
+    expect(iqamahOf('15-01-2026').Isha).toBe('21:00 (+01)');
+  });
+
+  it('never sets a fixed iqamah before the adhan', () => {
+    expect(
+      iqamahOf('15-10-2026', [{ prayer: 'Isha', time: '20:00' }]).Isha,
+    ).toBe('20:35 (+01)');
+  });
+
+  it('rejects rules with both or neither an offset and a time', () => {
+    expect(isIqamahRule({ prayer: 'Isha', offset: 10 })).toBe(true);
+    expect(isIqamahRule({ prayer: 'Isha', offset: 10, time: '21:00' })).toBe(
+      false,
+    );
+    expect(isIqamahRule({ prayer: 'Isha' })).toBe(false);
+    expect(isIqamahRule({ prayer: 'Shurooq', offset: 5 })).toBe(false);
+    expect(isIqamahRule({ prayer: 'Isha', time: '21:00', from: '10-01' })).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import { DailyPrayerTimes, PrayerTimings } from './prayer-calculator';
+import { fromAladhanDate } from './date-range';
+import { shiftTiming } from './prayer-settings';
+import { parseTiming } from './timing';
+
+/**
+ * Iqamah (congregation) times of a mosque: each rule sets the iqamah of a prayer either
+ * as minutes after the adhan or as a fixed local time, optionally for part of the year.
+ * On Fridays, Dhuhr is replaced by Jumu'ah.
+ */
+
+export const IQAMAH_PRAYERS = [
+  'Fajr',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+  'Jumuah',
+] as const;
+export type IqamahPrayer = (typeof IQAMAH_PRAYERS)[number];
+
+export interface IqamahRule {
+  prayer: IqamahPrayer;
+  offset?: number; // minutes after the adhan
+  time?: string; // fixed local "HH:mm"
+  from?: string; // first day of the season, "MM-DD"
+  to?: string; // last day of the season, "MM-DD"; before `from` when it spans the new year
+}
+
+export interface ScheduledPrayer {
+  prayer: IqamahPrayer | 'Shurooq';
+  adhan: string;
+  iqamah: string | null; // null without a rule, and for Shurooq
+}
+
+export interface MosqueScheduleDay {
+  date: string; // YYYY-MM-DD
+  prayers: ScheduledPrayer[];
+}
+
+const CLOCK = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MONTH_DAY = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+// Longest wait after the adhan a rule may set
+export const MAX_IQAMAH_OFFSET_MINUTES = 120;
+
+/**
+ * Either an offset or a fixed time, and both season bounds or none.
+ */
+export function isIqamahRule(value: unknown): value is IqamahRule {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const rule = value as Record<string, unknown>;
+  const known = ['prayer', 'offset', 'time', 'from', 'to'];
+  return (
+    Object.keys(rule).every((key) => known.includes(key)) &&
+    IQAMAH_PRAYERS.includes(rule.prayer as IqamahPrayer) &&
+    (rule.offset === undefined) !== (rule.time === undefined) &&
+    (rule.offset === undefined ||
+      (Number.isInteger(rule.offset) &&
+        (rule.offset as number) >= 0 &&
+        (rule.offset as number) <= MAX_IQAMAH_OFFSET_MINUTES)) &&
+    (rule.time === undefined ||
+      (typeof rule.time === 'string' && CLOCK.test(rule.time))) &&
+    (rule.from === undefined) === (rule.to === undefined) &&
+    [rule.from, rule.to].every(
+      (bound) =>
+        bound === undefined ||
+        (typeof bound === 'string' && MONTH_DAY.test(bound)),
+    )
+  );
+}
+
+function inSeason(rule: IqamahRule, day: string): boolean {
+  if (rule.from === undefined || rule.to === undefined) {
+    return true;
+  }
+  const monthDay = day.slice(5);
+  return rule.from <= rule.to
+    ? monthDay >= rule.from && monthDay <= rule.to
+    : monthDay >= rule.from || monthDay <= rule.to;
+}
+
+/**
+ * The rule of a prayer on a day: a seasonal rule wins over a year-round one,
+ * then the first listed.
+ */
+export function findIqamahRule(
+  rules: IqamahRule[],
+  prayer: IqamahPrayer,
+  day: string,
+): IqamahRule | null {
+  const matching = rules.filter(
+    (rule) => rule.prayer === prayer && inSeason(rule, day),
+  );
+  return (
+    matching.find((rule) => rule.from !== undefined) ?? matching[0] ?? null
+  );
+}
+
+const minutesOf = (value: string) => {
+  const { hour, minute } = parseTiming(value);
+  return hour * 60 + minute;
+};
+
+/**
+ * A fixed time never comes before the adhan, e.g. when summer pushes Isha past it.
+ */
+function iqamahTime(rule: IqamahRule, adhan: string): string {
+  if (rule.offset !== undefined) {
+    return shiftTiming(adhan, rule.offset);
+  }
+  const time = rule.time!;
+  // Keep the zone suffix of the adhan, as shiftTiming does
+  return minutesOf(time) < minutesOf(adhan)
+    ? adhan
+    : adhan.replace(/^\s*\d{1,2}:\d{2}/, time);
+}
+
+const DAILY_PRAYERS: (keyof PrayerTimings)[] = [
+  'Fajr',
+  'Shurooq',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+];
+
+/**
+ * Adhan and iqamah of each prayer; on Fridays the Jumu'ah rule replaces Dhuhr's,
+ * which still applies when the mosque has no Jumu'ah rule.
+ */
+export function buildMosqueSchedule(
+  days: DailyPrayerTimes[],
+  rules: IqamahRule[],
+): MosqueScheduleDay[] {
+  return days.map((row) => {
+    const date = fromAladhanDate(row.date);
+    const friday = new Date(`${date}T00:00:00Z`).getUTCDay() === 5;
+    const prayers: ScheduledPrayer[] = [];
+    for (const name of DAILY_PRAYERS) {
+      const adhan = row.timings[name];
+      if (!adhan) {
+        continue;
+      }
+      if (name === 'Shurooq') {
+        prayers.push({ prayer: name, adhan, iqamah: null });
+        continue;
+      }
+      const prayer: IqamahPrayer = friday && name === 'Dhuhr' ? 'Jumuah' : name;
+      const rule =
+        findIqamahRule(rules, prayer, date) ??
+        (prayer === 'Jumuah' ? findIqamahRule(rules, 'Dhuhr', date) : null);
+      prayers.push({
+        prayer,
+        adhan,
+        iqamah:
+          rule && !adhan.startsWith('--') ? iqamahTime(rule, adhan) : null,
+      });
+    }
+    return { date, prayers };
+  });
+}
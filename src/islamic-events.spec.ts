@@ -0,0 +1,67 @@
+import { HijriMonthStart } from './hijri';
+import { findIslamicEvents, imsakiyaDay } from './islamic-events';
+import { PrayerTimings } from './prayer-calculator';
+
+describe('islamic-events', () => {
+  const months: HijriMonthStart[] = [
+    { year: 1447, month: 9, firstDay: '2026-02-18' },
+    { year: 1447, month: 10, firstDay: '2026-03-20' },
+    { year: 1447, month: 11, firstDay: '2026-04-18' },
+    { year: 1447, month: 12, firstDay: '2026-05-18' },
+  ];
+
+  it('lists the events of a Gregorian year', () => {
+    expect(findIslamicEvents(2026, months)).toEqual([
+      {
+        key: 'ramadan_start',
+        name: 'Ramadan start',
+        date: '2026-02-18',
+        hijri: '1447-09-01',
+      },
+      {
+        key: 'ramadan_end',
+        name: 'Ramadan end',
+        date: '2026-03-19',
+        hijri: '1447-09-30',
+      },
+      {
+        key: 'eid_al_fitr',
+        name: 'Eid al-Fitr',
+        date: '2026-03-20',
+        hijri: '1447-10-01',
+      },
+      {
+        key: 'day_of_arafah',
+        name: 'Day of Arafah',
+        date: '2026-05-26',
+        hijri: '1447-12-09',
+      },
+      {
+        key: 'eid_al_adha',
+        name: 'Eid al-Adha',
+        date: '2026-05-27',
+        hijri: '1447-12-10',
+      },
+    ]);
+  });
+
+  it('leaves out the end of Ramadan until Chawwal is known', () => {
+    const keys = findIslamicEvents(2026, months.slice(0, 1)).map((e) => e.key);
+    expect(keys).toEqual(['ramadan_start']);
+  });
+
+  it('ends Suhoor before Fajr', () => {
+    const timings = {
+      Fajr: '05:26 (+01)',
+      Maghrib: '18:41 (+01)',
+    } as PrayerTimings;
+    expect(imsakiyaDay(months[0], 3, '2026-02-20', timings, 10)).toEqual({
+      day: 3,
+      date: '2026-02-20',
+      hijri: '1447-09-03',
+      suhoorEnd: '05:16 (+01)',
+      fajr: '05:26 (+01)',
+      iftar: '18:41 (+01)',
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { addDays } from './date-range';
+import { formatHijri, HijriMonthStart, monthLength } from './hijri';
+import { PrayerTimings } from './prayer-calculator';
+import { shiftTiming } from './prayer-settings';
+
+/**
+ * Yearly Islamic events on their Hijri dates, and the Ramadan imsakiya
+ * (the daily Suhoor and Iftar timetable).
+ */
+
+export type IslamicEventKey =
+  | 'islamic_new_year'
+  | 'ashura'
+  | 'mawlid'
+  | 'ramadan_start'
+  | 'ramadan_end'
+  | 'eid_al_fitr'
+  | 'day_of_arafah'
+  | 'eid_al_adha';
+
+interface IslamicEventDefinition {
+  key: IslamicEventKey;
+  name: string;
+  month: number;
+  day: number | 'last'; // 'last' needs the start of the following month
+}
+
+export const ISLAMIC_EVENTS: IslamicEventDefinition[] = [
+  { key: 'islamic_new_year', name: 'Islamic New Year', month: 1, day: 1 },
+  { key: 'ashura', name: 'Ashura', month: 1, day: 10 },
+  { key: 'mawlid', name: 'Mawlid', month: 3, day: 12 },
+  { key: 'ramadan_start', name: 'Ramadan start', month: 9, day: 1 },
+  { key: 'ramadan_end', name: 'Ramadan end', month: 9, day: 'last' },
+  { key: 'eid_al_fitr', name: 'Eid al-Fitr', month: 10, day: 1 },
+  { key: 'day_of_arafah', name: 'Day of Arafah', month: 12, day: 9 },
+  { key: 'eid_al_adha', name: 'Eid al-Adha', month: 12, day: 10 },
+];
+
+export interface IslamicEvent {
+  key: IslamicEventKey;
+  name: string;
+  date: string; // Gregorian, YYYY-MM-DD
+  hijri: string; // YYYY-MM-DD
+}
+
+/**
+ * Default minutes between the end of Suhoor (imsak) and Fajr.
+ */
+export const DEFAULT_IMSAK_MINUTES = 10;
+
+export interface ImsakiyaDay {
+  day: number; // day of Ramadan
+  date: string; // Gregorian, YYYY-MM-DD
+  hijri: string;
+  suhoorEnd: string; // Fajr minus the imsak offset
+  fajr: string;
+  iftar: string; // Maghrib
+}
+
+/**
+ * The events falling in a Gregorian year; a Hijri year is 11 days shorter,
+ * so an event may occur twice or be missing.
+ * Events on days outside the known months are left out.
+ * @param months Month starts sorted by first day.
+ */
+export function findIslamicEvents(
+  year: number,
+  months: HijriMonthStart[],
+): IslamicEvent[] {
+  const events: IslamicEvent[] = [];
+  for (const start of months) {
+    for (const event of ISLAMIC_EVENTS) {
+      if (event.month !== start.month) {
+        continue;
+      }
+      const day = event.day === 'last' ? monthLength(start, months) : event.day;
+      if (day === null) {
+        continue;
+      }
+      const date = addDays(start.firstDay, day - 1);
+      if (!date.startsWith(`${year}-`)) {
+        continue;
+      }
+      events.push({
+        key: event.key,
+        name: event.name,
+        date,
+        hijri: formatHijri({ year: start.year, month: start.month, day }),
+      });
+    }
+  }
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * @param day Day of Ramadan, from 1.
+ * @param date Gregorian day, YYYY-MM-DD.
+ */
+export function imsakiyaDay(
+  ramadan: HijriMonthStart,
+  day: number,
+  date: string,
+  timings: PrayerTimings,
+  imsakMinutes: number,
+): ImsakiyaDay {
+  return {
+    day,
+    date,
+    hijri: formatHijri({ year: ramadan.year, month: ramadan.month, day }),
+    suhoorEnd: shiftTiming(timings.Fajr, -imsakMinutes),
+    fajr: timings.Fajr,
+    iftar: timings.Maghrib,
+  };
+}
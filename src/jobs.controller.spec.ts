@@ -0,0 +1,54 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthenticatedRequest, Principal, Role } from './auth';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+import { JobsController } from './jobs.controller';
+
+describe('JobsController', () => {
+  const principal = (role: Role): Principal => ({
+    id: `key:${role}`,
+    name: role,
+    role,
+    mosqueId: null,
+    rateLimit: null,
+    credential: 'key',
+  });
+
+  let authenticate: jest.Mock<Promise<Principal | null>, []>;
+  let guard: AuthGuard;
+
+  beforeEach(() => {
+    authenticate = jest.fn<Promise<Principal | null>, []>();
+    guard = new AuthGuard(new Reflector(), {
+      authenticate,
+    } as unknown as AuthService);
+  });
+
+  const check = (route: keyof JobsController, caller: Principal | null) => {
+    authenticate.mockResolvedValue(caller);
+    const request = { headers: {} } as AuthenticatedRequest;
+    return guard.canActivate({
+      switchToHttp: () => ({ getRequest: () => request }),
+      getHandler: () => JobsController.prototype[route],
+      getClass: () => JobsController,
+    } as unknown as ExecutionContext);
+  };
+
+  it.each(['getPrecomputeStatus', 'runPrecompute'] as const)(
+    '%s is reserved to admins',
+    async (route) => {
+      await expect(check(route, null)).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      await expect(
+        check(route, principal('mosque_admin')),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(check(route, principal('admin'))).resolves.toBe(true);
+    },
+  );
+});
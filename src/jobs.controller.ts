@@ -0,0 +1,27 @@
+import { Controller, Get, HttpCode, Post } from '@nestjs/common';
+import { RequireRole } from './auth';
+import { PrecomputeService } from './precompute.service';
+
+@Controller('jobs')
+@RequireRole('admin')
+export class JobsController {
+  constructor(private readonly precomputeService: PrecomputeService) {}
+
+  /**
+   * Last run, failures and coverage gaps of the calendar pre-computation job.
+   */
+  @Get('precompute')
+  getPrecomputeStatus() {
+    return this.precomputeService.getStatus();
+  }
+
+  /**
+   * Starts a pre-computation run without waiting for it to finish.
+   */
+  @Post('precompute/run')
+  @HttpCode(202)
+  runPrecompute() {
+    void this.precomputeService.run().catch(() => undefined);
+    return this.precomputeService.getStatus();
+  }
+}
@@ -0,0 +1,43 @@
+import { ConsoleLogger, LogLevel } from '@nestjs/common';
+import { currentRequestId } from './request-context';
+
+const LOG_LEVELS: LogLevel[] = [
+  'fatal',
+  'error',
+  'warn',
+  'log',
+  'debug',
+  'verbose',
+];
+
+/**
+ * One JSON object per line, with the id of the request being served, for log collectors.
+ * `LOG_LEVEL` sets the most verbose level written (default `log`);
+ * `LOG_FORMAT=text` keeps Nest's coloured output for local development.
+ */
+export class JsonLogger extends ConsoleLogger {
+  constructor() {
+    const level = (process.env.LOG_LEVEL || 'log') as LogLevel;
+    const index = LOG_LEVELS.indexOf(level);
+    super({
+      json: process.env.LOG_FORMAT !== 'text',
+      logLevels: LOG_LEVELS.slice(0, (index < 0 ? 3 : index) + 1),
+    });
+  }
+
+  protected getJsonLogObject(
+    message: unknown,
+    options: {
+      context: string;
+      logLevel: LogLevel;
+      writeStreamType?: 'stdout' | 'stderr';
+      errorStack?: unknown;
+    },
+  ) {
+    const requestId = currentRequestId();
+    return {
+      ...super.getJsonLogObject(message, options),
+      ...(requestId && { requestId }),
+    };
+  }
+}
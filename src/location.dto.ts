@@ -0,0 +1,180 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ASR_SCHOOLS, HIGH_LATITUDE_RULES } from './prayer-calculator';
+import type { AsrSchool, HighLatitudeRule } from './prayer-calculator';
+import type { PrayerOffsets } from './prayer-settings';
+import { IsPrayerOffsets, IsTimezone } from './validation';
+
+/**
+ * Request bodies and list queries of the `/countries` and `/cities` endpoints.
+ */
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_NAME_LENGTH = 50; // matches the varchar(50) columns
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+export class PageQueryDto {
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit: number = DEFAULT_PAGE_SIZE;
+}
+
+export class CityListQueryDto extends PageQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  country_id?: number;
+}
+
+export class CreateCountryDto {
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  name!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  athan_school_id?: number; // 0 (the table default) means none
+}
+
+export class UpdateCountryDto {
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  athan_school_id?: number;
+}
+
+/**
+ * Latitude and longitude must be given together; LocationService checks the pair.
+ * The prayer profile (Asr school, high-latitude rule, offsets) applies to every school.
+ */
+export class CreateCityDto {
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  name!: string;
+
+  @IsInt()
+  @Min(1)
+  country_id!: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  athan_school_id?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number | null;
+
+  @IsOptional()
+  @IsTimezone()
+  timezone?: string | null;
+
+  @IsOptional()
+  @IsIn(ASR_SCHOOLS)
+  asr_school?: AsrSchool | null;
+
+  @IsOptional()
+  @IsIn(HIGH_LATITUDE_RULES)
+  high_latitude_rule?: HighLatitudeRule | null;
+
+  @IsOptional()
+  @IsPrayerOffsets()
+  prayer_offsets?: PrayerOffsets | null; // e.g. { "Maghrib": 5 }
+}
+
+/**
+ * Omitted fields keep their value; `null` clears the location fields.
+ */
+export class UpdateCityDto {
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  country_id?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  athan_school_id?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number | null;
+
+  @IsOptional()
+  @IsTimezone()
+  timezone?: string | null;
+
+  @IsOptional()
+  @IsIn(ASR_SCHOOLS)
+  asr_school?: AsrSchool | null;
+
+  @IsOptional()
+  @IsIn(HIGH_LATITUDE_RULES)
+  high_latitude_rule?: HighLatitudeRule | null;
+
+  @IsOptional()
+  @IsPrayerOffsets()
+  prayer_offsets?: PrayerOffsets | null; // e.g. { "Maghrib": 5 }
+}
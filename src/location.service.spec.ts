@@ -0,0 +1,162 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { rabat } from '../test/fixtures';
+import { CityRow, CountryRow, DbService } from './db.service';
+import { LocationService } from './location.service';
+
+describe('LocationService', () => {
+  const morocco: CountryRow = { id: 1, name: 'Morocco', athan_school_id: 21 };
+  const casablanca: CityRow = { ...rabat, id: 2, name: 'Casablanca' };
+
+  let db: jest.Mocked<
+    Pick<
+      DbService,
+      | 'findCountryById'
+      | 'findCountryByName'
+      | 'insertCountry'
+      | 'updateCountry'
+      | 'deleteCountry'
+      | 'findCityById'
+      | 'findCity'
+      | 'listCities'
+      | 'insertCity'
+      | 'updateCity'
+      | 'deleteCity'
+      | 'listMosques'
+      | 'deleteCalendarRowsForCity'
+    >
+  >;
+  let service: LocationService;
+
+  beforeEach(() => {
+    db = {
+      findCountryById: jest.fn((id: number) =>
+        Promise.resolve(id === morocco.id ? morocco : null),
+      ),
+      findCountryByName: jest.fn((name: string) =>
+        Promise.resolve(name === morocco.name ? morocco : null),
+      ),
+      insertCountry: jest.fn().mockResolvedValue(2),
+      updateCountry: jest.fn().mockResolvedValue(undefined),
+      deleteCountry: jest.fn().mockResolvedValue(undefined),
+      findCityById: jest.fn((id: number) =>
+        Promise.resolve([rabat, casablanca].find((c) => c.id === id) ?? null),
+      ),
+      findCity: jest.fn((name: string) =>
+        Promise.resolve(
+          [rabat, casablanca].find((c) => c.name === name) ?? null,
+        ),
+      ),
+      listCities: jest.fn().mockResolvedValue({ items: [], total: 0 }),
+      insertCity: jest.fn().mockResolvedValue(3),
+      updateCity: jest.fn().mockResolvedValue(undefined),
+      deleteCity: jest.fn().mockResolvedValue(undefined),
+      listMosques: jest.fn().mockResolvedValue({ items: [], total: 0 }),
+      deleteCalendarRowsForCity: jest.fn().mockResolvedValue(0),
+    };
+    service = new LocationService(db as unknown as DbService);
+  });
+
+  describe('countries', () => {
+    it('rejects duplicate names', async () => {
+      await expect(
+        service.createCountry({ name: 'Morocco' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      await expect(service.createCountry({ name: 'Tunisia' })).resolves.toEqual(
+        { id: 2, name: 'Tunisia', athan_school_id: 0 },
+      );
+    });
+
+    it('reports unknown ids', async () => {
+      await expect(
+        service.updateCountry(9, { name: 'Tunisia' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      await expect(service.deleteCountry(9)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+
+    it('keeps countries that still have cities', async () => {
+      db.listCities.mockResolvedValue({ items: [rabat], total: 1 });
+      await expect(service.deleteCountry(1)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(db.deleteCountry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cities', () => {
+    it('creates a city of an existing country', async () => {
+      await expect(
+        service.createCity({
+          name: 'Fes',
+          country_id: 1,
+          latitude: 34.0331,
+          longitude: -5.0003,
+          timezone: 'Africa/Casablanca',
+        }),
+      ).resolves.toMatchObject({
+        id: 3,
+        name: 'Fes',
+        country_name: 'Morocco',
+        timezone: 'Africa/Casablanca',
+      });
+      await expect(
+        service.createCity({ name: 'Fes', country_id: 9 }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('rejects duplicate names within a country', async () => {
+      await expect(
+        service.createCity({ name: 'Rabat', country_id: 1 }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      await expect(
+        service.updateCity(2, { name: 'Rabat' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      // Keeping its own name is not a conflict
+      await expect(
+        service.updateCity(1, { name: 'Rabat' }),
+      ).resolves.toMatchObject({ id: 1 });
+      expect(db.insertCity).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown time zones', async () => {
+      await expect(
+        service.createCity({
+          name: 'Fes',
+          country_id: 1,
+          timezone: 'Africa/Fes',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.updateCity(1, { timezone: 'Mars/Olympus' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(db.insertCity).not.toHaveBeenCalled();
+      expect(db.updateCity).not.toHaveBeenCalled();
+    });
+
+    it('reports unknown ids', async () => {
+      await expect(
+        service.updateCity(9, { name: 'Sale' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      await expect(service.deleteCity(9)).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      expect(db.deleteCity).not.toHaveBeenCalled();
+    });
+
+    it('deletes cities without mosques', async () => {
+      await service.deleteCity(2);
+      expect(db.deleteCity).toHaveBeenCalledWith(2);
+
+      // Only the count is used
+      db.listMosques.mockResolvedValue({ items: [], total: 1 });
+      await expect(service.deleteCity(1)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CityRow, CountryRow, DbService } from './db.service';
+import { guessTimezone } from './gazetteer';
+import { isValidTimezone } from './prayer-calculator';
+import {
+  CityListQueryDto,
+  CreateCityDto,
+  CreateCountryDto,
+  PageQueryDto,
+  UpdateCityDto,
+  UpdateCountryDto,
+} from './location.dto';
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Manages the `country` and `city` tables: referential checks, pagination and search.
+ * Field formats are validated by the DTOs in location.dto.ts.
+ */
+@Injectable()
+export class LocationService {
+  private readonly logger = new Logger(LocationService.name);
+
+  constructor(private readonly dbService: DbService) {}
+
+  async listCountries(query: PageQueryDto): Promise<Paginated<CountryRow>> {
+    const { page, limit } = query;
+    const result = await this.dbService.listCountries(
+      query.search,
+      limit,
+      (page - 1) * limit,
+    );
+    return { ...result, page, limit };
+  }
+
+  async getCountry(id: number): Promise<CountryRow> {
+    const country = await this.dbService.findCountryById(id);
+    if (!country) {
+      throw new NotFoundException(`Country ${id} not found`);
+    }
+    return country;
+  }
+
+  async createCountry(body: CreateCountryDto): Promise<CountryRow> {
+    const country = {
+      name: body.name,
+      athan_school_id: await this.checkSchoolId(body.athan_school_id),
+    };
+    if (await this.dbService.findCountryByName(country.name)) {
+      throw new ConflictException(`Country "${country.name}" already exists`);
+    }
+
+    const id = await this.dbService.insertCountry(country);
+    this.logger.log(`Registered country ${id} "${country.name}".`);
+    return { id, ...country };
+  }
+
+  async updateCountry(id: number, body: UpdateCountryDto): Promise<CountryRow> {
+    const current = await this.getCountry(id);
+    const country: CountryRow = {
+      id,
+      name: body.name ?? current.name,
+      athan_school_id:
+        body.athan_school_id === undefined
+          ? current.athan_school_id
+          : await this.checkSchoolId(body.athan_school_id),
+    };
+    const existing = await this.dbService.findCountryByName(country.name);
+    if (existing && existing.id !== id) {
+      throw new ConflictException(`Country "${country.name}" already exists`);
+    }
+
+    await this.dbService.updateCountry(country);
+    return country;
+  }
+
+  async deleteCountry(id: number): Promise<void> {
+    await this.getCountry(id);
+    const cities = await this.dbService.listCities(undefined, id, 1, 0);
+    if (cities.total > 0) {
+      throw new ConflictException(
+        `Country ${id} still has ${cities.total} city(ies)`,
+      );
+    }
+    await this.dbService.deleteCountry(id);
+  }
+
+  async listCities(query: CityListQueryDto): Promise<Paginated<CityRow>> {
+    const { page, limit } = query;
+    const result = await this.dbService.listCities(
+      query.search,
+      query.country_id,
+      limit,
+      (page - 1) * limit,
+    );
+    return { ...result, page, limit };
+  }
+
+  async getCity(id: number): Promise<CityRow> {
+    const city = await this.dbService.findCityById(id);
+    if (!city) {
+      throw new NotFoundException(`City ${id} not found`);
+    }
+    return city;
+  }
+
+  async createCity(body: CreateCityDto): Promise<CityRow> {
+    const country = await this.findCountryForCity(body.country_id);
+    const location = checkLocation(body);
+    const city: Omit<CityRow, 'id'> = {
+      name: body.name,
+      country_id: country.id,
+      country_name: country.name,
+      athan_school_id: await this.checkSchoolId(body.athan_school_id),
+      ...location,
+      // Timings are only given with the right offset when the zone is known
+      timezone:
+        location.timezone ?? guessTimezone(body.name, country.name, location),
+      asr_school: body.asr_school ?? null,
+      high_latitude_rule: body.high_latitude_rule ?? null,
+      prayer_offsets: body.prayer_offsets ?? null,
+    };
+    await this.assertCityIsUnique(city);
+
+    const id = await this.dbService.insertCity(city);
+    this.logger.log(
+      `Registered city ${id} "${city.name}, ${city.country_name}".`,
+    );
+    return { id, ...city };
+  }
+
+  async updateCity(id: number, body: UpdateCityDto): Promise<CityRow> {
+    const current = await this.getCity(id);
+    const country =
+      body.country_id === undefined
+        ? { id: current.country_id, name: current.country_name }
+        : await this.findCountryForCity(body.country_id);
+    const city: CityRow = {
+      id,
+      name: body.name ?? current.name,
+      country_id: country.id,
+      country_name: country.name,
+      athan_school_id:
+        body.athan_school_id === undefined
+          ? current.athan_school_id
+          : await this.checkSchoolId(body.athan_school_id),
+      ...checkLocation({
+        latitude:
+          body.latitude === undefined ? current.latitude : body.latitude,
+        longitude:
+          body.longitude === undefined ? current.longitude : body.longitude,
+        timezone:
+          body.timezone === undefined ? current.timezone : body.timezone,
+      }),
+      asr_school:
+        body.asr_school === undefined ? current.asr_school : body.asr_school,
+      high_latitude_rule:
+        body.high_latitude_rule === undefined
+          ? current.high_latitude_rule
+          : body.high_latitude_rule,
+      prayer_offsets:
+        body.prayer_offsets === undefined
+          ? current.prayer_offsets
+          : body.prayer_offsets,
+    };
+    await this.assertCityIsUnique(city);
+
+    await this.dbService.updateCity(city);
+    if (
+      (current.asr_school ?? 'shafi') !== (city.asr_school ?? 'shafi') ||
+      (current.high_latitude_rule ?? 'none') !==
+        (city.high_latitude_rule ?? 'none')
+    ) {
+      // Stored days were computed with the previous settings; offsets are applied on read
+      const deleted = await this.dbService.deleteCalendarRowsForCity(id);
+      this.logger.log(
+        `Prayer settings of city ${id} changed; dropped ${deleted} stored day(s).`,
+      );
+    }
+    return city;
+  }
+
+  async deleteCity(id: number): Promise<void> {
+    await this.getCity(id);
+    const mosques = await this.dbService.listMosques(undefined, id, 1, 0);
+    if (mosques.total > 0) {
+      throw new ConflictException(
+        `City ${id} still has ${mosques.total} mosque(s)`,
+      );
+    }
+    await this.dbService.deleteCity(id);
+  }
+
+  /**
+   * Registers a city (and its country, when unknown) on first use,
+   * e.g. from `POST /prayer/execute-strategy?register=true`.
+   * Returns the existing city when it is already registered.
+   */
+  async registerCity(
+    name: string,
+    countryName: string,
+    location: { latitude?: number; longitude?: number; timezone?: string } = {},
+  ): Promise<CityRow> {
+    const existing = await this.dbService.findCity(name, countryName);
+    if (existing) {
+      return existing;
+    }
+
+    const country =
+      (await this.dbService.findCountryByName(countryName)) ??
+      (await this.createCountry({ name: countryName }));
+    return this.createCity({ ...location, name, country_id: country.id });
+  }
+
+  private async findCountryForCity(countryId: number): Promise<CountryRow> {
+    const country = await this.dbService.findCountryById(countryId);
+    if (!country) {
+      throw new BadRequestException(`Country ${countryId} does not exist`);
+    }
+    return country;
+  }
+
+  private async assertCityIsUnique(
+    city: Omit<CityRow, 'id'> & { id?: number },
+  ) {
+    const existing = await this.dbService.findCity(
+      city.name,
+      city.country_name,
+    );
+    if (existing && existing.id !== city.id) {
+      throw new ConflictException(
+        `City "${city.name}, ${city.country_name}" already exists`,
+      );
+    }
+  }
+
+  /**
+   * Checks that an optional school reference exists; 0 (the table default) means none.
+   */
+  private async checkSchoolId(id?: number): Promise<number> {
+    if (!id) {
+      return 0;
+    }
+    if (!(await this.dbService.findSchoolById(id))) {
+      throw new BadRequestException(`athan_school ${id} does not exist`);
+    }
+    return id;
+  }
+}
+
+/**
+ * Checks that latitude and longitude are given together, and the time zone, which
+ * registerCity takes without a DTO.
+ */
+function checkLocation(location: {
+  latitude?: number | null;
+  longitude?: number | null;
+  timezone?: string | null;
+}): {
+  latitude: number | null;
+  longitude: number | null;
+  timezone: string | null;
+} {
+  const latitude = location.latitude ?? null;
+  const longitude = location.longitude ?? null;
+  if ((latitude === null) !== (longitude === null)) {
+    throw new BadRequestException(
+      'latitude and longitude must be provided together',
+    );
+  }
+  const timezone = location.timezone ?? null;
+  if (timezone !== null && !isValidTimezone(timezone)) {
+    throw new BadRequestException(`Unknown time zone "${timezone}"`);
+  }
+  return { latitude, longitude, timezone };
+}
@@ -0,0 +1,125 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { AthanSchoolRow, DbService } from './db.service';
+import {
+  ComparedPrayer,
+  comparePrayerTimes,
+  PrayerComparison,
+  SchoolTimings,
+} from './method-comparison';
+import { PrayerCacheService } from './prayer-cache.service';
+import { runWithConcurrency } from './retry';
+
+/**
+ * Schools fetched at once, to stay polite with Aladhan on a cold cache.
+ */
+const COMPARE_CONCURRENCY = 4;
+
+export interface ComparisonRequest {
+  city: string;
+  country: string;
+  day: string; // YYYY-MM-DD
+  schools?: string[]; // athan_school names; every school when omitted
+  reference: AthanSchoolRow; // usually the city default
+  timeZone: string | null;
+}
+
+export interface ComparedSchool extends SchoolTimings {
+  provider: string | null;
+}
+
+export interface ComparisonFailure {
+  school: string;
+  error: string;
+}
+
+export interface MethodComparison {
+  date: string;
+  defaultSchool: string;
+  schools: ComparedSchool[];
+  failures: ComparisonFailure[]; // schools left out of the matrix
+  prayers: Partial<Record<ComparedPrayer, PrayerComparison>>;
+}
+
+/**
+ * Runs several schools through their strategies for the same day and city.
+ * Times go through PrayerCacheService, so stored days are reused and fetched ones kept.
+ */
+@Injectable()
+export class MethodComparisonService {
+  private readonly logger = new Logger(MethodComparisonService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly prayerCacheService: PrayerCacheService,
+  ) {}
+
+  /**
+   * A school that fails is reported in `failures` instead of failing the whole comparison.
+   * @throws BadRequestException for an unknown school name.
+   */
+  async compare(request: ComparisonRequest): Promise<MethodComparison> {
+    const schools = await this.selectSchools(request.schools);
+    const compared = new Map<string, ComparedSchool>();
+    const failures: ComparisonFailure[] = [];
+
+    await runWithConcurrency(schools, COMPARE_CONCURRENCY, async (school) => {
+      try {
+        const [row] = await this.prayerCacheService.getPrayerTimes(
+          school.startegy_name,
+          {
+            city: request.city,
+            country: request.country,
+            from: request.day,
+            duration: 1,
+          },
+        );
+        if (!row) {
+          throw new Error(`No prayer times for ${request.day}`);
+        }
+        compared.set(school.name, {
+          school: school.name,
+          provider: row.provider,
+          timings: row.timings,
+        });
+      } catch (error) {
+        const message = (error as Error).message;
+        this.logger.warn(`Comparison skipped ${school.name}: ${message}`);
+        failures.push({ school: school.name, error: message });
+      }
+    });
+
+    // Keep the order of the schools, whatever order the fetches finished in
+    const results = schools
+      .filter((school) => compared.has(school.name))
+      .map((school) => compared.get(school.name)!);
+    return {
+      date: request.day,
+      defaultSchool: request.reference.name,
+      schools: results,
+      failures,
+      prayers: comparePrayerTimes(
+        request.day,
+        results,
+        request.reference.name,
+        request.timeZone,
+      ),
+    };
+  }
+
+  private async selectSchools(names?: string[]): Promise<AthanSchoolRow[]> {
+    const all = await this.dbService.findAllSchools();
+    if (!names) {
+      return all;
+    }
+    const unknown = names.filter(
+      (name) =>
+        !all.some((school) => school.name.toLowerCase() === name.toLowerCase()),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(`Unknown school(s): ${unknown.join(', ')}`);
+    }
+    return all.filter((school) =>
+      names.some((name) => school.name.toLowerCase() === name.toLowerCase()),
+    );
+  }
+}
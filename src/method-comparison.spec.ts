@@ -0,0 +1,49 @@
+import { comparePrayerTimes } from './method-comparison';
+import { PrayerTimings } from './prayer-calculator';
+
+describe('comparePrayerTimes', () => {
+  const timings = (fajr: string, isha: string): PrayerTimings => ({
+    Fajr: fajr,
+    Shurooq: '07:46 (+01)',
+    Dhuhr: '13:40 (+01)',
+    Asr: '16:57 (+01)',
+    Maghrib: '19:27 (+01)',
+    Isha: isha,
+  });
+
+  it('should report the spread and deviations from the reference school', () => {
+    const result = comparePrayerTimes(
+      '2025-03-01',
+      [
+        { school: 'MOROCCO', timings: timings('06:21 (+01)', '20:43 (+01)') },
+        { school: 'EGYPT', timings: timings('06:14 (+01)', '20:36 (+01)') },
+        { school: 'MAKKAH', timings: timings('06:26 (+01)', '21:07 (+01)') },
+      ],
+      'MOROCCO',
+    );
+
+    expect(result.Fajr).toEqual({
+      times: { MOROCCO: '06:21', EGYPT: '06:14', MAKKAH: '06:26' },
+      earliest: { school: 'EGYPT', time: '06:14' },
+      latest: { school: 'MAKKAH', time: '06:26' },
+      spreadMinutes: 12,
+      deviationMinutes: { MOROCCO: 0, EGYPT: -7, MAKKAH: 5 },
+    });
+    expect(result.Isha?.spreadMinutes).toBe(31);
+    expect(result.Dhuhr?.spreadMinutes).toBe(0);
+  });
+
+  it('should skip missing times and omit deviations without the reference', () => {
+    const result = comparePrayerTimes(
+      '2025-06-21',
+      [
+        { school: 'MWL', timings: timings('--:--', '--:--') },
+        { school: 'ISNA', timings: timings('02:51 (+01)', '23:58 (+01)') },
+      ],
+      'RUSSIA',
+    );
+
+    expect(result.Fajr?.times).toEqual({ ISNA: '02:51' });
+    expect(result.Fajr?.deviationMinutes).toBeNull();
+  });
+});
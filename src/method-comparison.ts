@@ -0,0 +1,94 @@
+import { PrayerTimings } from './prayer-calculator';
+import { parseTiming, timingToDate } from './timing';
+
+/**
+ * Side-by-side comparison of the times different schools give for one day and place,
+ * e.g. to explain why two apps disagree on Fajr.
+ */
+
+export type ComparedPrayer = keyof PrayerTimings;
+
+export interface SchoolTimings {
+  school: string; // athan_school name
+  timings: PrayerTimings;
+}
+
+export interface SchoolTime {
+  school: string;
+  time: string; // local "HH:mm"
+}
+
+export interface PrayerComparison {
+  times: Record<string, string>; // local "HH:mm" by school
+  earliest: SchoolTime;
+  latest: SchoolTime;
+  spreadMinutes: number;
+  deviationMinutes: Record<string, number> | null; // signed, null without the reference school
+}
+
+const PRAYERS: ComparedPrayer[] = [
+  'Fajr',
+  'Shurooq',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * @param day The compared day, "YYYY-MM-DD".
+ * @param reference The school deviations are measured from, usually the city default.
+ * @param timeZone IANA zone of the location, for timings without an offset suffix.
+ * @returns One entry per prayer; prayers no school could give (e.g. "--:--" at high latitudes) are left out.
+ */
+export function comparePrayerTimes(
+  day: string,
+  entries: SchoolTimings[],
+  reference: string,
+  timeZone?: string | null,
+): Partial<Record<ComparedPrayer, PrayerComparison>> {
+  const result: Partial<Record<ComparedPrayer, PrayerComparison>> = {};
+
+  for (const prayer of PRAYERS) {
+    const instants: { school: string; time: string; at: number }[] = [];
+    for (const { school, timings } of entries) {
+      const value = timings[prayer];
+      if (!value || value.startsWith('--')) {
+        continue;
+      }
+      const { hour, minute } = parseTiming(value);
+      instants.push({
+        school,
+        time: `${pad(hour)}:${pad(minute)}`,
+        at: timingToDate(day, value, timeZone).getTime(),
+      });
+    }
+    if (instants.length === 0) {
+      continue;
+    }
+
+    const sorted = [...instants].sort((a, b) => a.at - b.at);
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const base = instants.find((entry) => entry.school === reference);
+    result[prayer] = {
+      times: Object.fromEntries(
+        instants.map(({ school, time }) => [school, time]),
+      ),
+      earliest: { school: first.school, time: first.time },
+      latest: { school: last.school, time: last.time },
+      spreadMinutes: Math.round((last.at - first.at) / 60000),
+      deviationMinutes: base
+        ? Object.fromEntries(
+            instants.map(({ school, at }) => [
+              school,
+              Math.round((at - base.at) / 60000),
+            ]),
+          )
+        : null,
+    };
+  }
+  return result;
+}
@@ -0,0 +1,95 @@
+import { Injectable } from '@nestjs/common';
+import { Counter, Gauge, Histogram, renderMetrics } from './metrics';
+
+/**
+ * The application's metrics, served by `GET /metrics`.
+ * Error rates and the cache hit ratio are derived in PromQL, e.g.
+ * `rate(athan_upstream_requests_total{outcome="error"}[5m]) / rate(athan_upstream_requests_total[5m])`.
+ */
+@Injectable()
+export class MetricsService {
+  readonly httpRequestDuration = new Histogram(
+    'athan_http_request_duration_seconds',
+    'Duration of HTTP requests by method, route and status.',
+  );
+
+  readonly upstreamRequests = new Counter(
+    'athan_upstream_requests_total',
+    'Prayer time provider calls by strategy, provider and outcome (success or error).',
+  );
+
+  readonly upstreamRequestDuration = new Histogram(
+    'athan_upstream_request_duration_seconds',
+    'Duration of prayer time provider calls by strategy and provider.',
+  );
+
+  readonly calendarCacheDays = new Counter(
+    'athan_calendar_cache_days_total',
+    'Days requested from the athan_calendar cache by result (hit or miss).',
+  );
+
+  readonly jobOutcomes = new Counter(
+    'athan_job_outcomes_total',
+    'Outcomes of background work by job: pre-computed city/school pairs and webhook deliveries.',
+  );
+
+  readonly jobLastRun = new Gauge(
+    'athan_job_last_run_timestamp_seconds',
+    'Unix time at which each job last finished a run.',
+  );
+
+  private readonly startedAt = Date.now();
+
+  /**
+   * Calls a prayer time provider, recording its duration and whether it failed.
+   */
+  async timeUpstream<T>(
+    strategy: string,
+    provider: string,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    const labels = { strategy, provider };
+    const start = process.hrtime.bigint();
+    let outcome = 'error';
+    try {
+      const result = await call();
+      outcome = 'success';
+      return result;
+    } finally {
+      this.upstreamRequests.inc({ ...labels, outcome });
+      this.upstreamRequestDuration.observe(
+        labels,
+        Number(process.hrtime.bigint() - start) / 1e9,
+      );
+    }
+  }
+
+  /**
+   * Records the end of a job run with the number of items of each outcome.
+   */
+  recordJobRun(job: string, outcomes: Record<string, number>): void {
+    for (const [outcome, count] of Object.entries(outcomes)) {
+      if (count > 0) {
+        this.jobOutcomes.inc({ job, outcome }, count);
+      }
+    }
+    this.jobLastRun.set({ job }, Date.now() / 1000);
+  }
+
+  render(): string {
+    const uptime = new Gauge(
+      'athan_process_uptime_seconds',
+      'Seconds since the application started.',
+    );
+    uptime.set({}, (Date.now() - this.startedAt) / 1000);
+    return renderMetrics([
+      this.httpRequestDuration,
+      this.upstreamRequests,
+      this.upstreamRequestDuration,
+      this.calendarCacheDays,
+      this.jobOutcomes,
+      this.jobLastRun,
+      uptime,
+    ]);
+  }
+}
@@ -0,0 +1,65 @@
+import { Counter, Histogram, renderMetrics } from './metrics';
+import { MetricsService } from './metrics.service';
+
+describe('metrics', () => {
+  it('renders counters per label set', () => {
+    const counter = new Counter('athan_test_total', 'Test counter.');
+    counter.inc({ outcome: 'success', provider: 'aladhan' });
+    counter.inc({ provider: 'aladhan', outcome: 'success' }, 2);
+    counter.inc({ provider: 'local', outcome: 'error' });
+
+    expect(renderMetrics([counter]).split('\n')).toEqual([
+      '# HELP athan_test_total Test counter.',
+      '# TYPE athan_test_total counter',
+      'athan_test_total{outcome="success",provider="aladhan"} 3',
+      'athan_test_total{outcome="error",provider="local"} 1',
+      '',
+    ]);
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const histogram = new Histogram('athan_test_seconds', 'Test.', [0.1, 1]);
+    histogram.observe({ route: '/prayer' }, 0.05);
+    histogram.observe({ route: '/prayer' }, 0.5);
+    histogram.observe({ route: '/prayer' }, 3);
+
+    expect(histogram.render().slice(2)).toEqual([
+      'athan_test_seconds_bucket{route="/prayer",le="0.1"} 1',
+      'athan_test_seconds_bucket{route="/prayer",le="1"} 2',
+      'athan_test_seconds_bucket{route="/prayer",le="+Inf"} 3',
+      'athan_test_seconds_sum{route="/prayer"} 3.55',
+      'athan_test_seconds_count{route="/prayer"} 3',
+    ]);
+  });
+
+  it('escapes label values', () => {
+    const counter = new Counter('athan_test_total', 'Test counter.');
+    counter.inc({ strategy: 'a"b\\c' });
+    expect(counter.render()[2]).toBe(
+      'athan_test_total{strategy="a\\"b\\\\c"} 1',
+    );
+  });
+
+  it('counts upstream calls by outcome, rethrowing failures', async () => {
+    const metrics = new MetricsService();
+    await metrics.timeUpstream('athan-api-2', 'aladhan', () =>
+      Promise.resolve([]),
+    );
+    await expect(
+      metrics.timeUpstream('athan-api-2', 'aladhan', () =>
+        Promise.reject(new Error('timeout')),
+      ),
+    ).rejects.toThrow('timeout');
+
+    const labels = { strategy: 'athan-api-2', provider: 'aladhan' };
+    expect(
+      metrics.upstreamRequests.get({ ...labels, outcome: 'success' }),
+    ).toBe(1);
+    expect(metrics.upstreamRequests.get({ ...labels, outcome: 'error' })).toBe(
+      1,
+    );
+    expect(metrics.render()).toContain(
+      'athan_upstream_request_duration_seconds_count{provider="aladhan",strategy="athan-api-2"} 2',
+    );
+  });
+});
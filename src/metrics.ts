@@ -0,0 +1,137 @@
+/**
+ * Counters and histograms rendered in the Prometheus text exposition format.
+ * Label values must stay few (routes, strategies, outcomes): every combination is kept.
+ */
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabel(labels[name])}"`)
+    .join(',');
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/"/g, '\\"');
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ''} ${value}`;
+}
+
+export class Counter implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => series(this.name, key, value)),
+    ];
+  }
+}
+
+export class Gauge implements Metric {
+  private readonly values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+  ) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...[...this.values].map(([key, value]) => series(this.name, key, value)),
+    ];
+  }
+}
+
+// Seconds, from a local calculation to a slow upstream month
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export class Histogram implements Metric {
+  private readonly values = new Map<
+    string,
+    { buckets: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    private readonly help: string,
+    private readonly buckets = DEFAULT_BUCKETS,
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.buckets[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const [key, entry] of this.values) {
+      const prefix = key ? `${key},` : '';
+      this.buckets.forEach((bound, i) =>
+        lines.push(
+          `${this.name}_bucket{${prefix}le="${bound}"} ${entry.buckets[i]}`,
+        ),
+      );
+      lines.push(
+        `${this.name}_bucket{${prefix}le="+Inf"} ${entry.count}`,
+        series(`${this.name}_sum`, key, entry.sum),
+        series(`${this.name}_count`, key, entry.count),
+      );
+    }
+    return lines;
+  }
+}
+
+/**
+ * The exposition of several metrics, served as `text/plain; version=0.0.4`.
+ */
+export function renderMetrics(metrics: Metric[]): string {
+  return `${metrics.flatMap((metric) => metric.render()).join('\n')}\n`;
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { DbService } from './db.service';
+import { MigrationService } from './migration.service';
+
+@Module({
+  providers: [DbService, MigrationService],
+})
+class MigrationModule {}
+
+/**
+ * Migration runner: `npm run migrate` applies pending migrations,
+ * `npm run migrate -- --status` lists them without applying anything.
+ */
+async function run() {
+  const app = await NestFactory.createApplicationContext(MigrationModule);
+  try {
+    const migrations = app.get(MigrationService);
+    if (process.argv.includes('--status')) {
+      for (const m of await migrations.status()) {
+        console.log(
+          `${String(m.version).padStart(3, '0')} ${m.name.padEnd(30)} ${m.applied_at ?? 'pending'}`,
+        );
+      }
+    } else {
+      const applied = await migrations.migrate();
+      console.log(`Applied ${applied.length} migration(s).`);
+    }
+  } finally {
+    await app.close();
+  }
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+import * as mysql from 'mysql2/promise';
+import { DbService } from './db.service';
+import { MigrationService } from './migration.service';
+import { MIGRATIONS } from './migrations';
+
+describe('MigrationService', () => {
+  const latest = MIGRATIONS[MIGRATIONS.length - 1];
+  const previous = MIGRATIONS[MIGRATIONS.length - 2];
+  let calls: string[];
+  let connection: Record<
+    'query' | 'execute' | 'beginTransaction' | 'commit' | 'rollback',
+    jest.Mock
+  >;
+  let service: MigrationService;
+
+  // Every migration but the last two is already applied
+  const appliedRows = MIGRATIONS.slice(0, -2).map(({ version }) => ({
+    version,
+    applied_at: '2026-10-01 12:00:00',
+  }));
+
+  beforeEach(() => {
+    calls = [];
+    const record = (name: string) => () => {
+      calls.push(name);
+      return Promise.resolve();
+    };
+    connection = {
+      query: jest.fn((sql: string) =>
+        Promise.resolve([sql.startsWith('SELECT') ? appliedRows : []]),
+      ),
+      execute: jest.fn((_sql: string, values: [number, string]) => {
+        calls.push(`record ${values[0]}`);
+        return Promise.resolve([{ affectedRows: 1 }]);
+      }),
+      beginTransaction: jest.fn(record('begin')),
+      commit: jest.fn(record('commit')),
+      rollback: jest.fn(record('rollback')),
+    };
+    const db = {
+      withConnection: (
+        callback: (connection: mysql.PoolConnection) => Promise<unknown>,
+      ) => callback(connection as unknown as mysql.PoolConnection),
+    };
+    service = new MigrationService(db as unknown as DbService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('applies only the pending migrations, each in a transaction', async () => {
+    const ups = MIGRATIONS.map((migration) =>
+      jest.spyOn(migration, 'up').mockImplementation(() => {
+        calls.push(`up ${migration.version}`);
+        return Promise.resolve();
+      }),
+    );
+
+    await expect(service.migrate()).resolves.toEqual([previous, latest]);
+    expect(ups.filter((up) => up.mock.calls.length > 0)).toHaveLength(2);
+    expect(calls).toEqual([
+      'begin',
+      `up ${previous.version}`,
+      `record ${previous.version}`,
+      'commit',
+      'begin',
+      `up ${latest.version}`,
+      `record ${latest.version}`,
+      'commit',
+    ]);
+  });
+
+  it('rolls back a failed migration and stops there', async () => {
+    jest.spyOn(previous, 'up').mockRejectedValue(new Error('duplicate column'));
+    const up = jest.spyOn(latest, 'up').mockResolvedValue();
+
+    await expect(service.migrate()).rejects.toThrow('duplicate column');
+    expect(calls).toEqual(['begin', 'rollback']);
+    expect(connection.commit).not.toHaveBeenCalled();
+    expect(up).not.toHaveBeenCalled();
+  });
+});
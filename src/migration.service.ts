@@ -0,0 +1,98 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import * as mysql from 'mysql2/promise';
+import { DbService } from './db.service';
+import { Migration, MIGRATIONS } from './migrations';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+/**
+ * Applies the versioned schema changes in `src/migrations`, recording each in `schema_migrations`.
+ * Runs from `npm run migrate`, or on startup when DB_MIGRATE_ON_START=true.
+ */
+@Injectable()
+export class MigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MigrationService.name);
+
+  constructor(private readonly dbService: DbService) {}
+
+  async onApplicationBootstrap() {
+    if (process.env.DB_MIGRATE_ON_START === 'true') {
+      await this.migrate();
+    }
+  }
+
+  /**
+   * Lists every known migration and when it was applied.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return this.dbService.withConnection(async (connection) => {
+      const applied = await this.findApplied(connection);
+      return MIGRATIONS.map(({ version, name }) => ({
+        version,
+        name,
+        applied_at: applied.get(version) ?? null,
+      }));
+    });
+  }
+
+  /**
+   * Applies every pending migration in version order, each in its own transaction,
+   * stopping at the first failure. The failed migration is rolled back and left pending;
+   * DDL it already ran stays, as MySQL commits it implicitly.
+   * @returns The migrations applied by this call.
+   */
+  async migrate(): Promise<Migration[]> {
+    return this.dbService.withConnection(async (connection) => {
+      const applied = await this.findApplied(connection);
+      const pending = MIGRATIONS.filter((m) => !applied.has(m.version));
+      if (pending.length === 0) {
+        this.logger.log('Database schema is up to date.');
+      }
+
+      for (const migration of pending) {
+        this.logger.log(
+          `Applying migration ${migration.version} "${migration.name}".`,
+        );
+        await connection.beginTransaction();
+        try {
+          await migration.up(connection);
+          await connection.execute(
+            `INSERT INTO schema_migrations (version, name) VALUES (?, ?);`,
+            [migration.version, migration.name],
+          );
+          await connection.commit();
+        } catch (error) {
+          await connection.rollback();
+          this.logger.error(
+            `Migration ${migration.version} "${migration.name}" failed:`,
+            (error as Error).message,
+          );
+          throw error;
+        }
+      }
+      return pending;
+    });
+  }
+
+  private async findApplied(
+    connection: mysql.PoolConnection,
+  ): Promise<Map<number, string>> {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version int NOT NULL,
+        name varchar(100) NOT NULL,
+        applied_at timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (version)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+    const [rows] = await connection.query<mysql.RowDataPacket[]>(
+      `SELECT version, DATE_FORMAT(applied_at, '%Y-%m-%d %H:%i:%s') AS applied_at FROM schema_migrations;`,
+    );
+    return new Map(
+      rows.map((row) => [Number(row.version), String(row.applied_at)]),
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { Migration } from './migration';
+
+/**
+ * The schema of the original my_athan.sql dump, plus the known calculation schools.
+ */
+export const baseline: Migration = {
+  version: 1,
+  name: 'baseline',
+  async up(connection) {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS athan_school (
+        id int NOT NULL AUTO_INCREMENT,
+        name varchar(50) NOT NULL,
+        startegy_name varchar(50) NOT NULL,
+        description text NOT NULL,
+        priority smallint NOT NULL,
+        PRIMARY KEY (id),
+        UNIQUE KEY name (name),
+        UNIQUE KEY startegy_name (startegy_name)
+      ) ENGINE=MyISAM DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS athan_calendar (
+        id bigint NOT NULL AUTO_INCREMENT,
+        athan_school_id int NOT NULL,
+        city_id int NOT NULL,
+        date varchar(10) NOT NULL,
+        data json NOT NULL,
+        PRIMARY KEY (id)
+      ) ENGINE=MyISAM DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS city (
+        id int NOT NULL AUTO_INCREMENT,
+        name varchar(50) NOT NULL,
+        country_name varchar(50) NOT NULL,
+        country_id int NOT NULL,
+        athan_school_id int DEFAULT NULL,
+        PRIMARY KEY (id)
+      ) ENGINE=MyISAM DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS country (
+        id int NOT NULL AUTO_INCREMENT,
+        name varchar(50) NOT NULL,
+        athan_school_id int NOT NULL,
+        PRIMARY KEY (id)
+      ) ENGINE=MyISAM DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS hijri_calendar (
+        id int NOT NULL AUTO_INCREMENT,
+        month date NOT NULL,
+        hijri_first_day date NOT NULL,
+        hijri_last_day date NOT NULL,
+        country_id int NOT NULL,
+        PRIMARY KEY (id),
+        UNIQUE KEY month (month, country_id)
+      ) ENGINE=MyISAM DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    await connection.query(
+      `INSERT IGNORE INTO athan_school (id, name, startegy_name, description, priority) VALUES ?;`,
+      [
+        [
+          [1, 'MWL', 'athan-api-3', 'Muslim World League', 0],
+          [
+            2,
+            'ISNA',
+            'athan-api-2',
+            'Islamic Society of North America (ISNA)',
+            0,
+          ],
+          [
+            3,
+            'EGYPT',
+            'athan-api-5',
+            'Egyptian General Authority of Survey',
+            0,
+          ],
+          [4, 'MAKKAH', 'athan-api-4', 'Umm Al-Qura University, Makkah', 0],
+          [
+            5,
+            'KARACHI',
+            'athan-api-1',
+            'University of Islamic Sciences, Karachi',
+            0,
+          ],
+          [
+            6,
+            'TEHRAN',
+            'athan-api-7',
+            'Institute of Geophysics, University of Tehran',
+            0,
+          ],
+          [
+            7,
+            'JAFARI',
+            'athan-api-0',
+            'Shia Ithna-Ashari, Leva Institute, Qum',
+            0,
+          ],
+          [8, 'GULF', 'athan-api-8', 'Gulf Region', 0],
+          [9, 'KUWAIT', 'athan-api-9', 'Kuwait', 0],
+          [10, 'QATAR', 'athan-api-10', 'Qatar', 0],
+          [
+            11,
+            'SINGAPORE',
+            'athan-api-11',
+            'Majlis Ugama Islam Singapura, Singapore',
+            0,
+          ],
+          [
+            12,
+            'FRANCE',
+            'athan-api-12',
+            'Union Organization Islamic de France',
+            0,
+          ],
+          [
+            13,
+            'TURKEY',
+            'athan-api-13',
+            'Diyanet İşleri Başkanlığı, Turkey (experimental)',
+            0,
+          ],
+          [
+            14,
+            'RUSSIA',
+            'athan-api-14',
+            'Spiritual Administration of Muslims of Russia',
+            0,
+          ],
+          [
+            15,
+            'MOONSIGHTING',
+            'athan-api-15',
+            'Moonsighting Committee Worldwide (Moonsighting.com)',
+            0,
+          ],
+          [16, 'DUBAI', 'athan-api-16', 'Dubai (experimental)', 0],
+          [
+            17,
+            'JAKIM',
+            'athan-api-17',
+            'Jabatan Kemajuan Islam Malaysia (JAKIM)',
+            0,
+          ],
+          [18, 'TUNISIA', 'athan-api-18', 'Tunisia', 0],
+          [19, 'ALGERIA', 'athan-api-19', 'Algeria', 0],
+          [
+            20,
+            'KEMENAG',
+            'athan-api-20',
+            'Kementerian Agama Republik Indonesia',
+            0,
+          ],
+          [21, 'MOROCCO', 'athan-api-21', 'Morocco', 0],
+          [22, 'PORTUGAL', 'athan-api-22', 'Comunidade Islamica de Lisboa', 0],
+          [
+            23,
+            'JORDAN',
+            'athan-api-23',
+            'Ministry of Awqaf, Islamic Affairs and Holy Places, Jordan',
+            0,
+          ],
+        ],
+      ],
+    );
+  },
+};
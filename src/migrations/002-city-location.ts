@@ -0,0 +1,26 @@
+import { columnExists, indexExists, Migration } from './migration';
+
+/**
+ * Coordinates and time zone on `city`, and unique names for cities and countries.
+ */
+export const cityLocation: Migration = {
+  version: 2,
+  name: 'city-location',
+  async up(connection) {
+    if (!(await columnExists(connection, 'city', 'latitude'))) {
+      await connection.query(`
+        ALTER TABLE city
+          ADD COLUMN latitude double DEFAULT NULL,
+          ADD COLUMN longitude double DEFAULT NULL,
+          ADD COLUMN timezone varchar(64) DEFAULT NULL;`);
+    }
+    if (!(await indexExists(connection, 'city', 'name'))) {
+      await connection.query(
+        `ALTER TABLE city ADD UNIQUE KEY name (name, country_id);`,
+      );
+    }
+    if (!(await indexExists(connection, 'country', 'name'))) {
+      await connection.query(`ALTER TABLE country ADD UNIQUE KEY name (name);`);
+    }
+  },
+};
@@ -0,0 +1,33 @@
+import { indexExists, Migration } from './migration';
+
+/**
+ * Makes `athan_calendar` idempotent: drops duplicated days (keeping the latest row),
+ * stores `date` as a real DATE, adds the (school, city, date) unique key and
+ * switches to InnoDB so batched upserts can run in a transaction.
+ */
+export const athanCalendarKeys: Migration = {
+  version: 3,
+  name: 'athan-calendar-keys',
+  async up(connection) {
+    await connection.query(`
+      DELETE older FROM athan_calendar older
+      JOIN athan_calendar newer
+        ON newer.athan_school_id = older.athan_school_id
+       AND newer.city_id = older.city_id
+       AND newer.date = older.date
+       AND newer.id > older.id;`);
+
+    await connection.query(`ALTER TABLE athan_calendar ENGINE=InnoDB;`);
+    await connection.query(
+      `ALTER TABLE athan_calendar MODIFY date date NOT NULL;`,
+    );
+
+    if (
+      !(await indexExists(connection, 'athan_calendar', 'school_city_date'))
+    ) {
+      await connection.query(`
+        ALTER TABLE athan_calendar
+          ADD UNIQUE KEY school_city_date (athan_school_id, city_id, date);`);
+    }
+  },
+};
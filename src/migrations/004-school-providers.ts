@@ -0,0 +1,67 @@
+import { columnExists, Migration } from './migration';
+
+// Schools with an offline calculation method at the time of this migration
+const LOCAL_SCHOOLS = [
+  'MWL',
+  'ISNA',
+  'EGYPT',
+  'MAKKAH',
+  'KARACHI',
+  'TEHRAN',
+  'JAFARI',
+  'GULF',
+  'KUWAIT',
+  'QATAR',
+  'SINGAPORE',
+  'FRANCE',
+  'TURKEY',
+  'RUSSIA',
+  'MOONSIGHTING',
+  'DUBAI',
+  'JAKIM',
+  'TUNISIA',
+  'ALGERIA',
+  'KEMENAG',
+  'MOROCCO',
+  'PORTUGAL',
+  'JORDAN',
+];
+
+/**
+ * Providers serving each school, by priority: Aladhan first, then the offline calculation.
+ * `athan_calendar.provider` records which one produced a stored day.
+ */
+export const schoolProviders: Migration = {
+  version: 4,
+  name: 'school-providers',
+  async up(connection) {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS athan_school_provider (
+        id int NOT NULL AUTO_INCREMENT,
+        athan_school_id int NOT NULL,
+        provider varchar(20) NOT NULL,
+        params json NOT NULL,
+        priority smallint NOT NULL DEFAULT 0,
+        enabled tinyint(1) NOT NULL DEFAULT 1,
+        PRIMARY KEY (id),
+        UNIQUE KEY school_provider (athan_school_id, provider)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    await connection.query(`
+      INSERT IGNORE INTO athan_school_provider (athan_school_id, provider, params, priority)
+      SELECT id, 'aladhan', JSON_OBJECT('method', CAST(SUBSTRING(startegy_name, 11) AS UNSIGNED)), 100
+      FROM athan_school WHERE startegy_name LIKE 'athan-api-%';`);
+    await connection.query(
+      `INSERT IGNORE INTO athan_school_provider (athan_school_id, provider, params, priority)
+       SELECT id, 'local', JSON_OBJECT('school', name), 10
+       FROM athan_school WHERE name IN (?);`,
+      [LOCAL_SCHOOLS],
+    );
+
+    if (!(await columnExists(connection, 'athan_calendar', 'provider'))) {
+      await connection.query(
+        `ALTER TABLE athan_calendar ADD COLUMN provider varchar(20) DEFAULT NULL AFTER data;`,
+      );
+    }
+  },
+};
@@ -0,0 +1,34 @@
+import { Migration } from './migration';
+
+/**
+ * The HABOUS school, served by timetables imported from the Moroccan Ministry of Habous
+ * and Islamic Affairs, with the calculations as fallback. MOROCCO uses the imported
+ * timetable first wherever one exists.
+ */
+export const officialTimetables: Migration = {
+  version: 5,
+  name: 'official-timetables',
+  async up(connection) {
+    await connection.query(
+      `INSERT IGNORE INTO athan_school (name, startegy_name, description, priority)
+       VALUES ('HABOUS', 'athan-official-habous', ?, 0);`,
+      [
+        'Official timetable of the Moroccan Ministry of Habous and Islamic Affairs',
+      ],
+    );
+
+    await connection.query(`
+      INSERT IGNORE INTO athan_school_provider (athan_school_id, provider, params, priority)
+      SELECT id, 'official', JSON_OBJECT('school', 'HABOUS'), 100
+      FROM athan_school WHERE name = 'HABOUS'
+      UNION ALL
+      SELECT id, 'aladhan', JSON_OBJECT('method', 21), 50
+      FROM athan_school WHERE name = 'HABOUS'
+      UNION ALL
+      SELECT id, 'local', JSON_OBJECT('school', 'MOROCCO'), 10
+      FROM athan_school WHERE name = 'HABOUS'
+      UNION ALL
+      SELECT id, 'official', JSON_OBJECT('school', 'HABOUS'), 200
+      FROM athan_school WHERE name = 'MOROCCO';`);
+  },
+};
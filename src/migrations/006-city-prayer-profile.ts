@@ -0,0 +1,18 @@
+import { columnExists, Migration } from './migration';
+
+/**
+ * Per-city calculation profile: Asr school, high-latitude rule and per-prayer minute offsets.
+ */
+export const cityPrayerProfile: Migration = {
+  version: 6,
+  name: 'city-prayer-profile',
+  async up(connection) {
+    if (!(await columnExists(connection, 'city', 'asr_school'))) {
+      await connection.query(`
+        ALTER TABLE city
+          ADD COLUMN asr_school varchar(10) DEFAULT NULL,
+          ADD COLUMN high_latitude_rule varchar(20) DEFAULT NULL,
+          ADD COLUMN prayer_offsets json DEFAULT NULL;`);
+    }
+  },
+};
@@ -0,0 +1,39 @@
+import { Migration } from './migration';
+
+/**
+ * Gregorian first day of each Hijri month, per country (0 for the default calendar),
+ * backfilled from the month boundaries already stored in `hijri_calendar`.
+ * `source` tells fetched starts from official moon-sighting corrections.
+ */
+export const hijriMonths: Migration = {
+  version: 7,
+  name: 'hijri-months',
+  async up(connection) {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS hijri_month (
+        id int NOT NULL AUTO_INCREMENT,
+        country_id int NOT NULL DEFAULT 0,
+        hijri_year smallint NOT NULL,
+        hijri_month tinyint NOT NULL,
+        first_day date NOT NULL,
+        source varchar(10) NOT NULL DEFAULT 'aladhan',
+        note varchar(255) DEFAULT NULL,
+        updated_at timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        UNIQUE KEY hijri_month (country_id, hijri_year, hijri_month),
+        KEY first_day (first_day)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    // The Hijri dates of the first and last day of each Gregorian month give the
+    // starts of the Hijri months they fall in
+    await connection.query(`
+      INSERT IGNORE INTO hijri_month (country_id, hijri_year, hijri_month, first_day)
+      SELECT country_id, YEAR(hijri_first_day), MONTH(hijri_first_day),
+        DATE_SUB(month, INTERVAL DAY(hijri_first_day) - 1 DAY)
+      FROM hijri_calendar
+      UNION
+      SELECT country_id, YEAR(hijri_last_day), MONTH(hijri_last_day),
+        DATE_SUB(LAST_DAY(month), INTERVAL DAY(hijri_last_day) - 1 DAY)
+      FROM hijri_calendar;`);
+  },
+};
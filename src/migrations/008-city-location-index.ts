@@ -0,0 +1,16 @@
+import { indexExists, Migration } from './migration';
+
+/**
+ * Index on city coordinates for the nearest-city lookup of coordinate requests.
+ */
+export const cityLocationIndex: Migration = {
+  version: 8,
+  name: 'city-location-index',
+  async up(connection) {
+    if (!(await indexExists(connection, 'city', 'location'))) {
+      await connection.query(
+        `ALTER TABLE city ADD KEY location (latitude, longitude);`,
+      );
+    }
+  },
+};
@@ -0,0 +1,33 @@
+import * as mysql from 'mysql2/promise';
+import { guessTimezone } from '../gazetteer';
+import { Migration } from './migration';
+
+/**
+ * IANA zone for the cities registered without one, guessed from the gazetteer,
+ * so timings can be given with the right offset on every day.
+ */
+export const cityTimezones: Migration = {
+  version: 9,
+  name: 'city-timezones',
+  async up(connection) {
+    const [cities] = await connection.query<mysql.RowDataPacket[]>(
+      `SELECT id, name, country_name, latitude, longitude FROM city WHERE timezone IS NULL;`,
+    );
+    for (const city of cities) {
+      const timezone = guessTimezone(
+        city.name as string,
+        city.country_name as string,
+        {
+          latitude: city.latitude as number | null,
+          longitude: city.longitude as number | null,
+        },
+      );
+      if (timezone) {
+        await connection.execute(
+          `UPDATE city SET timezone = ? WHERE id = ? AND timezone IS NULL;`,
+          [timezone, city.id],
+        );
+      }
+    }
+  },
+};
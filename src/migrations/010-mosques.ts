@@ -0,0 +1,25 @@
+import { Migration } from './migration';
+
+/**
+ * Mosques of a city, with their own school (NULL to follow the city) and iqamah rules.
+ */
+export const mosques: Migration = {
+  version: 10,
+  name: 'mosques',
+  async up(connection) {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS mosque (
+        id int NOT NULL AUTO_INCREMENT,
+        name varchar(100) NOT NULL,
+        city_id int NOT NULL,
+        athan_school_id int DEFAULT NULL,
+        address varchar(255) DEFAULT NULL,
+        latitude double DEFAULT NULL,
+        longitude double DEFAULT NULL,
+        iqamah_rules json DEFAULT NULL,
+        PRIMARY KEY (id),
+        UNIQUE KEY name (name, city_id),
+        KEY city_id (city_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+  },
+};
@@ -0,0 +1,48 @@
+import { Migration } from './migration';
+
+/**
+ * Prayer reminder subscriptions and their deliveries. Deliveries are planned ahead as
+ * `pending` rows, so reminders and their retries survive restarts; instants are UTC.
+ */
+export const webhooks: Migration = {
+  version: 11,
+  name: 'webhooks',
+  async up(connection) {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS webhook_subscription (
+        id int NOT NULL AUTO_INCREMENT,
+        city_id int DEFAULT NULL,
+        mosque_id int DEFAULT NULL,
+        athan_school_id int DEFAULT NULL,
+        prayers json NOT NULL,
+        lead_minutes smallint NOT NULL DEFAULT 0,
+        callback_url varchar(2048) NOT NULL,
+        secret varchar(64) NOT NULL,
+        enabled tinyint(1) NOT NULL DEFAULT 1,
+        created_at timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        KEY city_id (city_id),
+        KEY mosque_id (mosque_id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS webhook_delivery (
+        id bigint NOT NULL AUTO_INCREMENT,
+        subscription_id int NOT NULL,
+        prayer varchar(10) NOT NULL,
+        prayer_date date NOT NULL,
+        prayer_at datetime NOT NULL,
+        fire_at datetime NOT NULL,
+        status varchar(10) NOT NULL DEFAULT 'pending',
+        attempts tinyint NOT NULL DEFAULT 0,
+        next_attempt_at datetime NOT NULL,
+        response_status smallint DEFAULT NULL,
+        error varchar(255) DEFAULT NULL,
+        delivered_at datetime DEFAULT NULL,
+        payload json NOT NULL,
+        PRIMARY KEY (id),
+        UNIQUE KEY prayer (subscription_id, prayer_date, prayer),
+        KEY due (status, next_attempt_at)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+  },
+};
@@ -0,0 +1,35 @@
+import { columnExists, Migration } from './migration';
+
+/**
+ * API keys, stored as SHA-256 hashes; `key_prefix` identifies a key without revealing it.
+ * `webhook_subscription.api_key_id` records the key that created a subscription.
+ */
+export const apiKeys: Migration = {
+  version: 12,
+  name: 'api-keys',
+  async up(connection) {
+    await connection.query(`
+      CREATE TABLE IF NOT EXISTS api_key (
+        id int NOT NULL AUTO_INCREMENT,
+        name varchar(100) NOT NULL,
+        key_hash char(64) NOT NULL,
+        key_prefix varchar(12) NOT NULL,
+        role varchar(20) NOT NULL DEFAULT 'public',
+        mosque_id int DEFAULT NULL,
+        rate_limit int DEFAULT NULL,
+        enabled tinyint(1) NOT NULL DEFAULT 1,
+        created_at timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (id),
+        UNIQUE KEY key_hash (key_hash)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci;`);
+
+    if (
+      !(await columnExists(connection, 'webhook_subscription', 'api_key_id'))
+    ) {
+      await connection.query(`
+        ALTER TABLE webhook_subscription
+          ADD COLUMN api_key_id int DEFAULT NULL AFTER enabled,
+          ADD KEY api_key_id (api_key_id);`);
+    }
+  },
+};
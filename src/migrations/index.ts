@@ -0,0 +1,33 @@
+import { baseline } from './001-baseline';
+import { cityLocation } from './002-city-location';
+import { athanCalendarKeys } from './003-athan-calendar-keys';
+import { schoolProviders } from './004-school-providers';
+import { officialTimetables } from './005-official-timetables';
+import { cityPrayerProfile } from './006-city-prayer-profile';
+import { hijriMonths } from './007-hijri-months';
+import { cityLocationIndex } from './008-city-location-index';
+import { cityTimezones } from './009-city-timezones';
+import { mosques } from './010-mosques';
+import { webhooks } from './011-webhooks';
+import { apiKeys } from './012-api-keys';
+import { Migration } from './migration';
+
+export type { Migration } from './migration';
+
+/**
+ * Every migration, in the order they are applied. Append new ones; never edit applied ones.
+ */
+export const MIGRATIONS: Migration[] = [
+  baseline,
+  cityLocation,
+  athanCalendarKeys,
+  schoolProviders,
+  officialTimetables,
+  cityPrayerProfile,
+  hijriMonths,
+  cityLocationIndex,
+  cityTimezones,
+  mosques,
+  webhooks,
+  apiKeys,
+];
@@ -0,0 +1,38 @@
+import * as mysql from 'mysql2/promise';
+
+/**
+ * A versioned schema change, applied once and recorded in `schema_migrations`.
+ * MySQL commits DDL implicitly, so `up` should be safe to re-run if it fails halfway:
+ * prefer IF NOT EXISTS and the helpers below over bare ALTER statements.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(connection: mysql.PoolConnection): Promise<void>;
+}
+
+export async function columnExists(
+  connection: mysql.PoolConnection,
+  table: string,
+  column: string,
+): Promise<boolean> {
+  const [rows] = await connection.execute<mysql.RowDataPacket[]>(
+    `SELECT 1 FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?;`,
+    [table, column],
+  );
+  return rows.length > 0;
+}
+
+export async function indexExists(
+  connection: mysql.PoolConnection,
+  table: string,
+  index: string,
+): Promise<boolean> {
+  const [rows] = await connection.execute<mysql.RowDataPacket[]>(
+    `SELECT 1 FROM information_schema.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?;`,
+    [table, index],
+  );
+  return rows.length > 0;
+}
@@ -0,0 +1,87 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { assertCanManageMosque, CurrentPrincipal, RequireRole } from './auth';
+import type { Principal } from './auth';
+import { DateRange, rangeFromQuery } from './date-range';
+import {
+  CreateMosqueDto,
+  MosqueListQueryDto,
+  MosqueScheduleQueryDto,
+  UpdateMosqueDto,
+} from './mosque.dto';
+import { MosqueService } from './mosque.service';
+
+/**
+ * @throws BadRequestException when the bounds are inconsistent; see rangeFromQuery.
+ */
+function toRange(query: MosqueScheduleQueryDto): DateRange {
+  try {
+    return rangeFromQuery(query.from, query.to, query.duration?.toString());
+  } catch (error) {
+    throw new BadRequestException((error as Error).message);
+  }
+}
+
+@Controller('mosques')
+export class MosqueController {
+  constructor(private readonly mosqueService: MosqueService) {}
+
+  @Get()
+  async list(@Query() query: MosqueListQueryDto) {
+    return this.mosqueService.listMosques(query);
+  }
+
+  @Get(':id')
+  async get(@Param('id', ParseIntPipe) id: number) {
+    return this.mosqueService.getMosque(id);
+  }
+
+  /**
+   * Adhan and iqamah times over a day range; the current month by default.
+   */
+  @Get(':id/schedule')
+  async schedule(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: MosqueScheduleQueryDto,
+  ) {
+    return this.mosqueService.schedule(id, toRange(query));
+  }
+
+  @Post()
+  @RequireRole('admin')
+  async create(@Body() body: CreateMosqueDto) {
+    return this.mosqueService.createMosque(body);
+  }
+
+  /**
+   * Mosque admins may update their own mosque.
+   */
+  @Put(':id')
+  @RequireRole('mosque_admin')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateMosqueDto,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    assertCanManageMosque(principal, id);
+    return this.mosqueService.updateMosque(id, body);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  @RequireRole('admin')
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    await this.mosqueService.deleteMosque(id);
+  }
+}
@@ -0,0 +1,139 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MAX_RANGE_DAYS } from './date-range';
+import type { IqamahRule } from './iqamah';
+import { PageQueryDto } from './location.dto';
+import { IsIqamahRules, IsIsoDay } from './validation';
+
+/**
+ * Request bodies and queries of the `/mosques` endpoints.
+ */
+
+const MAX_NAME_LENGTH = 100; // matches mosque.name
+const MAX_ADDRESS_LENGTH = 255;
+
+const trim = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim() : value;
+
+export class MosqueListQueryDto extends PageQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  city_id?: number;
+}
+
+/**
+ * Latitude and longitude must be given together; MosqueService checks the pair.
+ */
+export class CreateMosqueDto {
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  name!: string;
+
+  @IsInt()
+  @Min(1)
+  city_id!: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  athan_school_id?: number | null; // 0 or null to follow the city
+
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @MaxLength(MAX_ADDRESS_LENGTH)
+  address?: string | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number | null;
+
+  @IsOptional()
+  @IsIqamahRules()
+  iqamah_rules?: IqamahRule[] | null; // e.g. [{ "prayer": "Isha", "offset": 10 }]
+}
+
+/**
+ * Omitted fields keep their value; `null` clears the optional ones.
+ */
+export class UpdateMosqueDto {
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  city_id?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  athan_school_id?: number | null;
+
+  @IsOptional()
+  @Transform(trim)
+  @IsString()
+  @MaxLength(MAX_ADDRESS_LENGTH)
+  address?: string | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  latitude?: number | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  longitude?: number | null;
+
+  @IsOptional()
+  @IsIqamahRules()
+  iqamah_rules?: IqamahRule[] | null;
+}
+
+/**
+ * `to` and `duration` are mutually exclusive; see rangeFromQuery.
+ */
+export class MosqueScheduleQueryDto {
+  @IsOptional()
+  @IsIsoDay()
+  from?: string;
+
+  @IsOptional()
+  @IsIsoDay()
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RANGE_DAYS)
+  duration?: number;
+}
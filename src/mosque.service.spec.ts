@@ -0,0 +1,63 @@
+import { ConflictException } from '@nestjs/common';
+import { rabat } from '../test/fixtures';
+import { DbService, MosqueRow } from './db.service';
+import { MosqueService } from './mosque.service';
+import { PrayerCacheService } from './prayer-cache.service';
+import { SchoolResolverService } from './school-resolver.service';
+
+describe('MosqueService', () => {
+  const mosque: MosqueRow = {
+    id: 7,
+    name: 'Mosquée Hassan',
+    city_id: 1,
+    athan_school_id: null,
+    address: null,
+    latitude: null,
+    longitude: null,
+    iqamah_rules: null,
+  };
+  const duplicate = Object.assign(new Error('Duplicate entry'), {
+    code: 'ER_DUP_ENTRY',
+  });
+
+  let db: jest.Mocked<
+    Pick<
+      DbService,
+      'findCityById' | 'findMosqueById' | 'insertMosque' | 'updateMosque'
+    >
+  >;
+  let service: MosqueService;
+
+  beforeEach(() => {
+    db = {
+      findCityById: jest.fn().mockResolvedValue(rabat),
+      findMosqueById: jest.fn().mockResolvedValue(mosque),
+      insertMosque: jest.fn().mockResolvedValue(8),
+      updateMosque: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new MosqueService(
+      db as unknown as DbService,
+      {} as SchoolResolverService,
+      {} as PrayerCacheService,
+    );
+  });
+
+  it('reports names taken in the city as conflicts', async () => {
+    db.insertMosque.mockRejectedValue(duplicate);
+    await expect(
+      service.createMosque({ name: 'Mosquée Hassan', city_id: 1 }),
+    ).rejects.toBeInstanceOf(ConflictException);
+
+    db.updateMosque.mockRejectedValue(duplicate);
+    await expect(
+      service.updateMosque(7, { name: 'Mosquée Hassan II' }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('passes other database errors through', async () => {
+    db.insertMosque.mockRejectedValue(new Error('connection lost'));
+    await expect(
+      service.createMosque({ name: 'Mosquée Hassan', city_id: 1 }),
+    ).rejects.toThrow('connection lost');
+  });
+});
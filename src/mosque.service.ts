@@ -0,0 +1,220 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { countDays, DateRange } from './date-range';
+import { CityRow, DbService, MosqueRow } from './db.service';
+import { buildMosqueSchedule, MosqueScheduleDay } from './iqamah';
+import { Paginated } from './location.service';
+import {
+  CreateMosqueDto,
+  MosqueListQueryDto,
+  UpdateMosqueDto,
+} from './mosque.dto';
+import { PrayerCacheService } from './prayer-cache.service';
+import { SchoolResolverService } from './school-resolver.service';
+
+export interface MosqueSchedule {
+  mosque: { id: number; name: string };
+  city: string;
+  country: string;
+  timezone: string | null; // of the city
+  school: string;
+  from: string;
+  to: string;
+  days: MosqueScheduleDay[];
+}
+
+/**
+ * Manages the `mosque` table and merges the prayer times of a mosque's city with its
+ * iqamah rules. Rule formats are validated by the DTOs in mosque.dto.ts.
+ */
+@Injectable()
+export class MosqueService {
+  private readonly logger = new Logger(MosqueService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly schoolResolver: SchoolResolverService,
+    private readonly prayerCacheService: PrayerCacheService,
+  ) {}
+
+  async listMosques(query: MosqueListQueryDto): Promise<Paginated<MosqueRow>> {
+    const { page, limit } = query;
+    const result = await this.dbService.listMosques(
+      query.search,
+      query.city_id,
+      limit,
+      (page - 1) * limit,
+    );
+    return { ...result, page, limit };
+  }
+
+  async getMosque(id: number): Promise<MosqueRow> {
+    const mosque = await this.dbService.findMosqueById(id);
+    if (!mosque) {
+      throw new NotFoundException(`Mosque ${id} not found`);
+    }
+    return mosque;
+  }
+
+  async createMosque(body: CreateMosqueDto): Promise<MosqueRow> {
+    await this.findCityForMosque(body.city_id);
+    const mosque: Omit<MosqueRow, 'id'> = {
+      name: body.name,
+      city_id: body.city_id,
+      athan_school_id: await this.checkSchoolId(body.athan_school_id),
+      address: body.address || null,
+      ...checkLocation(body),
+      iqamah_rules: body.iqamah_rules ?? null,
+    };
+
+    let id: number;
+    try {
+      id = await this.dbService.insertMosque(mosque);
+    } catch (error) {
+      throw duplicateNameError(error, mosque);
+    }
+    this.logger.log(`Registered mosque ${id} "${mosque.name}".`);
+    return { id, ...mosque };
+  }
+
+  async updateMosque(id: number, body: UpdateMosqueDto): Promise<MosqueRow> {
+    const current = await this.getMosque(id);
+    if (body.city_id !== undefined) {
+      await this.findCityForMosque(body.city_id);
+    }
+    const mosque: MosqueRow = {
+      id,
+      name: body.name ?? current.name,
+      city_id: body.city_id ?? current.city_id,
+      athan_school_id:
+        body.athan_school_id === undefined
+          ? current.athan_school_id
+          : await this.checkSchoolId(body.athan_school_id),
+      address:
+        body.address === undefined ? current.address : body.address || null,
+      ...checkLocation({
+        latitude:
+          body.latitude === undefined ? current.latitude : body.latitude,
+        longitude:
+          body.longitude === undefined ? current.longitude : body.longitude,
+      }),
+      iqamah_rules:
+        body.iqamah_rules === undefined
+          ? current.iqamah_rules
+          : body.iqamah_rules,
+    };
+
+    try {
+      await this.dbService.updateMosque(mosque);
+    } catch (error) {
+      throw duplicateNameError(error, mosque);
+    }
+    return mosque;
+  }
+
+  async deleteMosque(id: number): Promise<void> {
+    await this.getMosque(id);
+    await this.dbService.deleteMosque(id);
+  }
+
+  /**
+   * Adhan times are those of the mosque's city, computed with the mosque's school
+   * or else the city default, so they share the city's stored days.
+   * @throws NotFoundException for an unknown mosque.
+   */
+  async schedule(id: number, range: DateRange): Promise<MosqueSchedule> {
+    const mosque = await this.getMosque(id);
+    const city = await this.dbService.findCityById(mosque.city_id);
+    if (!city) {
+      throw new NotFoundException(
+        `City ${mosque.city_id} of mosque ${id} not found`,
+      );
+    }
+    const { school } = await this.schoolResolver.resolve({
+      school: mosque.athan_school_id
+        ? String(mosque.athan_school_id)
+        : undefined,
+      city: city.name,
+      country: city.country_name,
+    });
+
+    const rows = await this.prayerCacheService.getPrayerTimes(
+      school.startegy_name,
+      {
+        city: city.name,
+        country: city.country_name,
+        from: range.from,
+        duration: countDays(range),
+      },
+    );
+    return {
+      mosque: { id: mosque.id, name: mosque.name },
+      city: city.name,
+      country: city.country_name,
+      timezone: city.timezone,
+      school: school.name,
+      from: range.from,
+      to: range.to,
+      days: buildMosqueSchedule(rows, mosque.iqamah_rules ?? []),
+    };
+  }
+
+  private async findCityForMosque(cityId: number): Promise<CityRow> {
+    const city = await this.dbService.findCityById(cityId);
+    if (!city) {
+      throw new BadRequestException(`City ${cityId} does not exist`);
+    }
+    return city;
+  }
+
+  /**
+   * Checks that an optional school reference exists; 0 or null means the city default.
+   */
+  private async checkSchoolId(id?: number | null): Promise<number | null> {
+    if (!id) {
+      return null;
+    }
+    if (!(await this.dbService.findSchoolById(id))) {
+      throw new BadRequestException(`athan_school ${id} does not exist`);
+    }
+    return id;
+  }
+}
+
+/**
+ * Checks that latitude and longitude are given together.
+ */
+function checkLocation(location: {
+  latitude?: number | null;
+  longitude?: number | null;
+}): { latitude: number | null; longitude: number | null } {
+  const latitude = location.latitude ?? null;
+  const longitude = location.longitude ?? null;
+  if ((latitude === null) !== (longitude === null)) {
+    throw new BadRequestException(
+      'latitude and longitude must be provided together',
+    );
+  }
+  return { latitude, longitude };
+}
+
+/**
+ * Names are unique within a city, ignoring case (`UNIQUE KEY name (name, city_id)`).
+ * @returns A ConflictException for duplicate names, the error itself otherwise.
+ */
+function duplicateNameError(
+  error: unknown,
+  mosque: Pick<MosqueRow, 'name' | 'city_id'>,
+): unknown {
+  if ((error as { code?: string }).code !== 'ER_DUP_ENTRY') {
+    return error;
+  }
+  return new ConflictException(
+    `Mosque "${mosque.name}" already exists in city ${mosque.city_id}`,
+  );
+}
@@ -0,0 +1,62 @@
+import { findPrayerStatus } from './next-prayer';
+import { DailyPrayerTimes } from './prayer-calculator';
+
+const day = (date: string): DailyPrayerTimes => ({
+  date,
+  timings: {
+    Fajr: '05:26 (+01)',
+    Shurooq: '06:51 (+01)',
+    Dhuhr: '12:47 (+01)',
+    Asr: '16:02 (+01)',
+    Maghrib: '18:39 (+01)',
+    Isha: '19:55 (+01)',
+  },
+});
+
+const days = [day('28-02-2025'), day('01-03-2025'), day('02-03-2025')];
+
+describe('findPrayerStatus', () => {
+  it('should return the current window and the next prayer', () => {
+    const status = findPrayerStatus(
+      days,
+      new Date('2025-03-01T12:00:00Z'), // 13:00 local
+    );
+
+    expect(status).toEqual({
+      now: '2025-03-01T13:00:00+01:00',
+      current: {
+        name: 'Dhuhr',
+        startsAt: '2025-03-01T12:47:00+01:00',
+        endsAt: '2025-03-01T16:02:00+01:00',
+      },
+      next: {
+        name: 'Asr',
+        at: '2025-03-01T16:02:00+01:00',
+        secondsRemaining: 3 * 3600 + 2 * 60,
+      },
+    });
+  });
+
+  it("should roll over to tomorrow's Fajr after Isha", () => {
+    const status = findPrayerStatus(days, new Date('2025-03-01T22:00:00Z'));
+
+    expect(status?.current?.name).toBe('Isha');
+    expect(status?.current?.endsAt).toBe('2025-03-02T05:26:00+01:00');
+    expect(status?.next).toEqual({
+      name: 'Fajr',
+      at: '2025-03-02T05:26:00+01:00',
+      secondsRemaining: 6 * 3600 + 26 * 60,
+    });
+  });
+
+  it('should have no current prayer between Shurooq and Dhuhr', () => {
+    const status = findPrayerStatus(days, new Date('2025-03-01T08:00:00Z'));
+
+    expect(status?.current).toBeNull();
+    expect(status?.next.name).toBe('Dhuhr');
+  });
+
+  it('should return null when no later prayer is known', () => {
+    expect(findPrayerStatus(days, new Date('2025-03-03T12:00:00Z'))).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { fromAladhanDate } from './date-range';
+import {
+  DailyPrayerTimes,
+  PrayerTimings,
+  timezoneOffsetMinutes,
+} from './prayer-calculator';
+import { formatWithOffset, parseTiming, timingToDate } from './timing';
+
+/**
+ * Works out where an instant falls in the daily prayer cycle.
+ * A prayer window runs from its time to the next prayer; Fajr ends at Shurooq,
+ * leaving no current prayer until Dhuhr, and Isha runs until the next day's Fajr.
+ */
+
+export type PrayerName = Exclude<keyof PrayerTimings, 'Shurooq'>;
+
+export interface PrayerWindow {
+  name: PrayerName;
+  startsAt: string; // ISO 8601 in the location zone
+  endsAt: string;
+}
+
+export interface NextPrayer {
+  name: PrayerName;
+  at: string; // ISO 8601 in the location zone
+  secondsRemaining: number;
+}
+
+export interface PrayerStatus {
+  now: string;
+  current: PrayerWindow | null;
+  next: NextPrayer;
+}
+
+interface PrayerEvent {
+  name: keyof PrayerTimings;
+  at: Date;
+  offsetMinutes: number;
+}
+
+const ORDER: (keyof PrayerTimings)[] = [
+  'Fajr',
+  'Shurooq',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+];
+
+function toEvents(
+  days: DailyPrayerTimes[],
+  timeZone?: string | null,
+): PrayerEvent[] {
+  const events: PrayerEvent[] = [];
+  for (const { date, timings } of days) {
+    const day = fromAladhanDate(date);
+    for (const name of ORDER) {
+      const value = timings[name];
+      if (!value || value.startsWith('--')) {
+        continue;
+      }
+      const at = timingToDate(day, value, timeZone);
+      events.push({
+        name,
+        at,
+        offsetMinutes: timeZone
+          ? timezoneOffsetMinutes(timeZone, at)
+          : (parseTiming(value).offsetMinutes ?? 0),
+      });
+    }
+  }
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+const format = (event: PrayerEvent) =>
+  formatWithOffset(event.at, event.offsetMinutes);
+
+/**
+ * @param days Consecutive days around `now`; the day before and after are needed
+ *             to cover the Isha → Fajr rollover.
+ * @param timeZone IANA zone of the location; timings carrying a numeric suffix don't need it.
+ * @returns null when `days` does not reach past `now`.
+ */
+export function findPrayerStatus(
+  days: DailyPrayerTimes[],
+  now: Date,
+  timeZone?: string | null,
+): PrayerStatus | null {
+  const events = toEvents(days, timeZone);
+  const nextIndex = events.findIndex(
+    (event) => event.at > now && event.name !== 'Shurooq',
+  );
+  if (nextIndex === -1) {
+    return null;
+  }
+  const next = events[nextIndex];
+
+  const previous = events.filter((event) => event.at <= now).pop();
+  const currentIndex = previous ? events.indexOf(previous) : -1;
+  let current: PrayerWindow | null = null;
+  if (previous && previous.name !== 'Shurooq') {
+    current = {
+      name: previous.name as PrayerName,
+      startsAt: format(previous),
+      endsAt: format(events[currentIndex + 1]),
+    };
+  }
+
+  return {
+    now: formatWithOffset(now, next.offsetMinutes),
+    current,
+    next: {
+      name: next.name as PrayerName,
+      at: format(next),
+      secondsRemaining: Math.ceil((next.at.getTime() - now.getTime()) / 1000),
+    },
+  };
+}
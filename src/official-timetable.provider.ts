@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import type { PrayerTimeParams } from './athan.service';
+import { DbService } from './db.service';
+import { countDays, resolveRange } from './date-range';
+import { DailyPrayerTimes } from './prayer-calculator';
+import { PrayerTimeProvider, ProviderSettings } from './prayer-provider';
+
+/**
+ * Serves the timetables imported by TimetableImportService, stored in `athan_calendar`
+ * under the school named by the `school` setting (e.g. "HABOUS").
+ * Fails when a requested day was not imported, so the next provider takes over.
+ */
+@Injectable()
+export class OfficialTimetableProvider implements PrayerTimeProvider {
+  readonly name = 'official';
+
+  constructor(private readonly dbService: DbService) {}
+
+  canServe(params: PrayerTimeParams, settings: ProviderSettings): boolean {
+    return 'city' in params && typeof settings.school === 'string';
+  }
+
+  async getPrayerTimes(
+    params: PrayerTimeParams,
+    settings: ProviderSettings,
+  ): Promise<DailyPrayerTimes[]> {
+    if (!('city' in params)) {
+      throw new Error('Official timetables are looked up by city.');
+    }
+    const school = await this.dbService.findSchoolByName(
+      String(settings.school),
+    );
+    const city = await this.dbService.findCity(params.city, params.country);
+    if (!school || !city) {
+      throw new Error(
+        `No ${String(settings.school)} timetable for "${params.city}".`,
+      );
+    }
+
+    const range = resolveRange(params.from, params.duration);
+    const stored = await this.dbService.findCalendarRows(
+      school.id,
+      city.id,
+      range.from,
+      range.to,
+    );
+    const missing = countDays(range) - stored.size;
+    if (missing > 0) {
+      throw new Error(
+        `The ${school.name} timetable of ${city.name} lacks ${missing} day(s) of ${range.from}..${range.to}.`,
+      );
+    }
+    return [...stored.values()].map(({ date, timings }) => ({ date, timings }));
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Minimal PDF 1.4 writer: text in the standard Helvetica fonts, filled rectangles
+ * and lines, which is all the printable timetables need.
+ * Text is WinAnsi encoded; characters outside it print as "?".
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Windows-1252 characters outside Latin-1, by code point
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, // €
+  0x2018: 0x91, // ‘
+  0x2019: 0x92, // ’
+  0x201c: 0x93, // “
+  0x201d: 0x94, // ”
+  0x2022: 0x95, // •
+  0x2013: 0x96, // –
+  0x2014: 0x97, // —
+};
+
+/**
+ * A PDF literal string: WinAnsi bytes (held in a latin1 string) with `\`, `(` and `)` escaped.
+ */
+function literal(value: string): string {
+  let bytes = '';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    const byte =
+      code < 0x80 || (code >= 0xa0 && code <= 0xff)
+        ? code
+        : (WIN_ANSI_EXTRAS[code] ?? 0x3f);
+    bytes += String.fromCharCode(byte);
+  }
+  return `(${bytes.replace(/[\\()]/g, '\\$&')})`;
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * One page, drawn with y measured from the top edge.
+ */
+export class PdfPage {
+  private readonly operations: string[] = [];
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+  ) {}
+
+  text(
+    x: number,
+    top: number,
+    value: string,
+    size: number,
+    font: PdfFont = 'regular',
+  ): this {
+    this.operations.push(
+      `BT /${FONT_NAMES[font]} ${num(size)} Tf ${num(x)} ${num(this.height - top)} Td ${literal(value)} Tj ET`,
+    );
+    return this;
+  }
+
+  /**
+   * @param gray 0 (black) to 1 (white).
+   */
+  fillRect(
+    x: number,
+    top: number,
+    width: number,
+    height: number,
+    gray: number,
+  ): this {
+    this.operations.push(
+      `${num(gray)} g ${num(x)} ${num(this.height - top - height)} ${num(width)} ${num(height)} re f 0 g`,
+    );
+    return this;
+  }
+
+  line(x1: number, top1: number, x2: number, top2: number, width = 0.5): this {
+    this.operations.push(
+      `${num(width)} w ${num(x1)} ${num(this.height - top1)} m ${num(x2)} ${num(this.height - top2)} l S`,
+    );
+    return this;
+  }
+
+  get content(): string {
+    return this.operations.join('\n');
+  }
+}
+
+/**
+ * Serializes the pages, with the cross-reference table readers need to locate objects.
+ */
+export function renderPdf(pages: PdfPage[], title: string): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+  );
+  add(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  );
+  add(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  );
+  pages.forEach((page, i) => {
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+    );
+    const content = page.content;
+    add(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    );
+  });
+  const infoId = objects.length + 1;
+  add(`<< /Title ${literal(title)} /Producer (athan-api) >>`);
+
+  // Every string is latin1, so string offsets are byte offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(output.length);
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = output.length;
+  output +=
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets
+      .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+      .join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\n` +
+    `startxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(output, 'latin1');
+}
@@ -0,0 +1,125 @@
+import { rabat } from '../test/fixtures';
+import { AthanService, PrayerTimeParams } from './athan.service';
+import { DbService, StoredPrayerTimes } from './db.service';
+import { listDays, resolveRange } from './date-range';
+import { MetricsService } from './metrics.service';
+import { PrayerTimings } from './prayer-calculator';
+import { PrayerCacheService } from './prayer-cache.service';
+
+describe('PrayerCacheService', () => {
+  const timings: PrayerTimings = {
+    Fajr: '05:50 (+01)',
+    Shurooq: '07:16 (+01)',
+    Dhuhr: '13:18 (+01)',
+    Asr: '16:40 (+01)',
+    Maghrib: '19:12 (+01)',
+    Isha: '20:35 (+01)',
+  };
+  const aladhanDate = (day: string) => day.split('-').reverse().join('-');
+  const request: PrayerTimeParams = {
+    city: 'Rabat',
+    country: 'Morocco',
+    method: 21,
+    from: '2026-10-01',
+    duration: 5,
+  };
+
+  let db: jest.Mocked<
+    Pick<
+      DbService,
+      | 'findStrategyIdByName'
+      | 'findCity'
+      | 'findCalendarRows'
+      | 'upsertCalendarRows'
+    >
+  >;
+  let athan: jest.Mocked<Pick<AthanService, 'executeStrategy'>>;
+  let cache: PrayerCacheService;
+
+  const cacheDays = (days: string[]) =>
+    db.findCalendarRows.mockResolvedValue(
+      new Map(
+        days.map((day): [string, StoredPrayerTimes] => [
+          day,
+          { date: aladhanDate(day), timings, provider: 'aladhan' },
+        ]),
+      ),
+    );
+
+  beforeEach(() => {
+    db = {
+      findStrategyIdByName: jest.fn().mockResolvedValue(21),
+      findCity: jest.fn().mockResolvedValue(rabat),
+      findCalendarRows: jest.fn(),
+      upsertCalendarRows: jest.fn().mockResolvedValue(0),
+    };
+    // Serves exactly the days it is asked for
+    athan = {
+      executeStrategy: jest.fn((_name: string, params: PrayerTimeParams) => {
+        const range = resolveRange(params.from, params.duration);
+        return Promise.resolve({
+          provider: 'aladhan',
+          failures: [],
+          days: listDays(range).map((day) => ({
+            date: aladhanDate(day),
+            timings,
+          })),
+        });
+      }),
+    };
+    cache = new PrayerCacheService(
+      db as unknown as DbService,
+      athan as unknown as AthanService,
+      new MetricsService(),
+    );
+  });
+
+  const sources = (rows: { date: string; source: string }[]) =>
+    rows.map((row) => `${row.date} ${row.source}`);
+
+  it('serves a fully cached range without calling the strategy', async () => {
+    cacheDays(listDays({ from: '2026-10-01', to: '2026-10-05' }));
+
+    const rows = await cache.getPrayerTimes('athan-api-21', request);
+    expect(rows.every((row) => row.source === 'cache')).toBe(true);
+    expect(rows).toHaveLength(5);
+    expect(athan.executeStrategy).not.toHaveBeenCalled();
+    expect(db.upsertCalendarRows).not.toHaveBeenCalled();
+  });
+
+  it('only requests the span of the missing days', async () => {
+    cacheDays(['2026-10-01', '2026-10-02', '2026-10-04']);
+
+    const rows = await cache.getPrayerTimes('athan-api-21', request);
+    expect(athan.executeStrategy).toHaveBeenCalledWith(
+      'athan-api-21',
+      expect.objectContaining({ from: '2026-10-03', duration: 3 }),
+    );
+    expect(sources(rows)).toEqual([
+      '01-10-2026 cache',
+      '02-10-2026 cache',
+      '03-10-2026 upstream',
+      '04-10-2026 cache',
+      '05-10-2026 upstream',
+    ]);
+    const stored = db.upsertCalendarRows.mock.calls[0][2];
+    expect(stored.map((row) => row.date)).toEqual(['03-10-2026', '05-10-2026']);
+  });
+
+  it('requests the whole range when nothing is cached', async () => {
+    cacheDays([]);
+
+    const rows = await cache.getPrayerTimes('athan-api-21', request);
+    expect(athan.executeStrategy).toHaveBeenCalledWith(
+      'athan-api-21',
+      expect.objectContaining({ from: '2026-10-01', duration: 5 }),
+    );
+    expect(rows.every((row) => row.source === 'upstream')).toBe(true);
+    expect(db.upsertCalendarRows).toHaveBeenCalledWith(
+      21,
+      1,
+      expect.any(Array),
+      'aladhan',
+    );
+  });
+});
@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AthanService, PrayerTimeParams } from './athan.service';
+import { DbService } from './db.service';
+import { MetricsService } from './metrics.service';
+import { DailyPrayerTimes } from './prayer-calculator';
+import {
+  countDays,
+  fromAladhanDate,
+  inRange,
+  listDays,
+  resolveRange,
+} from './date-range';
+import {
+  applyOffsets,
+  cityPrayerSettings,
+  mergePrayerSettings,
+  sameCalculation,
+} from './prayer-settings';
+
+export type PrayerTimesSource = 'cache' | 'upstream';
+
+export interface CachedPrayerTimes extends DailyPrayerTimes {
+  source: PrayerTimesSource;
+  provider: string | null; // see PrayerTimeProvider; NULL for rows cached before it was recorded
+}
+
+/**
+ * Read-through cache in front of the prayer time strategies.
+ * Days already stored in `athan_calendar` are served from the database; only the
+ * missing days are requested from the strategy, then persisted for next time.
+ * Stored days follow the prayer profile of the city; requests overriding its Asr school
+ * or high-latitude rule bypass the cache, and offsets are applied to every day returned.
+ */
+@Injectable()
+export class PrayerCacheService {
+  private readonly logger = new Logger(PrayerCacheService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly athanService: AthanService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  /**
+   * Returns prayer times for every day of the range described by `params.from` and `params.duration`.
+   * @param strategyName The `athan_school.startegy_name` to use (e.g. 'athan-api-2').
+   * @param requested Strategy parameters. Rows are only cached when `city` and `country`
+   *                  resolve to a registered city.
+   * @returns The rows ordered by date, each tagged with where it came from.
+   */
+  async getPrayerTimes(
+    strategyName: string,
+    requested: PrayerTimeParams,
+  ): Promise<CachedPrayerTimes[]> {
+    const range = resolveRange(requested.from, requested.duration);
+    const schoolId = await this.dbService.findStrategyIdByName(strategyName);
+    const city =
+      'city' in requested && requested.city && requested.country
+        ? await this.dbService.findCity(requested.city, requested.country)
+        : null;
+    const profile = cityPrayerSettings(city);
+    const settings = mergePrayerSettings(profile, requested);
+    const params = { ...requested, ...settings };
+    const cityId = city?.id ?? null;
+
+    if (
+      schoolId === null ||
+      cityId === null ||
+      !sameCalculation(profile, requested)
+    ) {
+      this.logger.debug(
+        `No cache key for strategy=${strategyName}; fetching upstream.`,
+      );
+      const { provider, days } = await this.athanService.executeStrategy(
+        strategyName,
+        params,
+      );
+      return applyOffsets(
+        days
+          .filter((row) => inRange(fromAladhanDate(row.date), range))
+          .map((row) => ({ ...row, source: 'upstream', provider })),
+        settings.offsets,
+      );
+    }
+
+    const cached = await this.dbService.findCalendarRows(
+      schoolId,
+      cityId,
+      range.from,
+      range.to,
+    );
+    const missing = listDays(range).filter((day) => !cached.has(day));
+    this.metricsService.calendarCacheDays.inc({ result: 'hit' }, cached.size);
+    this.metricsService.calendarCacheDays.inc(
+      { result: 'miss' },
+      missing.length,
+    );
+
+    const result = new Map<string, CachedPrayerTimes>();
+    for (const [day, row] of cached) {
+      result.set(day, { ...row, source: 'cache' });
+    }
+
+    if (missing.length > 0) {
+      this.logger.log(
+        `Cache miss for ${missing.length} day(s) of strategy=${strategyName}, city_id=${cityId}.`,
+      );
+      // Only the span of the missing days, which may still include cached ones
+      const span = { from: missing[0], to: missing[missing.length - 1] };
+      const { provider, days } = await this.athanService.executeStrategy(
+        strategyName,
+        { ...params, from: span.from, duration: countDays(span) },
+      );
+      const fetched = days.filter((row) =>
+        missing.includes(fromAladhanDate(row.date)),
+      );
+      for (const row of fetched) {
+        result.set(fromAladhanDate(row.date), {
+          ...row,
+          source: 'upstream',
+          provider,
+        });
+      }
+
+      if (fetched.length > 0) {
+        try {
+          await this.dbService.upsertCalendarRows(
+            schoolId,
+            cityId,
+            fetched,
+            provider,
+          );
+        } catch (error) {
+          // Serving the request matters more than filling the cache
+          this.logger.error('Failed to persist fetched prayer times:', error);
+        }
+      }
+    }
+
+    return applyOffsets(
+      [...result.keys()].sort().map((day) => result.get(day)!),
+      settings.offsets,
+    );
+  }
+}
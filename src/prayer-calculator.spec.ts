@@ -0,0 +1,136 @@
+import {
+  CALCULATION_METHODS,
+  calculatePrayerTimes,
+  calculatePrayerTimesRange,
+  timezoneOffsetMinutes,
+} from './prayer-calculator';
+
+// Rabat, the only city in my_athan.sql
+const rabat = { lat: 34.0209, lon: -6.8416, timezone: 'Africa/Casablanca' };
+
+const toMinutes = (timing: string) => {
+  const [h, m] = timing.slice(0, 5).split(':').map(Number);
+  return h * 60 + m;
+};
+
+describe('prayer-calculator', () => {
+  describe('calculatePrayerTimes', () => {
+    it('should match the Aladhan MAKKAH timings stored for Rabat on 2025-09-01', () => {
+      const day = calculatePrayerTimes(new Date(Date.UTC(2025, 8, 1)), {
+        ...rabat,
+        method: CALCULATION_METHODS.MAKKAH,
+      });
+      const expected = {
+        Fajr: '05:32',
+        Shurooq: '07:01',
+        Dhuhr: '13:27',
+        Asr: '17:05',
+        Maghrib: '19:53',
+        Isha: '21:23',
+      };
+
+      expect(day.date).toBe('01-09-2025');
+      for (const [prayer, time] of Object.entries(expected)) {
+        const actual = day.timings[prayer as keyof typeof expected];
+        expect(actual).toMatch(/^\d{2}:\d{2} \(\+01\)$/);
+        expect(
+          Math.abs(toMinutes(actual) - toMinutes(time)),
+        ).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should place Fajr earlier for larger twilight angles', () => {
+      const date = new Date(Date.UTC(2025, 8, 1));
+      const egypt = calculatePrayerTimes(date, {
+        ...rabat,
+        method: CALCULATION_METHODS.EGYPT,
+      });
+      const isna = calculatePrayerTimes(date, {
+        ...rabat,
+        method: CALCULATION_METHODS.ISNA,
+      });
+
+      expect(toMinutes(egypt.timings.Fajr)).toBeLessThan(
+        toMinutes(isna.timings.Fajr),
+      );
+    });
+
+    it('should place the Hanafi Asr after the Shafi one', () => {
+      const date = new Date(Date.UTC(2025, 8, 1));
+      const options = { ...rabat, method: CALCULATION_METHODS.MWL };
+      const shafi = calculatePrayerTimes(date, options);
+      const hanafi = calculatePrayerTimes(date, { ...options, asr: 'hanafi' });
+
+      expect(toMinutes(hanafi.timings.Asr)).toBeGreaterThan(
+        toMinutes(shafi.timings.Asr) + 30,
+      );
+      expect(hanafi.timings.Dhuhr).toBe(shafi.timings.Dhuhr);
+    });
+
+    it('should bound Fajr and Isha where twilight lasts all night', () => {
+      // Oslo at the summer solstice: the sun never goes 18 degrees below the horizon
+      const date = new Date(Date.UTC(2025, 5, 21));
+      const oslo = {
+        lat: 59.9139,
+        lon: 10.7522,
+        timezone: 'Europe/Oslo',
+        method: CALCULATION_METHODS.MWL,
+      };
+
+      const unbounded = calculatePrayerTimes(date, oslo);
+      const bounded = calculatePrayerTimes(date, {
+        ...oslo,
+        highLatitudeRule: 'one-seventh',
+      });
+
+      expect(unbounded.timings.Fajr).toBe('--:--');
+      const night =
+        toMinutes(bounded.timings.Shurooq) +
+        24 * 60 -
+        toMinutes(bounded.timings.Maghrib);
+      expect(
+        toMinutes(bounded.timings.Shurooq) - toMinutes(bounded.timings.Fajr),
+      ).toBeCloseTo(night / 7, -1);
+    });
+
+    it('should match PrayTimes.org for Fajr and Isha in Oslo at the equinox', () => {
+      // The declination moves fastest at the equinoxes, and high latitudes magnify it
+      const day = calculatePrayerTimes(new Date(Date.UTC(2025, 2, 20)), {
+        lat: 59.9139,
+        lon: 10.7522,
+        timezone: 'Europe/Oslo',
+        method: CALCULATION_METHODS.MWL,
+      });
+
+      expect(day.timings.Fajr).toBe('03:53 (+01)');
+      expect(day.timings.Isha).toBe('20:48 (+01)');
+    });
+  });
+
+  describe('calculatePrayerTimesRange', () => {
+    it('should return consecutive days across a month boundary', () => {
+      const days = calculatePrayerTimesRange(
+        new Date(Date.UTC(2025, 0, 30)),
+        3,
+        { ...rabat, method: CALCULATION_METHODS.MWL },
+      );
+
+      expect(days.map((d) => d.date)).toEqual([
+        '30-01-2025',
+        '31-01-2025',
+        '01-02-2025',
+      ]);
+    });
+  });
+
+  describe('timezoneOffsetMinutes', () => {
+    it('should follow daylight saving transitions', () => {
+      expect(
+        timezoneOffsetMinutes('Europe/Paris', new Date('2025-01-15T12:00:00Z')),
+      ).toBe(60);
+      expect(
+        timezoneOffsetMinutes('Europe/Paris', new Date('2025-07-15T12:00:00Z')),
+      ).toBe(120);
+    });
+  });
+});
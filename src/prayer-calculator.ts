@@ -0,0 +1,318 @@
+/**
+ * Offline prayer-time calculation.
+ *
+ * Implements the classic PrayTimes.org formulas (solar declination, equation
+ * of time and twilight angles) so that prayer times can be produced without
+ * calling api.aladhan.com. Results use the same `{ date, timings }` shape as
+ * `PrayerService.fetchData`.
+ */
+
+/**
+ * Twilight parameters of a calculation method.
+ * `fajr` and `isha` are angles in degrees below the horizon; when `ishaMinutes`
+ * is set, Isha is that many minutes after Maghrib instead.
+ */
+export interface CalculationMethod {
+  fajr: number;
+  isha?: number;
+  ishaMinutes?: number;
+  maghribAngle?: number;
+  maghribMinutes?: number;
+}
+
+/**
+ * Known methods, keyed by the `athan_school.name` column.
+ */
+export const CALCULATION_METHODS: Record<string, CalculationMethod> = {
+  MWL: { fajr: 18, isha: 17 },
+  ISNA: { fajr: 15, isha: 15 },
+  EGYPT: { fajr: 19.5, isha: 17.5 },
+  MAKKAH: { fajr: 18.5, ishaMinutes: 90 },
+  KARACHI: { fajr: 18, isha: 18 },
+  TEHRAN: { fajr: 17.7, isha: 14, maghribAngle: 4.5 },
+  JAFARI: { fajr: 16, isha: 14, maghribAngle: 4 },
+  GULF: { fajr: 19.5, ishaMinutes: 90 },
+  KUWAIT: { fajr: 18, isha: 17.5 },
+  QATAR: { fajr: 18, ishaMinutes: 90 },
+  SINGAPORE: { fajr: 20, isha: 18 },
+  FRANCE: { fajr: 12, isha: 12 },
+  TURKEY: { fajr: 18, isha: 17 },
+  RUSSIA: { fajr: 16, isha: 15 },
+  MOONSIGHTING: { fajr: 18, isha: 18 },
+  DUBAI: { fajr: 18.2, isha: 18.2 },
+  JAKIM: { fajr: 20, isha: 18 },
+  TUNISIA: { fajr: 18, isha: 18 },
+  ALGERIA: { fajr: 18, isha: 17 },
+  KEMENAG: { fajr: 20, isha: 18 },
+  MOROCCO: { fajr: 19, isha: 17 },
+  PORTUGAL: { fajr: 18, ishaMinutes: 77, maghribMinutes: 3 },
+  JORDAN: { fajr: 18, isha: 18, maghribMinutes: 5 },
+};
+
+export interface PrayerTimings {
+  Fajr: string;
+  Shurooq: string;
+  Dhuhr: string;
+  Asr: string;
+  Maghrib: string;
+  Isha: string;
+}
+
+export interface DailyPrayerTimes {
+  date: string; // DD-MM-YYYY, as returned by Aladhan
+  timings: PrayerTimings;
+}
+
+/**
+ * Juristic method for Asr: the shadow is once (Shafi'i, Maliki, Hanbali) or twice (Hanafi)
+ * the length of the object.
+ */
+export type AsrSchool = 'shafi' | 'hanafi';
+
+/**
+ * How Fajr and Isha are bounded where twilight lasts all night, as in PrayTimes.org:
+ * at most half, one seventh or `angle / 60` of the night away from sunrise and sunset.
+ */
+export type HighLatitudeRule =
+  | 'none'
+  | 'middle-of-night'
+  | 'one-seventh'
+  | 'angle-based';
+
+export const ASR_SCHOOLS: AsrSchool[] = ['shafi', 'hanafi'];
+export const HIGH_LATITUDE_RULES: HighLatitudeRule[] = [
+  'none',
+  'middle-of-night',
+  'one-seventh',
+  'angle-based',
+];
+
+export interface CalculationOptions {
+  lat: number;
+  lon: number;
+  method: CalculationMethod;
+  timezone: string; // IANA zone, e.g. "Africa/Casablanca"
+  asr?: AsrSchool; // defaults to 'shafi'
+  highLatitudeRule?: HighLatitudeRule; // defaults to 'none'
+}
+
+const SUNRISE_ANGLE = 0.833;
+const ASR_FACTORS: Record<AsrSchool, number> = { shafi: 1, hanafi: 2 };
+
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+const sin = (d: number) => Math.sin(dtr(d));
+const cos = (d: number) => Math.cos(dtr(d));
+const tan = (d: number) => Math.tan(dtr(d));
+const arcsin = (x: number) => rtd(Math.asin(x));
+const arccos = (x: number) => rtd(Math.acos(x));
+const arctan2 = (y: number, x: number) => rtd(Math.atan2(y, x));
+const arccot = (x: number) => rtd(Math.atan(1 / x));
+const fix = (a: number, b: number) => {
+  const r = a - b * Math.floor(a / b);
+  return r < 0 ? r + b : r;
+};
+
+function julianDate(year: number, month: number, day: number): number {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return (
+    Math.floor(365.25 * (year + 4716)) +
+    Math.floor(30.6001 * (month + 1)) +
+    day +
+    b -
+    1524.5
+  );
+}
+
+/**
+ * Solar declination (degrees) and equation of time (hours) for a julian date.
+ */
+function sunPosition(jd: number): { declination: number; equation: number } {
+  const d = jd - 2451545.0;
+  const g = fix(357.529 + 0.98560028 * d, 360);
+  const q = fix(280.459 + 0.98564736 * d, 360);
+  const l = fix(q + 1.915 * sin(g) + 0.02 * sin(2 * g), 360);
+  const e = 23.439 - 0.00000036 * d;
+
+  const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+  return {
+    declination: arcsin(sin(e) * sin(l)),
+    equation: q / 15 - fix(ra, 24),
+  };
+}
+
+/**
+ * Returns the offset (in minutes) of an IANA time zone from UTC at the given instant.
+ * @throws RangeError if the time zone is unknown.
+ */
+export function timezoneOffsetMinutes(timeZone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * Checks whether a time zone name is understood by the runtime.
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats a UTC offset the way Aladhan suffixes timings: "+01", "-03" or "+0530".
+ */
+export function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  const minutes = abs % 60;
+  return minutes === 0
+    ? `${sign}${hours}`
+    : `${sign}${hours}${String(minutes).padStart(2, '0')}`;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Calculates the prayer times of a single Gregorian day.
+ * @param date The day to compute; only its UTC year/month/day are used.
+ */
+export function calculatePrayerTimes(
+  date: Date,
+  options: CalculationOptions,
+): DailyPrayerTimes {
+  const { lat, lon, method, timezone } = options;
+  const rule = options.highLatitudeRule ?? 'none';
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+  const jd = julianDate(year, month, day) - lon / (15 * 24);
+
+  const midDay = (time: number) =>
+    fix(12 - sunPosition(jd + time / 24).equation, 24);
+  const sunAngleTime = (angle: number, time: number, ccw = false) => {
+    const decl = sunPosition(jd + time / 24).declination;
+    const t =
+      arccos((-sin(angle) - sin(decl) * sin(lat)) / (cos(decl) * cos(lat))) /
+      15;
+    return midDay(time) + (ccw ? -t : t);
+  };
+  const asrTime = (factor: number, time: number) => {
+    const decl = sunPosition(jd + time / 24).declination;
+    const angle = -arccot(factor + tan(Math.abs(lat - decl)));
+    return sunAngleTime(angle, time);
+  };
+
+  // One refinement pass starting from rough default times, as in PrayTimes.org
+  let fajr = sunAngleTime(method.fajr, 5, true);
+  const sunrise = sunAngleTime(SUNRISE_ANGLE, 6, true);
+  const dhuhr = midDay(12);
+  const asr = asrTime(ASR_FACTORS[options.asr ?? 'shafi'], 13);
+  const sunset = sunAngleTime(SUNRISE_ANGLE, 18);
+  const maghrib =
+    method.maghribAngle !== undefined
+      ? sunAngleTime(method.maghribAngle, 18)
+      : sunset + (method.maghribMinutes ?? 0) / 60;
+  let isha =
+    method.ishaMinutes !== undefined
+      ? maghrib + method.ishaMinutes / 60
+      : sunAngleTime(method.isha ?? 18, 18);
+
+  if (rule !== 'none') {
+    const night = fix(sunrise - sunset, 24);
+    const portion = (angle: number) =>
+      night *
+      (rule === 'angle-based'
+        ? angle / 60
+        : rule === 'one-seventh'
+          ? 1 / 7
+          : 1 / 2);
+    const fajrLimit = portion(method.fajr);
+    if (!Number.isFinite(fajr) || fix(sunrise - fajr, 24) > fajrLimit) {
+      fajr = sunrise - fajrLimit;
+    }
+    if (method.ishaMinutes === undefined) {
+      const ishaLimit = portion(method.isha ?? 18);
+      if (!Number.isFinite(isha) || fix(isha - sunset, 24) > ishaLimit) {
+        isha = sunset + ishaLimit;
+      }
+    }
+  }
+
+  // Times above are in local solar hours; convert them to wall-clock time in the zone.
+  const dayStart = Date.UTC(year, month - 1, day);
+  const format = (solarHours: number) => {
+    if (!Number.isFinite(solarHours)) {
+      return '--:--';
+    }
+    const utcMs = dayStart + (solarHours - lon / 15) * 3600 * 1000;
+    const offset = timezoneOffsetMinutes(timezone, new Date(utcMs));
+    const localMinutes = Math.round(utcMs / 60000) + offset;
+    const minutesOfDay = fix(localMinutes, 24 * 60);
+    return `${pad(Math.floor(minutesOfDay / 60))}:${pad(minutesOfDay % 60)} (${formatOffset(offset)})`;
+  };
+
+  return {
+    date: `${pad(day)}-${pad(month)}-${year}`,
+    timings: {
+      Fajr: format(fajr),
+      Shurooq: format(sunrise),
+      Dhuhr: format(dhuhr),
+      Asr: format(asr),
+      Maghrib: format(maghrib),
+      Isha: format(isha),
+    },
+  };
+}
+
+/**
+ * Calculates prayer times for `duration` consecutive days starting at `start`.
+ */
+export function calculatePrayerTimesRange(
+  start: Date,
+  duration: number,
+  options: CalculationOptions,
+): DailyPrayerTimes[] {
+  const result: DailyPrayerTimes[] = [];
+  for (let i = 0; i < duration; i++) {
+    const day = new Date(
+      Date.UTC(
+        start.getUTCFullYear(),
+        start.getUTCMonth(),
+        start.getUTCDate() + i,
+      ),
+    );
+    result.push(calculatePrayerTimes(day, options));
+  }
+  return result;
+}
@@ -0,0 +1,69 @@
+import type { PrayerTimeParams } from './athan.service';
+import { CALCULATION_METHODS } from './prayer-calculator';
+import type { DailyPrayerTimes } from './prayer-calculator';
+
+/**
+ * Upstream sources of prayer times. Each `athan_school` lists the providers able to
+ * serve it in `athan_school_provider`, with provider specific settings (e.g. the Aladhan
+ * method number); AthanService tries them by descending priority until one succeeds.
+ */
+
+export type ProviderSettings = Record<string, string | number>;
+
+export interface PrayerTimeProvider {
+  readonly name: string; // stored in athan_school_provider.provider and athan_calendar.provider
+
+  /**
+   * Whether the request carries what the provider needs, e.g. coordinates for a local calculation.
+   */
+  canServe(params: PrayerTimeParams, settings: ProviderSettings): boolean;
+
+  getPrayerTimes(
+    params: PrayerTimeParams,
+    settings: ProviderSettings,
+  ): Promise<DailyPrayerTimes[]>;
+}
+
+export interface ProviderConfig {
+  provider: string;
+  settings: ProviderSettings;
+}
+
+export interface ProviderFailure {
+  provider: string;
+  error: string;
+}
+
+export interface ProviderResult {
+  provider: string; // the provider that served the days
+  days: DailyPrayerTimes[];
+  failures: ProviderFailure[]; // providers tried before it
+}
+
+/**
+ * Provider chain implied by a strategy name, for strategies without `athan_school_provider` rows:
+ * `athan-api-<method>` is served by Aladhan, `athan-local-<school>` by the offline calculation
+ * (for schools with a known method) and `athan-official-<school>` by the timetable imported
+ * under that school.
+ */
+export function providersFromStrategyName(
+  strategyName: string,
+): ProviderConfig[] {
+  const api = /^athan-api-(\d+)$/i.exec(strategyName);
+  if (api) {
+    return [{ provider: 'aladhan', settings: { method: Number(api[1]) } }];
+  }
+  const local = /^athan-local-(\w+)$/i.exec(strategyName);
+  if (local && local[1].toUpperCase() in CALCULATION_METHODS) {
+    return [
+      { provider: 'local', settings: { school: local[1].toUpperCase() } },
+    ];
+  }
+  const official = /^athan-official-(\w+)$/i.exec(strategyName);
+  if (official) {
+    return [
+      { provider: 'official', settings: { school: official[1].toUpperCase() } },
+    ];
+  }
+  return [];
+}
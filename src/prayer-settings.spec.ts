@@ -0,0 +1,48 @@
+import {
+  applyOffsets,
+  mergePrayerSettings,
+  sameCalculation,
+} from './prayer-settings';
+
+describe('prayer-settings', () => {
+  const day = {
+    date: '01-03-2025',
+    timings: {
+      Fajr: '06:21 (+01)',
+      Shurooq: '07:46 (+01)',
+      Dhuhr: '13:40 (+01)',
+      Asr: '16:57 (+01)',
+      Maghrib: '19:27 (+01)',
+      Isha: '23:58 (+01)',
+    },
+    provider: 'aladhan',
+  };
+
+  it('should shift prayers by their offsets and keep the zone suffix', () => {
+    const [shifted] = applyOffsets([day], { Maghrib: 5, Isha: 3, Fajr: -2 });
+
+    expect(shifted.timings).toMatchObject({
+      Fajr: '06:19 (+01)',
+      Maghrib: '19:32 (+01)',
+      Isha: '00:01 (+01)',
+      Dhuhr: '13:40 (+01)',
+    });
+    expect(shifted.provider).toBe('aladhan');
+    expect(day.timings.Maghrib).toBe('19:27 (+01)');
+  });
+
+  it('should let the request override the city profile', () => {
+    const profile = { asr: 'hanafi' as const, offsets: { Maghrib: 5 } };
+
+    expect(
+      mergePrayerSettings(profile, { offsets: { Isha: 2, Maghrib: 3 } }),
+    ).toEqual({
+      asr: 'hanafi',
+      highLatitudeRule: undefined,
+      offsets: { Maghrib: 3, Isha: 2 },
+    });
+    expect(sameCalculation(profile, { asr: 'hanafi' })).toBe(true);
+    expect(sameCalculation(profile, { asr: 'shafi' })).toBe(false);
+    expect(sameCalculation({}, { highLatitudeRule: 'none' })).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import type { CityRow } from './db.service';
+import {
+  AsrSchool,
+  DailyPrayerTimes,
+  HighLatitudeRule,
+  PrayerTimings,
+} from './prayer-calculator';
+import { parseTiming } from './timing';
+
+/**
+ * Adjustments on top of a school's method, set per request or stored as a city profile.
+ * The Asr school and the high-latitude rule change the calculation itself, so stored days
+ * are computed with the city profile; minute offsets are applied when days are read,
+ * so stored days never include them.
+ */
+
+export type PrayerOffsets = Partial<Record<keyof PrayerTimings, number>>; // minutes, e.g. { Maghrib: 5 }
+
+export const MAX_OFFSET_MINUTES = 60;
+
+export interface CalculationSettings {
+  asr?: AsrSchool;
+  highLatitudeRule?: HighLatitudeRule;
+}
+
+export interface PrayerSettings extends CalculationSettings {
+  offsets?: PrayerOffsets;
+}
+
+/**
+ * The profile stored on a registered city.
+ */
+export function cityPrayerSettings(city: CityRow | null): PrayerSettings {
+  return {
+    asr: city?.asr_school ?? undefined,
+    highLatitudeRule: city?.high_latitude_rule ?? undefined,
+    offsets: city?.prayer_offsets ?? undefined,
+  };
+}
+
+/**
+ * Request settings win over the city profile; offsets are merged prayer by prayer.
+ */
+export function mergePrayerSettings(
+  profile: PrayerSettings,
+  request: PrayerSettings,
+): PrayerSettings {
+  return {
+    asr: request.asr ?? profile.asr,
+    highLatitudeRule: request.highLatitudeRule ?? profile.highLatitudeRule,
+    offsets: { ...profile.offsets, ...request.offsets },
+  };
+}
+
+/**
+ * Whether days computed with `profile` also satisfy `request`, ignoring offsets.
+ */
+export function sameCalculation(
+  profile: CalculationSettings,
+  request: CalculationSettings,
+): boolean {
+  return (
+    (request.asr ?? profile.asr ?? 'shafi') === (profile.asr ?? 'shafi') &&
+    (request.highLatitudeRule ?? profile.highLatitudeRule ?? 'none') ===
+      (profile.highLatitudeRule ?? 'none')
+  );
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Shifts a timing by some minutes, wrapping around midnight; "--:--" is kept as is.
+ */
+export function shiftTiming(value: string, minutes: number): string {
+  if (!minutes || value.startsWith('--')) {
+    return value;
+  }
+  const { hour, minute } = parseTiming(value);
+  const total = (((hour * 60 + minute + minutes) % 1440) + 1440) % 1440;
+  // Keep the zone suffix, e.g. "05:26 (+01)" shifted by 5 gives "05:31 (+01)"
+  return value.replace(
+    /^\s*\d{1,2}:\d{2}/,
+    `${pad(Math.floor(total / 60))}:${pad(total % 60)}`,
+  );
+}
+
+/**
+ * Shifts each prayer by its offset, keeping any other field of the rows.
+ */
+export function applyOffsets<T extends DailyPrayerTimes>(
+  days: T[],
+  offsets?: PrayerOffsets,
+): T[] {
+  if (!offsets || Object.values(offsets).every((minutes) => !minutes)) {
+    return days;
+  }
+  return days.map((day) => {
+    const timings = { ...day.timings };
+    for (const [prayer, minutes] of Object.entries(offsets) as [
+      keyof PrayerTimings,
+      number,
+    ][]) {
+      if (timings[prayer]) {
+        timings[prayer] = shiftTiming(timings[prayer], minutes);
+      }
+    }
+    return { ...day, timings };
+  });
+}
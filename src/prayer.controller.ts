@@ -1,73 +1,463 @@
-import { Controller, Get, Query } from '@nestjs/common';
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  NotFoundException,
+  Post,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { RateLimited, RequireRole } from './auth';
 import { PrayerService } from './prayer.service';
-import { AthanService } from './athan.service';
-import { DbService } from './db.service';
+import { AthanService, PrayerTimeParams } from './athan.service';
+import { CityRow, DbService } from './db.service';
+import { PrayerCacheService } from './prayer-cache.service';
+import { LocationService } from './location.service';
+import {
+  addDays,
+  countDays,
+  DateRange,
+  formatIsoDate,
+  rangeFromQuery,
+  today,
+} from './date-range';
+import {
+  ResolvedSchool,
+  SchoolResolverService,
+} from './school-resolver.service';
+import { findPrayerStatus } from './next-prayer';
+import { renderPrayerCalendar } from './ical';
+import { MethodComparisonService } from './method-comparison.service';
+import { HijriService } from './calendar.service';
+import { findQibla } from './qibla';
+import { GeocodingService } from './geocoding.service';
+import { TimetableExportService } from './timetable-export.service';
+import { renderTimetableCsv, renderTimetablePdf } from './timetable-export';
+import { withNormalizedTimes } from './timing';
+import {
+  CalendarFeedQueryDto,
+  CityQueryDto,
+  CompareQueryDto,
+  CoordinatesQueryDto,
+  ExecuteStrategyQueryDto,
+  NextPrayerQueryDto,
+  PrayerSettingsQueryDto,
+  QiblaQueryDto,
+  TimetableExportQueryDto,
+} from './prayer.dto';
+import {
+  applyOffsets,
+  cityPrayerSettings,
+  mergePrayerSettings,
+  PrayerSettings,
+  sameCalculation,
+} from './prayer-settings';
+
+/**
+ * Builds the day range of a request; see rangeFromQuery.
+ * @param defaultDays Length of the range starting today when no bound is given,
+ *                    instead of the current month.
+ * @throws BadRequestException when the bounds are inconsistent.
+ */
+function toRange(
+  query: { from?: string; to?: string; duration?: number },
+  defaultDays?: number,
+): DateRange {
+  const duration =
+    query.duration ??
+    (defaultDays && !query.from && !query.to ? defaultDays : undefined);
+  try {
+    return rangeFromQuery(query.from, query.to, duration?.toString());
+  } catch (error) {
+    throw new BadRequestException((error as Error).message);
+  }
+}
+
+/**
+ * Returns the country of a city request, which may be omitted for registered cities.
+ * @throws BadRequestException when it is missing for an unregistered city.
+ */
+function requireCountry(
+  country: string | undefined,
+  resolved: ResolvedSchool,
+): string {
+  const countryName = country || resolved.city?.country_name;
+  if (!countryName) {
+    throw new BadRequestException(
+      'Country is required for cities that are not registered',
+    );
+  }
+  return countryName;
+}
+
+/**
+ * Strategy parameters serving coordinates as a registered city, see GeocodingService.
+ * The city's own coordinates are used, so its stored days stay consistent.
+ */
+function cityLocation(city: CityRow) {
+  return {
+    city: city.name,
+    country: city.country_name,
+    lat: city.latitude!,
+    lon: city.longitude!,
+    timezone: city.timezone ?? undefined,
+  };
+}
+
+/**
+ * The adjustments requested in the query string, see PrayerSettingsQueryDto.
+ */
+function toSettings(query: PrayerSettingsQueryDto): PrayerSettings {
+  return {
+    asr: query.asr,
+    highLatitudeRule: query.high_latitude,
+    offsets: query.offsets,
+  };
+}
 
 @Controller('prayer')
+@RateLimited()
 export class PrayerController {
-  constructor(private readonly prayerService: PrayerService, private readonly dbService: DbService, private readonly athanService: AthanService) { }
+  constructor(
+    private readonly prayerService: PrayerService,
+    private readonly dbService: DbService,
+    private readonly athanService: AthanService,
+    private readonly prayerCacheService: PrayerCacheService,
+    private readonly schoolResolver: SchoolResolverService,
+    private readonly locationService: LocationService,
+    private readonly methodComparisonService: MethodComparisonService,
+    private readonly hijriService: HijriService,
+    private readonly geocodingService: GeocodingService,
+    private readonly timetableExportService: TimetableExportService,
+  ) {}
 
   @Get('by-coordinates')
-  async getByCoordinates(
-    @Query('lat') lat: string,
-    @Query('lon') lon: string,
-    @Query('method') method = '2', // Default: Muslim World League
-  ) {
-    const latitude = parseFloat(lat);
-    const longitude = parseFloat(lon);
-    const calcMethod = parseInt(method, 10);
-
-    if (isNaN(latitude) || isNaN(longitude)) {
-      return { error: 'Invalid latitude or longitude' };
+  async getByCoordinates(@Query() query: CoordinatesQueryDto) {
+    const range = toRange(query);
+    const nearest = await this.geocodingService.findNearestCity(
+      query.lat,
+      query.lon,
+    );
+    const resolved = await this.schoolResolver.resolve({
+      school: query.school,
+      method: query.method,
+      city: nearest?.city.name,
+      country: nearest?.city.country_name,
+    });
+
+    const zone = nearest?.city.timezone ?? query.timezone ?? null;
+
+    const days = await this.prayerCacheService.getPrayerTimes(
+      resolved.school.startegy_name,
+      {
+        ...toSettings(query),
+        ...(nearest
+          ? cityLocation(nearest.city)
+          : { lat: query.lat, lon: query.lon, timezone: zone ?? undefined }),
+        from: range.from,
+        duration: countDays(range),
+      },
+    );
+    // Away from any city, Hijri dates follow the default calendar
+    return withNormalizedTimes(
+      await this.hijriService.withHijriDates(
+        days,
+        nearest?.city.country_id ?? 0,
+      ),
+      zone,
+      query.clock,
+    );
+  }
+
+  /**
+   * Great-circle direction of and distance to the Kaaba from coordinates or a
+   * registered city, with the compass bearing when `magnetic` is set.
+   */
+  @Get('qibla')
+  async getQibla(@Query() query: QiblaQueryDto) {
+    const { city, lat, lon } = query;
+    if (lat !== undefined && lon !== undefined) {
+      return findQibla(lat, lon, query.magnetic ? new Date() : undefined);
+    }
+    if (!city) {
+      throw new BadRequestException(
+        'Provide either city (and country) or lat and lon',
+      );
     }
 
-    return this.prayerService.getByCoordinates(latitude, longitude, calcMethod);
+    const registered = await this.dbService.findCity(city, query.country);
+    if (!registered) {
+      throw new NotFoundException(`City "${city}" is not registered`);
+    }
+    if (registered.latitude === null || registered.longitude === null) {
+      throw new NotFoundException(`City "${city}" has no coordinates`);
+    }
+    return {
+      city: registered.name,
+      country: registered.country_name,
+      ...findQibla(
+        registered.latitude,
+        registered.longitude,
+        query.magnetic ? new Date() : undefined,
+      ),
+    };
   }
 
   @Get('by-city')
-  async getByCity(
-    @Query('city') city: string,
-    @Query('country') country: string,
-    @Query('method') method = '2', // Default: Muslim World League
-  ) {
-    if (!city || !country) {
-      return { error: 'City and country are required' };
+  async getByCity(@Query() query: CityQueryDto) {
+    const range = toRange(query);
+    const resolved = await this.schoolResolver.resolve(query);
+    const countryName = requireCountry(query.country, resolved);
+
+    const days = await this.prayerCacheService.getPrayerTimes(
+      resolved.school.startegy_name,
+      {
+        ...toSettings(query),
+        city: query.city,
+        country: countryName,
+        from: range.from,
+        duration: countDays(range),
+      },
+    );
+    const countryId =
+      resolved.city?.country_id ??
+      (await this.dbService.findCountryByName(countryName))?.id ??
+      0;
+    return withNormalizedTimes(
+      await this.hijriService.withHijriDates(days, countryId),
+      resolved.city?.timezone ?? query.timezone ?? null,
+      query.clock,
+    );
+  }
+
+  /**
+   * Current prayer window and next prayer for a city or coordinates,
+   * at `at` (an ISO 8601 instant) or now.
+   */
+  @Get('next')
+  async getNextPrayer(@Query() query: NextPrayerQueryDto) {
+    const now = query.at ? new Date(query.at) : new Date();
+    const { city, lat, lon } = query;
+    if (!city && (lat === undefined || lon === undefined)) {
+      throw new BadRequestException(
+        'Provide either city (and country) or lat and lon',
+      );
     }
 
-    const calcMethod = parseInt(method, 10);
-    return this.prayerService.getByCity(city, country, calcMethod);
+    const nearest = city
+      ? null
+      : await this.geocodingService.findNearestCity(lat!, lon!);
+    const resolved = await this.schoolResolver.resolve({
+      ...query,
+      city: city ?? nearest?.city.name,
+      country: city ? query.country : nearest?.city.country_name,
+    });
+    const zone = resolved.city?.timezone ?? query.timezone ?? null;
+    // The day before and two days after the UTC date cover the rollover in every zone
+    const from = addDays(formatIsoDate(now), -1);
+    const days = await this.prayerCacheService.getPrayerTimes(
+      resolved.school.startegy_name,
+      city
+        ? {
+            ...toSettings(query),
+            city,
+            country: requireCountry(query.country, resolved),
+            from,
+            duration: 4,
+          }
+        : {
+            ...toSettings(query),
+            ...(nearest
+              ? cityLocation(nearest.city)
+              : { lat: lat!, lon: lon!, timezone: zone ?? undefined }),
+            from,
+            duration: 4,
+          },
+    );
+
+    const status = findPrayerStatus(days, now, zone);
+    if (!status) {
+      throw new NotFoundException(
+        'No prayer times available after this instant',
+      );
+    }
+    return {
+      ...status,
+      timezone: zone,
+      school: resolved.school.name,
+    };
   }
 
-  @Get('init-methods')
+  /**
+   * Calendar feed for Google/Apple Calendar subscriptions.
+   * Without from/to/duration it covers the next 30 days, so a subscription keeps rolling forward.
+   */
+  @Get('calendar.ics')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'inline; filename="prayer-times.ics"')
+  async getCalendarFeed(@Query() query: CalendarFeedQueryDto) {
+    const range = toRange(query, 30);
+    const resolved = await this.schoolResolver.resolve(query);
+    const countryName = requireCountry(query.country, resolved);
+
+    const days = await this.prayerCacheService.getPrayerTimes(
+      resolved.school.startegy_name,
+      {
+        ...toSettings(query),
+        city: query.city,
+        country: countryName,
+        from: range.from,
+        duration: countDays(range),
+      },
+    );
+    return renderPrayerCalendar(days, {
+      city: resolved.city?.name ?? query.city,
+      country: countryName,
+      school: resolved.school.name,
+      timezone: resolved.city?.timezone ?? query.timezone,
+      prayers: query.prayers,
+      alarmMinutes: query.alarm,
+    });
+  }
+
+  /**
+   * Printable month for a city or mosque, as CSV or as a one-page PDF with Jumu'ah
+   * rows shaded, Hijri dates and, for mosques, iqamah times.
+   */
+  @Get('timetable')
+  async getTimetable(@Query() query: TimetableExportQueryDto) {
+    const now = new Date();
+    const timetable = await this.timetableExportService.monthly({
+      city: query.city,
+      country: query.country,
+      school: query.school,
+      mosqueId: query.mosque_id,
+      year: query.year ?? now.getFullYear(),
+      month: query.month ?? now.getMonth() + 1,
+      iqamah: query.iqamah,
+      title: query.title,
+      subtitle: query.subtitle,
+      clock: query.clock,
+    });
+    const filename = `timetable-${timetable.year}-${String(timetable.month).padStart(2, '0')}.${query.format}`;
+    const disposition = `attachment; filename="${filename}"`;
+    return query.format === 'pdf'
+      ? new StreamableFile(renderTimetablePdf(timetable), {
+          type: 'application/pdf',
+          disposition,
+        })
+      : new StreamableFile(Buffer.from(renderTimetableCsv(timetable)), {
+          type: 'text/csv; charset=utf-8',
+          disposition,
+        });
+  }
+
+  /**
+   * Times of every school (or those listed in `schools`) for one day in a city,
+   * with the spread per prayer and each school's deviation from the city default.
+   */
+  @Get('compare')
+  async compareSchools(@Query() query: CompareQueryDto) {
+    const resolved = await this.schoolResolver.resolve({
+      city: query.city,
+      country: query.country,
+    });
+    const countryName = requireCountry(query.country, resolved);
+
+    const comparison = await this.methodComparisonService.compare({
+      city: query.city,
+      country: countryName,
+      day: query.date ?? today(),
+      schools: query.schools,
+      reference: resolved.school,
+      timeZone: resolved.city?.timezone ?? null,
+    });
+    return {
+      city: resolved.city?.name ?? query.city,
+      country: countryName,
+      timezone: resolved.city?.timezone ?? null,
+      ...comparison,
+    };
+  }
+
+  /**
+   * Registers the Aladhan calculation methods as schools; known ones are updated.
+   */
+  @Post('init-methods')
+  @HttpCode(200)
+  @RequireRole('admin')
   async initMethods() {
-    // NOTE: For this method to function correctly, DbService must be injected into
-    // PrayerController's constructor (e.g., `private readonly dbService: DbService`)
-    // and imported (e.g., `import { DbService } from './db.service';`).
-    try {
-      // Assuming DbService is injected as 'this.dbService'
-      await this.dbService.savePrayerCalculationMethods(this.prayerService);
-      return { message: 'Prayer calculation methods initialized and saved successfully.' };
-    } catch (error) {
-      console.error('Error initializing prayer methods:', error.message);
-      return { error: 'Failed to initialize prayer calculation methods.', details: error.message };
-    }
+    await this.dbService.savePrayerCalculationMethods(this.prayerService);
+    return {
+      message: 'Prayer calculation methods initialized and saved successfully.',
+    };
   }
 
+  /**
+   * Runs a strategy by name on coordinates (lat, lon, optional timezone) or a city
+   * (city, country), and stores the result when the city is registered.
+   * Each day reports the provider that served it.
+   */
+  @Post('execute-strategy')
+  @HttpCode(200)
+  @RequireRole('admin')
+  async executeStrategy(@Query() query: ExecuteStrategyQueryDto) {
+    const { strategy, lat, lon, city, country, timezone } = query;
+    const range = toRange(query);
+    const registered =
+      city && country ? await this.dbService.findCity(city, country) : null;
+    // Days are stored with the city profile, so only requests matching it are stored
+    const requested = toSettings(query);
+    const profile = cityPrayerSettings(registered);
+    const settings = mergePrayerSettings(profile, requested);
+    const common = {
+      ...settings,
+      from: range.from,
+      duration: countDays(range),
+    };
+    const cityParams = city && country ? { city, country } : {};
+
+    let params: PrayerTimeParams;
+    if (lat !== undefined && lon !== undefined) {
+      params = { lat, lon, timezone, ...cityParams, ...common };
+    } else if (city && country) {
+      params = { city, country, ...common };
+    } else {
+      throw new BadRequestException(
+        'Provide either lat and lon or city and country',
+      );
+    }
 
-  @Get('execute-strategy')
-  async executeStrategy(
-    @Query('strategy') strategy: string,
-    @Query('params') params: string,
-  ) {
-    const data = JSON.parse(params);
     const strategy_id = await this.dbService.findStrategyIdByName(strategy);
-    const city_id = await this.dbService.findCityIdByName(data['city'], data['country'],);
-    const calendar = await this.athanService.executeStrategyByName(strategy, data);
-    console.log('strategy_id',strategy_id);
-    console.log('city_id',city_id);
-    if (strategy_id !== null && city_id !== null && calendar.length > 0) {
-      this.dbService.insertData(strategy_id, city_id, calendar)
+    let city_id = registered?.id ?? null;
+    const { provider, days: calendar } =
+      await this.athanService.executeStrategy(strategy, params);
+    if (city_id === null && query.register && city && country) {
+      const created = await this.locationService.registerCity(city, country, {
+        latitude: lat,
+        longitude: lon,
+        timezone,
+      });
+      city_id = created.id;
+    }
+    if (
+      strategy_id !== null &&
+      city_id !== null &&
+      calendar.length > 0 &&
+      sameCalculation(profile, requested)
+    ) {
+      await this.dbService.upsertCalendarRows(
+        strategy_id,
+        city_id,
+        calendar,
+        provider,
+      );
     }
-    return calendar;
+    return applyOffsets(calendar, settings.offsets).map((row) => ({
+      ...row,
+      provider,
+    }));
   }
 }
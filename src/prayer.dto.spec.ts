@@ -0,0 +1,76 @@
+import { BadRequestException, ValidationPipe } from '@nestjs/common';
+import {
+  CalendarFeedQueryDto,
+  CoordinatesQueryDto,
+  ExecuteStrategyQueryDto,
+} from './prayer.dto';
+
+describe('prayer DTOs', () => {
+  const pipe = new ValidationPipe({ transform: true, whitelist: true });
+  const validate = (metatype: new () => object, value: object) =>
+    pipe.transform(value, { type: 'query', metatype });
+
+  it('should convert query strings to typed values', async () => {
+    await expect(
+      validate(CalendarFeedQueryDto, {
+        city: 'Rabat',
+        duration: '7',
+        alarm: '10',
+        prayers: 'fajr, Maghrib',
+        unknown: 'dropped',
+      }),
+    ).resolves.toMatchObject({
+      city: 'Rabat',
+      duration: 7,
+      alarm: 10,
+      prayers: ['Fajr', 'Maghrib'],
+    });
+  });
+
+  it('should parse prayer offsets and reject out of range ones', async () => {
+    await expect(
+      validate(CoordinatesQueryDto, {
+        lat: '34',
+        lon: '-6.8',
+        asr: 'hanafi',
+        offsets: 'maghrib:5, Isha:-2',
+      }),
+    ).resolves.toMatchObject({
+      asr: 'hanafi',
+      offsets: { Maghrib: 5, Isha: -2 },
+    });
+    await expect(
+      validate(CoordinatesQueryDto, {
+        lat: '34',
+        lon: '-6.8',
+        offsets: 'Asr:90',
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should list every invalid parameter', async () => {
+    const error: unknown = await validate(CoordinatesQueryDto, {
+      lat: '123',
+      lon: 'east',
+      from: '2025-02-30',
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect((error as BadRequestException).getResponse()).toMatchObject({
+      message: expect.arrayContaining([
+        'lat must not be greater than 90',
+        'lon must be a number conforming to the specified constraints',
+        'from must be a date formatted YYYY-MM-DD',
+      ]) as unknown,
+    });
+  });
+
+  it('should leave strategy names to the registered schools', async () => {
+    await expect(
+      validate(ExecuteStrategyQueryDto, { strategy: 'morocco-habous' }),
+    ).resolves.toMatchObject({ strategy: 'morocco-habous' });
+    await expect(
+      validate(ExecuteStrategyQueryDto, { strategy: '' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,402 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MAX_RANGE_DAYS } from './date-range';
+import { DEFAULT_ICAL_PRAYERS, PrayerName } from './ical';
+import { ASR_SCHOOLS, HIGH_LATITUDE_RULES } from './prayer-calculator';
+import type { AsrSchool, HighLatitudeRule } from './prayer-calculator';
+import type { PrayerOffsets } from './prayer-settings';
+import { TIMETABLE_FORMATS } from './timetable-export';
+import type { TimetableFormat } from './timetable-export';
+import { CLOCK_FORMATS } from './timing';
+import type { ClockFormat } from './timing';
+import { IsIsoDay, IsPrayerOffsets, IsTimezone } from './validation';
+
+/**
+ * Query parameters of the `/prayer` endpoints.
+ * Numbers arrive as strings and are converted by the global ValidationPipe.
+ */
+
+const PRAYER_NAMES: PrayerName[] = [...DEFAULT_ICAL_PRAYERS, 'Shurooq'];
+
+/**
+ * Splits "fajr, Maghrib" into known prayer names, matching case-insensitively.
+ * Unknown names are kept as given so validation reports them.
+ */
+function toPrayerNames({ value }: { value: unknown }): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  return value.split(',').map((name) => {
+    const trimmed = name.trim();
+    return (
+      PRAYER_NAMES.find((p) => p.toLowerCase() === trimmed.toLowerCase()) ??
+      trimmed
+    );
+  });
+}
+
+/**
+ * Splits "EGYPT, MAKKAH" into trimmed, non-empty names.
+ */
+function toList({ value }: { value: unknown }): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  return value
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '');
+}
+
+/**
+ * Parses "maghrib:5, Isha:-2" into `{ Maghrib: 5, Isha: -2 }`, matching names case-insensitively.
+ * Malformed entries are kept as given so validation reports them.
+ */
+function toOffsets({ value }: { value: unknown }): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  return Object.fromEntries(
+    value.split(',').map((entry) => {
+      const [name, minutes] = entry.split(':').map((part) => part.trim());
+      const prayer =
+        PRAYER_NAMES.find((p) => p.toLowerCase() === name.toLowerCase()) ??
+        name;
+      return [
+        prayer,
+        /^[+-]?\d+$/.test(minutes ?? '') ? Number(minutes) : minutes,
+      ];
+    }),
+  );
+}
+
+/**
+ * Adjustments applied on top of the school's method; they override the city profile.
+ */
+export class PrayerSettingsQueryDto {
+  @IsOptional()
+  @IsIn(ASR_SCHOOLS)
+  asr?: AsrSchool;
+
+  @IsOptional()
+  @IsIn(HIGH_LATITUDE_RULES)
+  high_latitude?: HighLatitudeRule;
+
+  @IsOptional()
+  @Transform(toOffsets)
+  @IsPrayerOffsets()
+  offsets?: PrayerOffsets; // e.g. "Maghrib:5,Isha:-2"
+}
+
+/**
+ * School selection and day range shared by the prayer time endpoints.
+ * `to` and `duration` are mutually exclusive; see rangeFromQuery.
+ */
+export class ScheduleQueryDto extends PrayerSettingsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  method?: number; // Aladhan method number; see school for the default
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  school?: string; // athan_school name or id; defaults to the city/country school
+
+  @IsOptional()
+  @IsIsoDay()
+  from?: string;
+
+  @IsOptional()
+  @IsIsoDay()
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RANGE_DAYS)
+  duration?: number;
+
+  @IsOptional()
+  @IsTimezone()
+  timezone?: string; // for coordinates and unregistered cities
+
+  @IsOptional()
+  @IsIn(CLOCK_FORMATS)
+  clock?: ClockFormat; // of the normalized `times`, 24h by default
+}
+
+export class CoordinatesQueryDto extends ScheduleQueryDto {
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat!: number;
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lon!: number;
+}
+
+export class CityQueryDto extends ScheduleQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  city!: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  country?: string; // Optional for registered cities
+}
+
+export class CalendarFeedQueryDto extends CityQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(1440)
+  alarm?: number; // minutes before each prayer
+
+  @IsOptional()
+  @Transform(toPrayerNames)
+  @IsIn(PRAYER_NAMES, { each: true })
+  prayers?: PrayerName[]; // comma separated, e.g. "Fajr,Maghrib"
+}
+
+/**
+ * Either `city` (and `country`) or `lat` and `lon`.
+ */
+export class NextPrayerQueryDto extends PrayerSettingsQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  country?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lon?: number;
+
+  @IsOptional()
+  @IsTimezone()
+  timezone?: string; // for coordinates and unregistered cities
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  method?: number;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  school?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  at?: string; // reference instant, defaults to now
+}
+
+/**
+ * Either `city` (a registered city) or `lat` and `lon`.
+ */
+export class QiblaQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  country?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lon?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  magnetic?: boolean; // adds the compass bearing, corrected for magnetic declination
+}
+
+/**
+ * Schools of `/prayer/compare`; every athan_school when `schools` is omitted.
+ */
+export class CompareQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  city!: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  country?: string; // Optional for registered cities
+
+  @IsOptional()
+  @IsIsoDay()
+  date?: string; // defaults to today
+
+  @IsOptional()
+  @Transform(toList)
+  @IsString({ each: true })
+  @ArrayNotEmpty()
+  schools?: string[]; // comma separated athan_school names, e.g. "EGYPT,MAKKAH"
+}
+
+export class ExecuteStrategyQueryDto extends PrayerSettingsQueryDto {
+  // Any athan_school.startegy_name; unknown names are rejected by AthanService
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  strategy!: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lon?: number;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  country?: string;
+
+  @IsOptional()
+  @IsTimezone()
+  timezone?: string;
+
+  @IsOptional()
+  @IsIsoDay()
+  from?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RANGE_DAYS)
+  duration?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  register?: boolean; // registers an unknown city so its rows are persisted
+}
+
+/**
+ * Either `city` (and `country`) or `mosque_id`; the month defaults to the current one.
+ */
+export class TimetableExportQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  city?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  country?: string; // Optional for registered cities
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  school?: string; // athan_school name or id; defaults to the city/country school
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  mosque_id?: number; // prints the mosque's school and iqamah times
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  month?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  year?: number;
+
+  @IsOptional()
+  @IsIn(TIMETABLE_FORMATS)
+  format: TimetableFormat = 'csv';
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  iqamah?: boolean; // iqamah columns, shown by default for mosques
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  title?: string; // heading of the PDF; the city or mosque name by default
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subtitle?: string; // e.g. the mosque's address or a notice
+
+  @IsOptional()
+  @IsIn(CLOCK_FORMATS)
+  clock?: ClockFormat;
+}
@@ -1,18 +1,65 @@
 import { Injectable } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
+import {
+  currentMonthRange,
+  DateRange,
+  fromAladhanDate,
+  inRange,
+  listMonths,
+} from './date-range';
+import { DailyPrayerTimes, HighLatitudeRule } from './prayer-calculator';
+import { CalculationSettings } from './prayer-settings';
+
+/**
+ * Aladhan `latitudeAdjustmentMethod` values; Aladhan applies 3 when none is sent,
+ * and has no way to disable the adjustment.
+ */
+const LATITUDE_ADJUSTMENT_METHODS: Partial<Record<HighLatitudeRule, number>> = {
+  'middle-of-night': 1,
+  'one-seventh': 2,
+  'angle-based': 3,
+};
+
+/**
+ * Query string suffix for the Asr school and the high-latitude rule, e.g. "&school=1".
+ */
+function settingsQuery(settings: CalculationSettings): string {
+  let query = settings.asr === 'hanafi' ? '&school=1' : '';
+  const adjustment =
+    settings.highLatitudeRule &&
+    LATITUDE_ADJUSTMENT_METHODS[settings.highLatitudeRule];
+  if (adjustment) {
+    query += `&latitudeAdjustmentMethod=${adjustment}`;
+  }
+  return query;
+}
+
+/**
+ * The parts of an Aladhan `/v1/calendar` day that we use.
+ */
+interface AladhanCalendarDay {
+  date: { gregorian: { date: string } }; // DD-MM-YYYY
+  timings: Record<
+    'Fajr' | 'Sunrise' | 'Dhuhr' | 'Asr' | 'Maghrib' | 'Isha',
+    string
+  >;
+}
 
 @Injectable()
 export class PrayerService {
+  // Aladhan API root, overridable to point at a mirror or a self-hosted instance
+  private readonly baseUrl =
+    process.env.ALADHAN_BASE_URL ?? 'http://api.aladhan.com/v1';
+
   constructor(private readonly httpService: HttpService) {}
 
-  private async fetchData(url: string) {
-    const response = await firstValueFrom(this.httpService.get(url));
+  private async fetchData(url: string): Promise<DailyPrayerTimes[]> {
+    const response = await firstValueFrom(
+      this.httpService.get<{ data: AladhanCalendarDay[] }>(url),
+    );
     const data = response.data.data;
-  
-    const today = new Date();
-    const next7Days = data.slice(today.getDate() - 1, today.getDate() + 6);
-  
+
     return data.map((d) => ({
       date: d.date.gregorian.date,
       timings: {
@@ -26,32 +73,71 @@ export class PrayerService {
     }));
   }
 
-  
+  /**
+   * Fetches every calendar month touched by the range and keeps only the days inside it,
+   * so ranges may span month and year boundaries.
+   * @param buildUrl Returns the monthly calendar URL for a month (1-12) and year.
+   */
+  private async fetchRange(
+    buildUrl: (month: number, year: number) => string,
+    range: DateRange,
+  ): Promise<DailyPrayerTimes[]> {
+    const months = await Promise.all(
+      listMonths(range).map(({ month, year }) =>
+        this.fetchData(buildUrl(month, year)),
+      ),
+    );
+
+    return months.flat().filter((d) => inRange(fromAladhanDate(d.date), range));
+  }
+
+  /**
+   * Requests the smallest Aladhan resource, to check the API is reachable.
+   * @returns The round trip in milliseconds.
+   */
+  async ping(timeoutMs: number): Promise<number> {
+    const start = Date.now();
+    await firstValueFrom(
+      this.httpService.get(`${this.baseUrl}/methods`, { timeout: timeoutMs }),
+    );
+    return Date.now() - start;
+  }
+
   async getMethods() {
-    const url = `http://api.aladhan.com/v1/methods`;
+    const url = `${this.baseUrl}/methods`;
     const response = await firstValueFrom(this.httpService.get(url));
     return response.data.data;
   }
 
-  async getByCoordinates(lat: number, lon: number, method: number) {
-    const today = new Date();
-    const month = today.getMonth() + 1;
-    const year = today.getFullYear();
-
-    const url = `http://api.aladhan.com/v1/calendar?latitude=${lat}&longitude=${lon}&method=${method}&month=${month}&year=${year}`;
-    return this.fetchData(url);
+  async getByCoordinates(
+    lat: number,
+    lon: number,
+    method: number,
+    range: DateRange = currentMonthRange(),
+    settings: CalculationSettings = {},
+  ): Promise<DailyPrayerTimes[]> {
+    return this.fetchRange(
+      (month, year) =>
+        `${this.baseUrl}/calendar?latitude=${lat}&longitude=${lon}&method=${method}&month=${month}&year=${year}${settingsQuery(settings)}`,
+      range,
+    );
   }
 
-  async getByCity(city: string, country: string, method: number) {
-    const today = new Date();
-    const month = today.getMonth() + 1;
-    const year = today.getFullYear();
-
-    const url = `http://api.aladhan.com/v1/calendarByCity?city=${encodeURIComponent(
-      city,
-    )}&country=${encodeURIComponent(
-      country,
-    )}&method=${method}&month=${month}&year=${year}`;
-    return this.fetchData(url);
+  async getByCity(
+    city: string,
+    country: string,
+    method: number,
+    range: DateRange = currentMonthRange(),
+    settings: CalculationSettings = {},
+  ): Promise<DailyPrayerTimes[]> {
+    return this.fetchRange(
+      (month, year) =>
+        `${this.baseUrl}/calendarByCity?city=${encodeURIComponent(
+          city,
+        )}&country=${encodeURIComponent(
+          country,
+        )}&method=${method}&month=${month}&year=${year}${settingsQuery(settings)}`,
+      range,
+    );
   }
 }
@@ -0,0 +1,106 @@
+import { rabat } from '../test/fixtures';
+import { AthanService, PrayerTimeParams } from './athan.service';
+import { AthanSchoolRow, DbService, StoredPrayerTimes } from './db.service';
+import { addDays, listDays, resolveRange, today } from './date-range';
+import { MetricsService } from './metrics.service';
+import { PrayerTimings } from './prayer-calculator';
+import { PrecomputeService } from './precompute.service';
+import { SchoolResolverService } from './school-resolver.service';
+
+describe('PrecomputeService', () => {
+  const morocco: AthanSchoolRow = {
+    id: 21,
+    name: 'MOROCCO',
+    startegy_name: 'athan-api-21',
+    description: 'MOROCCO',
+    priority: 0,
+  };
+  const timings: PrayerTimings = {
+    Fajr: '05:50 (+01)',
+    Shurooq: '07:16 (+01)',
+    Dhuhr: '13:18 (+01)',
+    Asr: '16:40 (+01)',
+    Maghrib: '19:12 (+01)',
+    Isha: '20:35 (+01)',
+  };
+  const aladhanDate = (day: string) => day.split('-').reverse().join('-');
+  const day = (n: number) => addDays(today(), n);
+
+  let db: jest.Mocked<
+    Pick<DbService, 'findAllCities' | 'findCalendarRows' | 'upsertCalendarRows'>
+  >;
+  let athan: jest.Mocked<Pick<AthanService, 'executeStrategy'>>;
+  let service: PrecomputeService;
+
+  beforeEach(() => {
+    process.env.PRECOMPUTE_DAYS = '5';
+    process.env.PRECOMPUTE_RETRIES = '1';
+    process.env.PRECOMPUTE_BACKOFF_MS = '0';
+    // The first, second and fourth days are already stored
+    const stored = new Map(
+      [day(0), day(1), day(3)].map((d): [string, StoredPrayerTimes] => [
+        d,
+        { date: aladhanDate(d), timings, provider: 'aladhan' },
+      ]),
+    );
+    db = {
+      findAllCities: jest.fn().mockResolvedValue([rabat]),
+      findCalendarRows: jest.fn().mockResolvedValue(stored),
+      upsertCalendarRows: jest.fn().mockResolvedValue(0),
+    };
+    athan = {
+      executeStrategy: jest.fn((_name: string, params: PrayerTimeParams) =>
+        Promise.resolve({
+          provider: 'aladhan',
+          failures: [],
+          days: listDays(resolveRange(params.from, params.duration)).map(
+            (d) => ({ date: aladhanDate(d), timings }),
+          ),
+        }),
+      ),
+    };
+    const resolver = {
+      resolve: jest.fn().mockResolvedValue({ school: morocco }),
+    };
+    service = new PrecomputeService(
+      db as unknown as DbService,
+      athan as unknown as AthanService,
+      resolver as unknown as SchoolResolverService,
+      new MetricsService(),
+    );
+  });
+
+  afterEach(() => {
+    delete process.env.PRECOMPUTE_DAYS;
+    delete process.env.PRECOMPUTE_RETRIES;
+    delete process.env.PRECOMPUTE_BACKOFF_MS;
+  });
+
+  it('only requests and stores the missing days', async () => {
+    const run = await service.run();
+
+    expect(athan.executeStrategy).toHaveBeenCalledTimes(1);
+    expect(athan.executeStrategy).toHaveBeenCalledWith(
+      'athan-api-21',
+      expect.objectContaining({ from: day(2), duration: 3 }),
+    );
+    const rows = db.upsertCalendarRows.mock.calls[0][2];
+    expect(rows.map((row) => row.date)).toEqual([
+      aladhanDate(day(2)),
+      aladhanDate(day(4)),
+    ]);
+    expect(run).toMatchObject({ tasks: 1, succeeded: 1, daysFilled: 2 });
+  });
+
+  it('records the attempts of tasks failing every retry', async () => {
+    athan.executeStrategy.mockRejectedValue(new Error('upstream down'));
+
+    const run = await service.run();
+
+    expect(run).toMatchObject({ succeeded: 0, failed: 1, daysFilled: 0 });
+    expect(athan.executeStrategy).toHaveBeenCalledTimes(2);
+    expect(service.getStatus().failures).toEqual([
+      expect.objectContaining({ city: 'Rabat', attempts: 2 }),
+    ]);
+  });
+});
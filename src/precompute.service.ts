@@ -0,0 +1,329 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { AthanService, PrayerTimeParams } from './athan.service';
+import { AthanSchoolRow, CityRow, DbService } from './db.service';
+import { SchoolResolverService } from './school-resolver.service';
+import {
+  addDays,
+  countDays,
+  DateRange,
+  fromAladhanDate,
+  listDays,
+  today,
+} from './date-range';
+import { retryWithBackoff, runWithConcurrency } from './retry';
+import { cityPrayerSettings } from './prayer-settings';
+import { MetricsService } from './metrics.service';
+
+interface PrecomputeConfig {
+  enabled: boolean;
+  intervalMinutes: number;
+  initialDelaySeconds: number;
+  days: number;
+  concurrency: number;
+  retries: number;
+  backoffMs: number;
+  schools: string; // 'default', 'all' or a comma separated list of athan_school names
+}
+
+interface PrecomputeTask {
+  city: CityRow;
+  school: AthanSchoolRow;
+}
+
+export interface PrecomputeFailure {
+  city_id: number;
+  city: string;
+  school: string;
+  attempts: number;
+  error: string;
+  at: string;
+}
+
+export interface CoverageGap {
+  city_id: number;
+  city: string;
+  school: string;
+  missingDays: string[];
+}
+
+export interface PrecomputeRun {
+  startedAt: string;
+  finishedAt: string | null;
+  range: DateRange;
+  tasks: number;
+  succeeded: number;
+  failed: number;
+  daysFilled: number;
+}
+
+export interface PrecomputeStatus {
+  enabled: boolean;
+  running: boolean;
+  intervalMinutes: number;
+  nextRunAt: string | null;
+  lastRun: PrecomputeRun | null;
+  failures: PrecomputeFailure[];
+  gaps: CoverageGap[];
+}
+
+function loadConfig(): PrecomputeConfig {
+  return {
+    enabled: process.env.PRECOMPUTE_ENABLED === 'true',
+    intervalMinutes: parseInt(
+      process.env.PRECOMPUTE_INTERVAL_MINUTES || '1440',
+      10,
+    ),
+    initialDelaySeconds: parseInt(
+      process.env.PRECOMPUTE_INITIAL_DELAY_SECONDS || '60',
+      10,
+    ),
+    days: parseInt(process.env.PRECOMPUTE_DAYS || '30', 10),
+    concurrency: parseInt(process.env.PRECOMPUTE_CONCURRENCY || '2', 10),
+    retries: parseInt(process.env.PRECOMPUTE_RETRIES || '3', 10),
+    backoffMs: parseInt(process.env.PRECOMPUTE_BACKOFF_MS || '2000', 10),
+    schools: process.env.PRECOMPUTE_SCHOOLS || 'default',
+  };
+}
+
+/**
+ * Background job filling `athan_calendar` for every registered city × applicable school
+ * over the next `PRECOMPUTE_DAYS` days, so requests are served from the cache.
+ * Only scheduled with `PRECOMPUTE_ENABLED=true`, e.g. in a single worker process.
+ */
+@Injectable()
+export class PrecomputeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PrecomputeService.name);
+  private readonly config = loadConfig();
+  private timer: NodeJS.Timeout | null = null;
+  private nextRunAt: Date | null = null;
+  private running: Promise<PrecomputeRun> | null = null;
+  private lastRun: PrecomputeRun | null = null;
+  private failures: PrecomputeFailure[] = [];
+  private gaps: CoverageGap[] = [];
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly athanService: AthanService,
+    private readonly schoolResolver: SchoolResolverService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.config.enabled || this.config.intervalMinutes <= 0) {
+      this.logger.log('Calendar pre-computation is disabled.');
+      return;
+    }
+    this.schedule(this.config.initialDelaySeconds * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(): PrecomputeStatus {
+    return {
+      enabled: this.config.enabled,
+      running: this.running !== null,
+      intervalMinutes: this.config.intervalMinutes,
+      nextRunAt: this.nextRunAt?.toISOString() ?? null,
+      lastRun: this.lastRun,
+      failures: this.failures,
+      gaps: this.gaps,
+    };
+  }
+
+  /**
+   * Starts a run, or joins the one already in progress.
+   */
+  async run(): Promise<PrecomputeRun> {
+    if (!this.running) {
+      this.running = this.execute().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private schedule(delayMs: number) {
+    this.nextRunAt = new Date(Date.now() + delayMs);
+    this.timer = setTimeout(() => {
+      this.run()
+        .catch((error) =>
+          this.logger.error('Calendar pre-computation failed:', error),
+        )
+        .finally(() => this.schedule(this.config.intervalMinutes * 60 * 1000));
+    }, delayMs);
+    // Never keep the process alive just for the schedule
+    this.timer.unref();
+  }
+
+  private async execute(): Promise<PrecomputeRun> {
+    const start = today();
+    const range = { from: start, to: addDays(start, this.config.days - 1) };
+    const run: PrecomputeRun = {
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      range,
+      tasks: 0,
+      succeeded: 0,
+      failed: 0,
+      daysFilled: 0,
+    };
+    this.lastRun = run;
+    const failures: PrecomputeFailure[] = [];
+    const gaps: CoverageGap[] = [];
+
+    const tasks = await this.buildTasks();
+    run.tasks = tasks.length;
+    this.logger.log(
+      `Pre-computing ${tasks.length} city/school pair(s) for ${range.from}..${range.to}.`,
+    );
+
+    await runWithConcurrency(tasks, this.config.concurrency, async (task) => {
+      let attempts = 0;
+      try {
+        run.daysFilled += await retryWithBackoff(
+          () => {
+            attempts++;
+            return this.fill(task, range);
+          },
+          this.config.retries,
+          this.config.backoffMs,
+          (error, attempt) =>
+            this.logger.warn(
+              `Retrying ${task.city.name}/${task.school.name} (attempt ${attempt}): ${describe(error)}`,
+            ),
+        );
+        run.succeeded++;
+      } catch (error) {
+        run.failed++;
+        failures.push({
+          city_id: task.city.id,
+          city: task.city.name,
+          school: task.school.name,
+          attempts,
+          error: describe(error),
+          at: new Date().toISOString(),
+        });
+      }
+
+      const missing = await this.findMissingDays(task, range).catch((error) => {
+        this.logger.error('Failed to check calendar coverage:', error);
+        return [];
+      });
+      if (missing.length > 0) {
+        gaps.push({
+          city_id: task.city.id,
+          city: task.city.name,
+          school: task.school.name,
+          missingDays: missing,
+        });
+      }
+    });
+
+    run.finishedAt = new Date().toISOString();
+    this.failures = failures;
+    this.gaps = gaps;
+    this.metricsService.recordJobRun('precompute', {
+      succeeded: run.succeeded,
+      failed: run.failed,
+    });
+    this.logger.log(
+      `Pre-computation finished: ${run.succeeded} succeeded, ${run.failed} failed, ${run.daysFilled} day(s) filled.`,
+    );
+    return run;
+  }
+
+  /**
+   * Lists the city × school pairs to fill according to PRECOMPUTE_SCHOOLS.
+   */
+  private async buildTasks(): Promise<PrecomputeTask[]> {
+    const cities = await this.dbService.findAllCities();
+    const mode = this.config.schools.trim().toLowerCase();
+
+    if (mode === 'default') {
+      const tasks: PrecomputeTask[] = [];
+      for (const city of cities) {
+        const { school } = await this.schoolResolver.resolve({
+          city: city.name,
+          country: city.country_name,
+        });
+        tasks.push({ city, school });
+      }
+      return tasks;
+    }
+
+    const allSchools = await this.dbService.findAllSchools();
+    const wanted = mode.split(',').map((name) => name.trim());
+    const schools =
+      mode === 'all'
+        ? allSchools
+        : allSchools.filter((s) => wanted.includes(s.name.toLowerCase()));
+    return cities.flatMap((city) =>
+      schools.map((school) => ({ city, school })),
+    );
+  }
+
+  private async findMissingDays(
+    task: PrecomputeTask,
+    range: DateRange,
+  ): Promise<string[]> {
+    const stored = await this.dbService.findCalendarRows(
+      task.school.id,
+      task.city.id,
+      range.from,
+      range.to,
+    );
+    return listDays(range).filter((day) => !stored.has(day));
+  }
+
+  /**
+   * Fetches and stores the days missing for one city/school pair.
+   * @returns The number of days stored.
+   */
+  private async fill(task: PrecomputeTask, range: DateRange): Promise<number> {
+    const missing = await this.findMissingDays(task, range);
+    if (missing.length === 0) {
+      return 0;
+    }
+
+    const span = { from: missing[0], to: missing[missing.length - 1] };
+    const params: PrayerTimeParams = {
+      ...cityPrayerSettings(task.city),
+      city: task.city.name,
+      country: task.city.country_name,
+      from: span.from,
+      duration: countDays(span),
+    };
+
+    // Providers needing coordinates get them from the registered city
+    const { provider, days } = await this.athanService.executeStrategy(
+      task.school.startegy_name,
+      params,
+    );
+    const rows = days.filter((row) =>
+      missing.includes(fromAladhanDate(row.date)),
+    );
+    if (rows.length > 0) {
+      await this.dbService.upsertCalendarRows(
+        task.school.id,
+        task.city.id,
+        rows,
+        provider,
+      );
+    }
+    return rows.length;
+  }
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,29 @@
+import { magneticDeclination } from './geomagnetism';
+import { distanceToKaaba, findQibla, qiblaBearing } from './qibla';
+
+describe('qibla', () => {
+  it('points along the great circle to the Kaaba', () => {
+    expect(qiblaBearing(51.5074, -0.1278)).toBeCloseTo(118.99, 1); // London
+    expect(qiblaBearing(40.7128, -74.006)).toBeCloseTo(58.48, 1); // New York
+    expect(qiblaBearing(-6.2088, 106.8456)).toBeCloseTo(295.15, 1); // Jakarta
+  });
+
+  it('measures the distance to the Kaaba', () => {
+    expect(distanceToKaaba(40.7128, -74.006)).toBeGreaterThan(10250);
+    expect(distanceToKaaba(40.7128, -74.006)).toBeLessThan(10350);
+    expect(distanceToKaaba(21.422487, 39.826206)).toBe(0);
+  });
+
+  it('corrects the bearing for magnetic declination', () => {
+    const at = new Date('2025-01-01T00:00:00Z');
+    // Published WMM declinations: about -13° in New York, +13° in Sydney
+    expect(magneticDeclination(40.7128, -74.006, at)).toBeCloseTo(-12.5, 0);
+    expect(magneticDeclination(-33.8688, 151.2093, at)).toBeCloseTo(12.8, 0);
+
+    const qibla = findQibla(40.7128, -74.006, at);
+    expect(qibla.magnetic!.bearing).toBeCloseTo(
+      qibla.bearing - qibla.magnetic!.declination,
+      1,
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { distanceKm, toDegrees, toRadians } from './geo';
+import { magneticDeclination, WMM2020_LOW_DEGREE } from './geomagnetism';
+
+/**
+ * Direction of and distance to the Kaaba along the great circle.
+ */
+
+export const KAABA = { latitude: 21.422487, longitude: 39.826206 };
+
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+export interface MagneticQibla {
+  declination: number; // degrees, positive east
+  bearing: number; // degrees clockwise from magnetic north
+  model: string;
+}
+
+export interface Qibla {
+  latitude: number;
+  longitude: number;
+  bearing: number; // degrees clockwise from true north, 0-360
+  distanceKm: number;
+  magnetic?: MagneticQibla;
+}
+
+/**
+ * Initial great-circle bearing from a place to the Kaaba, clockwise from true north.
+ */
+export function qiblaBearing(latitude: number, longitude: number): number {
+  const phi = toRadians(latitude);
+  const phiKaaba = toRadians(KAABA.latitude);
+  const deltaLambda = toRadians(KAABA.longitude - longitude);
+  const bearing = Math.atan2(
+    Math.sin(deltaLambda),
+    Math.cos(phi) * Math.tan(phiKaaba) - Math.sin(phi) * Math.cos(deltaLambda),
+  );
+  return (toDegrees(bearing) + 360) % 360;
+}
+
+/**
+ * Great-circle (haversine) distance to the Kaaba.
+ */
+export function distanceToKaaba(latitude: number, longitude: number): number {
+  return distanceKm({ latitude, longitude }, KAABA);
+}
+
+/**
+ * @param magneticAt When given, adds the bearing to follow on a compass at that date.
+ */
+export function findQibla(
+  latitude: number,
+  longitude: number,
+  magneticAt?: Date,
+): Qibla {
+  const bearing = qiblaBearing(latitude, longitude);
+  const qibla: Qibla = {
+    latitude,
+    longitude,
+    bearing: round(bearing, 2),
+    distanceKm: round(distanceToKaaba(latitude, longitude), 1),
+  };
+  if (magneticAt) {
+    const declination = magneticDeclination(latitude, longitude, magneticAt);
+    qibla.magnetic = {
+      declination: round(declination, 2),
+      bearing: round((bearing - declination + 360) % 360, 2),
+      model: WMM2020_LOW_DEGREE.name,
+    };
+  }
+  return qibla;
+}
@@ -0,0 +1,50 @@
+import { rabat } from '../test/fixtures';
+import { HijriService } from './calendar.service';
+import { DbService } from './db.service';
+import { PrayerTimings } from './prayer-calculator';
+import { PrayerCacheService } from './prayer-cache.service';
+import { RamadanService } from './ramadan.service';
+import { SchoolResolverService } from './school-resolver.service';
+
+describe('RamadanService', () => {
+  const timings = {
+    Fajr: '05:50 (+00)',
+    Maghrib: '18:40 (+00)',
+  } as PrayerTimings;
+
+  it('numbers the days from the start of Ramadan, across missing days', async () => {
+    const resolver = {
+      resolve: jest.fn().mockResolvedValue({
+        school: { id: 21, name: 'MOROCCO', startegy_name: 'athan-api-21' },
+        city: rabat,
+      }),
+    };
+    const hijri = {
+      findRamadan: jest.fn().mockResolvedValue({
+        start: { year: 1447, month: 9, firstDay: '2026-02-18' },
+        summary: { firstDay: '2026-02-18', length: 29 },
+      }),
+    };
+    // The second day of Ramadan is missing upstream
+    const cache = {
+      getPrayerTimes: jest.fn().mockResolvedValue([
+        { date: '18-02-2026', timings },
+        { date: '20-02-2026', timings },
+      ]),
+    };
+    const service = new RamadanService(
+      {} as DbService,
+      hijri as unknown as HijriService,
+      resolver as unknown as SchoolResolverService,
+      cache as unknown as PrayerCacheService,
+    );
+
+    const imsakiya = await service.imsakiya({ city: 'Rabat' });
+
+    expect(imsakiya.days.map(({ day, date }) => [day, date])).toEqual([
+      [1, '2026-02-18'],
+      [3, '2026-02-20'],
+    ]);
+    expect(imsakiya.days[1].hijri).toBe('1447-09-03');
+  });
+});
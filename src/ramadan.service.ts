@@ -0,0 +1,106 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { HijriService } from './calendar.service';
+import { DbService } from './db.service';
+import { countDays, fromAladhanDate } from './date-range';
+import {
+  DEFAULT_IMSAK_MINUTES,
+  ImsakiyaDay,
+  imsakiyaDay,
+} from './islamic-events';
+import { PrayerCacheService } from './prayer-cache.service';
+import { PrayerSettings } from './prayer-settings';
+import { SchoolResolverService } from './school-resolver.service';
+
+export interface ImsakiyaRequest extends PrayerSettings {
+  city: string;
+  country?: string; // optional for registered cities
+  school?: string;
+  method?: number;
+  year?: number; // Hijri; the ongoing or next Ramadan when omitted
+  imsak?: number; // minutes before Fajr
+}
+
+export interface Imsakiya {
+  year: number; // Hijri
+  city: string;
+  country: string;
+  school: string;
+  imsakMinutes: number;
+  from: string;
+  to: string;
+  confirmed: boolean; // false while the start of Chawwal is unknown and 30 days are assumed
+  days: ImsakiyaDay[];
+}
+
+/**
+ * Builds the Ramadan timetable of a city from its Hijri calendar and prayer times.
+ */
+@Injectable()
+export class RamadanService {
+  constructor(
+    private readonly dbService: DbService,
+    private readonly hijriService: HijriService,
+    private readonly schoolResolver: SchoolResolverService,
+    private readonly prayerCacheService: PrayerCacheService,
+  ) {}
+
+  /**
+   * @throws BadRequestException when the country is missing for an unregistered city.
+   * @throws NotFoundException when the Ramadan is not in the stored Hijri calendar.
+   */
+  async imsakiya(request: ImsakiyaRequest): Promise<Imsakiya> {
+    const resolved = await this.schoolResolver.resolve(request);
+    const countryName = request.country || resolved.city?.country_name;
+    if (!countryName) {
+      throw new BadRequestException(
+        'Country is required for cities that are not registered',
+      );
+    }
+    const countryId =
+      resolved.city?.country_id ??
+      (await this.dbService.findCountryByName(countryName))?.id ??
+      0;
+
+    const { start, summary } = await this.hijriService.findRamadan(
+      countryId,
+      request.year,
+    );
+    const length = summary.length ?? 30;
+    const rows = await this.prayerCacheService.getPrayerTimes(
+      resolved.school.startegy_name,
+      {
+        asr: request.asr,
+        highLatitudeRule: request.highLatitudeRule,
+        offsets: request.offsets,
+        city: request.city,
+        country: countryName,
+        from: start.firstDay,
+        duration: length,
+      },
+    );
+
+    const imsakMinutes = request.imsak ?? DEFAULT_IMSAK_MINUTES;
+    // Numbered from the date, as days missing upstream leave gaps in the rows
+    const days = rows.map((row) => {
+      const date = fromAladhanDate(row.date);
+      return imsakiyaDay(
+        start,
+        countDays({ from: start.firstDay, to: date }),
+        date,
+        row.timings,
+        imsakMinutes,
+      );
+    });
+    return {
+      year: start.year,
+      city: resolved.city?.name ?? request.city,
+      country: countryName,
+      school: resolved.school.name,
+      imsakMinutes,
+      from: summary.firstDay,
+      to: days[days.length - 1]?.date ?? summary.firstDay,
+      confirmed: summary.length !== null,
+      days,
+    };
+  }
+}
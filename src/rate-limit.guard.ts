@@ -0,0 +1,60 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { AuthenticatedRequest, hasRole, RATE_LIMITED_KEY } from './auth';
+import { FixedWindowLimiter } from './rate-limit';
+
+/**
+ * Limits the requests to RateLimited routes per API key, or per address for anonymous
+ * requests, and reports the state in X-RateLimit-* headers. Admins are not limited.
+ * Runs after AuthGuard, which sets the principal.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly windowSeconds = Number(
+    process.env.RATE_LIMIT_WINDOW_SECONDS || 60,
+  );
+  private readonly anonymousLimit = Number(
+    process.env.RATE_LIMIT_ANONYMOUS || 60,
+  );
+  private readonly keyLimit = Number(process.env.RATE_LIMIT_KEY || 600);
+  private readonly limiter = new FixedWindowLimiter(this.windowSeconds * 1000);
+
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const limited = this.reflector.getAllAndOverride<boolean | undefined>(
+      RATE_LIMITED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const http = context.switchToHttp();
+    const request = http.getRequest<AuthenticatedRequest>();
+    const { principal } = request;
+    if (!limited || (principal && hasRole(principal, 'admin'))) {
+      return true;
+    }
+
+    const state = principal
+      ? this.limiter.hit(principal.id, principal.rateLimit ?? this.keyLimit)
+      : this.limiter.hit(`ip:${request.ip}`, this.anonymousLimit);
+    const resetSeconds = Math.ceil((state.resetAt - Date.now()) / 1000);
+    const response = http.getResponse<Response>();
+    response.setHeader('X-RateLimit-Limit', state.limit);
+    response.setHeader('X-RateLimit-Remaining', Math.max(state.remaining, 0));
+    response.setHeader('X-RateLimit-Reset', resetSeconds);
+    if (!state.allowed) {
+      response.setHeader('Retry-After', resetSeconds);
+      throw new HttpException(
+        `Rate limit of ${state.limit} requests per ${this.windowSeconds}s exceeded; retry in ${resetSeconds}s`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    return true;
+  }
+}
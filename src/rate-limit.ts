@@ -0,0 +1,49 @@
+/**
+ * Counts requests per key over fixed windows, in memory: limits are per instance.
+ */
+
+export interface RateLimitState {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch milliseconds
+}
+
+export class FixedWindowLimiter {
+  private readonly windows = new Map<
+    string,
+    { count: number; resetAt: number }
+  >();
+
+  constructor(private readonly windowMs: number) {}
+
+  /**
+   * Counts a request of `key`; requests over the limit are refused, not counted.
+   */
+  hit(key: string, limit: number, now = Date.now()): RateLimitState {
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      this.prune(now);
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    const allowed = window.count < limit;
+    if (allowed) {
+      window.count++;
+    }
+    return {
+      allowed,
+      limit,
+      remaining: limit - window.count,
+      resetAt: window.resetAt,
+    };
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { MetricsService } from './metrics.service';
+import { REQUEST_ID_HEADER, runInRequestContext } from './request-context';
+
+// Ids sent by a proxy are kept when they look like ids
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives each request an id, echoed in X-Request-Id and attached to its log lines,
+ * and records its duration.
+ */
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(request: Request, response: Response, next: NextFunction) {
+    const received = request.header(REQUEST_ID_HEADER);
+    const requestId =
+      received && REQUEST_ID.test(received) ? received : randomUUID();
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+
+    const start = process.hrtime.bigint();
+    response.on('finish', () => {
+      this.metricsService.httpRequestDuration.observe(
+        {
+          method: request.method,
+          route: routeOf(request),
+          status: String(response.statusCode),
+        },
+        Number(process.hrtime.bigint() - start) / 1e9,
+      );
+    });
+
+    runInRequestContext({ requestId }, next);
+  }
+}
+
+/**
+ * The route template, e.g. "/mosques/:id", so paths with ids share a series;
+ * unmatched paths share one too.
+ */
+function routeOf(request: Request): string {
+  const route = request.route as { path?: unknown } | undefined;
+  return typeof route?.path === 'string'
+    ? `${request.baseUrl}${route.path}`
+    : 'unmatched';
+}
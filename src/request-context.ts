@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * State of the HTTP request being served, available to any code it runs, such as
+ * loggers, without passing it along.
+ */
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runInRequestContext<T>(
+  context: RequestContext,
+  callback: () => T,
+): T {
+  return storage.run(context, callback);
+}
+
+/**
+ * Id of the request being served; undefined outside requests, e.g. in background jobs.
+ */
+export function currentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
@@ -0,0 +1,51 @@
+import { retryWithBackoff } from './retry';
+
+describe('retryWithBackoff', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('doubles the delay between attempts until one succeeds', async () => {
+    const operation = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn<void, [unknown, number]>();
+
+    const result = retryWithBackoff(operation, 3, 100, onRetry);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(199);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([, attempt]) => attempt)).toEqual([2, 3]);
+  });
+
+  it('rethrows the last error once the retries are used up', async () => {
+    const operation = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error('first'))
+      .mockRejectedValueOnce(new Error('second'))
+      .mockRejectedValue(new Error('last'));
+
+    const result = retryWithBackoff(operation, 2, 100);
+    const settled = expect(result).rejects.toThrow('last');
+    await jest.advanceTimersByTimeAsync(300);
+
+    await settled;
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry when no retries are allowed', async () => {
+    const operation = jest.fn(() => Promise.reject(new Error('down')));
+    await expect(retryWithBackoff(operation, 0, 100)).rejects.toThrow('down');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Retries an async operation with exponential backoff.
+ * Waits `baseDelayMs`, then twice as long, and so on between attempts.
+ *
+ * @param retries Number of retries after the first attempt.
+ * @param onRetry Called before each retry with the error and the upcoming attempt number.
+ * @returns The first successful result; rethrows the last error when every attempt failed.
+ */
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  retries: number,
+  baseDelayMs: number,
+  onRetry?: (error: unknown, attempt: number) => void,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt > retries) {
+        throw error;
+      }
+      onRetry?.(error, attempt + 1);
+      await new Promise((resolve) =>
+        setTimeout(resolve, baseDelayMs * 2 ** (attempt - 1)),
+      );
+    }
+  }
+}
+
+/**
+ * Runs `worker` over every item with at most `concurrency` calls in flight.
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    async () => {
+      while (next < items.length) {
+        await worker(items[next++]);
+      }
+    },
+  );
+  await Promise.all(lanes);
+}
@@ -0,0 +1,82 @@
+import { rabat } from '../test/fixtures';
+import { AthanSchoolRow, CountryRow, DbService } from './db.service';
+import { SchoolResolverService } from './school-resolver.service';
+
+const school = (id: number, name: string): AthanSchoolRow => ({
+  id,
+  name,
+  startegy_name: `athan-api-${id}`,
+  description: name,
+  priority: 0,
+});
+
+describe('SchoolResolverService', () => {
+  const mwl = school(1, 'MWL');
+  const morocco = school(21, 'MOROCCO');
+  const moroccoCountry: CountryRow = {
+    id: 1,
+    name: 'Morocco',
+    athan_school_id: 21,
+  };
+
+  let db: jest.Mocked<
+    Pick<
+      DbService,
+      | 'findCity'
+      | 'findCountryById'
+      | 'findCountryByName'
+      | 'findSchoolById'
+      | 'findSchoolByName'
+      | 'findTopPrioritySchool'
+    >
+  >;
+  let resolver: SchoolResolverService;
+
+  beforeEach(() => {
+    db = {
+      findCity: jest.fn().mockResolvedValue(rabat),
+      findCountryById: jest.fn().mockResolvedValue(moroccoCountry),
+      findCountryByName: jest.fn().mockResolvedValue(null),
+      findSchoolById: jest.fn((id: number) =>
+        Promise.resolve([mwl, morocco].find((s) => s.id === id) ?? null),
+      ),
+      findSchoolByName: jest.fn().mockResolvedValue(mwl),
+      findTopPrioritySchool: jest.fn().mockResolvedValue(mwl),
+    };
+    resolver = new SchoolResolverService(db as unknown as DbService);
+  });
+
+  it('should prefer an explicit school', async () => {
+    const resolved = await resolver.resolve({ school: 'MWL', city: 'Rabat' });
+    expect(resolved.school).toBe(mwl);
+    expect(resolved.source).toBe('request');
+  });
+
+  it('should use the city override before the country default', async () => {
+    db.findCity.mockResolvedValue({ ...rabat, athan_school_id: 1 });
+    const resolved = await resolver.resolve({ city: 'Rabat' });
+    expect(resolved.school).toBe(mwl);
+    expect(resolved.source).toBe('city');
+  });
+
+  it('should fall back to the country default for a registered city', async () => {
+    const resolved = await resolver.resolve({ city: 'Rabat' });
+    expect(resolved.school).toBe(morocco);
+    expect(resolved.source).toBe('country');
+    expect(resolved.city).toBe(rabat);
+  });
+
+  it('should fall back to the highest priority school', async () => {
+    db.findCity.mockResolvedValue(null);
+    const resolved = await resolver.resolve({ city: 'Nowhere' });
+    expect(resolved.school).toBe(mwl);
+    expect(resolved.source).toBe('fallback');
+  });
+
+  it('should reject unknown explicit schools', async () => {
+    db.findSchoolByName.mockResolvedValue(null);
+    await expect(resolver.resolve({ school: 'NOPE' })).rejects.toThrow(
+      'Unknown school',
+    );
+  });
+});
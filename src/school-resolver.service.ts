@@ -0,0 +1,102 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { AthanSchoolRow, CityRow, DbService } from './db.service';
+
+export interface SchoolRequest {
+  school?: string; // athan_school name, strategy name or id
+  method?: number; // Aladhan method number, maps to "athan-api-<method>"
+  city?: string;
+  country?: string;
+}
+
+export type SchoolSource = 'request' | 'city' | 'country' | 'fallback';
+
+export interface ResolvedSchool {
+  school: AthanSchoolRow;
+  source: SchoolSource;
+  city: CityRow | null; // the registered city matched by the request, if any
+}
+
+/**
+ * Picks the calculation school for a request:
+ * explicit parameter → city override → country default → highest `priority`.
+ */
+@Injectable()
+export class SchoolResolverService {
+  private readonly logger = new Logger(SchoolResolverService.name);
+
+  constructor(private readonly dbService: DbService) {}
+
+  /**
+   * @throws BadRequestException if an explicitly requested school does not exist.
+   * @throws Error if no school is configured at all.
+   */
+  async resolve(request: SchoolRequest): Promise<ResolvedSchool> {
+    const city = request.city
+      ? await this.dbService.findCity(request.city, request.country)
+      : null;
+
+    const explicit = await this.findExplicit(request);
+    if (explicit) {
+      return { school: explicit, source: 'request', city };
+    }
+
+    if (city?.athan_school_id) {
+      const school = await this.dbService.findSchoolById(city.athan_school_id);
+      if (school) {
+        return { school, source: 'city', city };
+      }
+      this.logger.warn(
+        `City "${city.name}" references missing athan_school ${city.athan_school_id}.`,
+      );
+    }
+
+    const country = city
+      ? await this.dbService.findCountryById(city.country_id)
+      : request.country
+        ? await this.dbService.findCountryByName(request.country)
+        : null;
+    if (country?.athan_school_id) {
+      const school = await this.dbService.findSchoolById(
+        country.athan_school_id,
+      );
+      if (school) {
+        return { school, source: 'country', city };
+      }
+      this.logger.warn(
+        `Country "${country.name}" references missing athan_school ${country.athan_school_id}.`,
+      );
+    }
+
+    const fallback = await this.dbService.findTopPrioritySchool();
+    if (!fallback) {
+      throw new Error('No athan_school is configured.');
+    }
+    return { school: fallback, source: 'fallback', city };
+  }
+
+  private async findExplicit(
+    request: SchoolRequest,
+  ): Promise<AthanSchoolRow | null> {
+    if (request.school) {
+      const school = /^\d+$/.test(request.school)
+        ? await this.dbService.findSchoolById(Number(request.school))
+        : await this.dbService.findSchoolByName(request.school);
+      if (!school) {
+        throw new BadRequestException(`Unknown school "${request.school}".`);
+      }
+      return school;
+    }
+
+    if (request.method !== undefined) {
+      const school = await this.dbService.findSchoolByName(
+        `athan-api-${request.method}`,
+      );
+      if (!school) {
+        throw new BadRequestException(`Unknown method "${request.method}".`);
+      }
+      return school;
+    }
+
+    return null;
+  }
+}
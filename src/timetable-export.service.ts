@@ -0,0 +1,140 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { HijriService } from './calendar.service';
+import { DbService } from './db.service';
+import { countDays, DateRange } from './date-range';
+import { buildMosqueSchedule, MosqueScheduleDay } from './iqamah';
+import { MosqueService } from './mosque.service';
+import { PrayerCacheService } from './prayer-cache.service';
+import { SchoolResolverService } from './school-resolver.service';
+import { buildTimetableRows, Timetable } from './timetable-export';
+import type { ClockFormat } from './timing';
+
+export interface PrintableTimetableRequest {
+  city?: string; // either a city or a mosque
+  country?: string; // optional for registered cities
+  school?: string;
+  mosqueId?: number;
+  year: number;
+  month: number; // 1-12
+  iqamah?: boolean; // defaults to true for mosques
+  title?: string;
+  subtitle?: string;
+  clock?: ClockFormat;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function monthRange(year: number, month: number): DateRange {
+  const days = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return {
+    from: `${year}-${pad(month)}-01`,
+    to: `${year}-${pad(month)}-${pad(days)}`,
+  };
+}
+
+/**
+ * Gathers a month of prayer times, with the Hijri dates of `hijri_calendar` and, for
+ * mosques, their iqamah times, for the printable exports of timetable-export.ts.
+ */
+@Injectable()
+export class TimetableExportService {
+  constructor(
+    private readonly dbService: DbService,
+    private readonly hijriService: HijriService,
+    private readonly schoolResolver: SchoolResolverService,
+    private readonly prayerCacheService: PrayerCacheService,
+    private readonly mosqueService: MosqueService,
+  ) {}
+
+  /**
+   * @throws BadRequestException when neither a city nor a mosque is given, when iqamah
+   *         columns are requested for a city, or when the country of an unregistered
+   *         city is missing.
+   * @throws NotFoundException for an unknown mosque.
+   */
+  async monthly(request: PrintableTimetableRequest): Promise<Timetable> {
+    const range = monthRange(request.year, request.month);
+    if (request.mosqueId === undefined && !request.city) {
+      throw new BadRequestException('Provide either city or mosque_id');
+    }
+    if (request.mosqueId === undefined && request.iqamah) {
+      throw new BadRequestException(
+        'Iqamah columns need a mosque_id: iqamah times are set per mosque',
+      );
+    }
+
+    const source =
+      request.mosqueId !== undefined
+        ? await this.mosqueSource(request.mosqueId, range)
+        : await this.citySource(request, range);
+    const hijri = await this.hijriService.findHijriDates(
+      source.days.map((day) => day.date),
+      source.countryId,
+    );
+    return {
+      title: request.title ?? source.title,
+      subtitle: request.subtitle ?? null,
+      location: `${source.city}, ${source.country}`,
+      school: source.school,
+      timezone: source.timezone,
+      year: request.year,
+      month: request.month,
+      iqamah: request.iqamah ?? request.mosqueId !== undefined,
+      rows: buildTimetableRows(
+        source.days,
+        hijri,
+        source.timezone,
+        request.clock,
+      ),
+    };
+  }
+
+  private async mosqueSource(id: number, range: DateRange) {
+    const schedule = await this.mosqueService.schedule(id, range);
+    return {
+      title: schedule.mosque.name,
+      city: schedule.city,
+      country: schedule.country,
+      countryId: await this.hijriService.countryId(schedule.country),
+      school: schedule.school,
+      timezone: schedule.timezone,
+      days: schedule.days,
+    };
+  }
+
+  private async citySource(
+    request: PrintableTimetableRequest,
+    range: DateRange,
+  ) {
+    const resolved = await this.schoolResolver.resolve(request);
+    const country = request.country || resolved.city?.country_name;
+    if (!country) {
+      throw new BadRequestException(
+        'Country is required for cities that are not registered',
+      );
+    }
+    const city = resolved.city?.name ?? request.city!;
+    const rows = await this.prayerCacheService.getPrayerTimes(
+      resolved.school.startegy_name,
+      {
+        city: request.city!,
+        country,
+        from: range.from,
+        duration: countDays(range),
+      },
+    );
+    const days: MosqueScheduleDay[] = buildMosqueSchedule(rows, []);
+    return {
+      title: `Prayer times – ${city}`,
+      city,
+      country,
+      countryId:
+        resolved.city?.country_id ??
+        (await this.dbService.findCountryByName(country))?.id ??
+        0,
+      school: resolved.school.name,
+      timezone: resolved.city?.timezone ?? null,
+      days,
+    };
+  }
+}
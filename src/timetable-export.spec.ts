@@ -0,0 +1,93 @@
+import { buildMosqueSchedule, IqamahRule } from './iqamah';
+import { PrayerTimings } from './prayer-calculator';
+import {
+  buildTimetableRows,
+  renderTimetableCsv,
+  renderTimetablePdf,
+  Timetable,
+} from './timetable-export';
+
+describe('timetable export', () => {
+  const timings: PrayerTimings = {
+    Fajr: '05:50 (+01)',
+    Shurooq: '07:16 (+01)',
+    Dhuhr: '13:18 (+01)',
+    Asr: '16:40 (+01)',
+    Maghrib: '19:12 (+01)',
+    Isha: '20:35 (+01)',
+  };
+  const rules: IqamahRule[] = [
+    { prayer: 'Fajr', offset: 20 },
+    { prayer: 'Jumuah', time: '13:45' },
+  ];
+  // Thursday and Friday
+  const schedule = buildMosqueSchedule(
+    [
+      { date: '01-10-2026', timings },
+      { date: '02-10-2026', timings },
+    ],
+    rules,
+  );
+  const hijri = new Map([
+    ['2026-10-01', { year: 1448, month: 4, day: 19 }],
+    ['2026-10-02', null],
+  ]);
+
+  const timetable = (iqamah: boolean): Timetable => ({
+    title: 'Mosquée Assounna',
+    subtitle: 'Avenue Mohammed V',
+    location: 'Rabat, Morocco',
+    school: 'MOROCCO',
+    timezone: 'Africa/Casablanca',
+    year: 2026,
+    month: 10,
+    iqamah,
+    rows: buildTimetableRows(schedule, hijri, 'Africa/Casablanca'),
+  });
+
+  it("prints Jumu'ah in the Dhuhr columns and flags Fridays", () => {
+    const [thursday, friday] = timetable(true).rows;
+    expect(thursday).toMatchObject({
+      weekday: 'Thu',
+      jumuah: false,
+      adhan: { Fajr: '05:50', Dhuhr: '13:18' },
+      iqamah: { Fajr: '06:10', Dhuhr: undefined },
+    });
+    expect(friday).toMatchObject({
+      weekday: 'Fri',
+      hijri: null,
+      jumuah: true,
+      iqamah: { Dhuhr: '13:45' },
+    });
+  });
+
+  it('renders one CSV line per day, with iqamah columns when asked', () => {
+    expect(renderTimetableCsv(timetable(false)).split('\r\n')).toEqual([
+      'Date,Weekday,Hijri,Fajr,Shurooq,Dhuhr,Asr,Maghrib,Isha,Note',
+      '2026-10-01,Thu,19 Rabi II 1448,05:50,07:16,13:18,16:40,19:12,20:35,',
+      "2026-10-02,Fri,,05:50,07:16,13:18,16:40,19:12,20:35,Jumu'ah",
+      '',
+    ]);
+    expect(renderTimetableCsv(timetable(true)).split('\r\n')[0]).toBe(
+      'Date,Weekday,Hijri,Fajr,Fajr iqamah,Shurooq,Dhuhr,Dhuhr iqamah,' +
+        'Asr,Asr iqamah,Maghrib,Maghrib iqamah,Isha,Isha iqamah,Note',
+    );
+  });
+
+  it('renders a PDF whose cross-references point at its objects', () => {
+    const pdf = renderTimetablePdf(timetable(true)).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('(Mosqu\xe9e Assounna) Tj');
+    expect(pdf).toContain('/MediaBox [0 0 841.89 595.28]');
+
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    const offsets = pdf
+      .slice(xref)
+      .split('\n')
+      .filter((line) => line.endsWith(' n '))
+      .map((line) => Number(line.slice(0, 10)));
+    offsets.forEach((offset, i) =>
+      expect(pdf.slice(offset)).toMatch(new RegExp(`^${i + 1} 0 obj`)),
+    );
+  });
+});
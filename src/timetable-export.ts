@@ -0,0 +1,253 @@
+import { HIJRI_MONTH_NAMES, HijriDate } from './hijri';
+import type { MosqueScheduleDay } from './iqamah';
+import { PdfPage, renderPdf } from './pdf';
+import { ClockFormat, normalizeTiming } from './timing';
+
+/**
+ * Printable month of prayer times, as CSV for spreadsheets or as a one-page PDF for
+ * notice boards, with Jumu'ah rows shaded and optional iqamah columns.
+ */
+
+export const TIMETABLE_FORMATS = ['csv', 'pdf'] as const;
+export type TimetableFormat = (typeof TIMETABLE_FORMATS)[number];
+
+const COLUMNS = ['Fajr', 'Shurooq', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'] as const;
+type Column = (typeof COLUMNS)[number];
+
+export interface TimetableRow {
+  date: string; // YYYY-MM-DD
+  weekday: string; // "Fri"
+  hijri: HijriDate | null; // null outside the stored Hijri months
+  jumuah: boolean;
+  adhan: Record<Column, string>;
+  iqamah: Partial<Record<Column, string>>;
+}
+
+export interface Timetable {
+  title: string;
+  subtitle: string | null;
+  location: string; // "Rabat, Morocco"
+  school: string;
+  timezone: string | null;
+  year: number;
+  month: number; // 1-12
+  iqamah: boolean; // adds an iqamah column after each prayer but Shurooq
+  rows: TimetableRow[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const MISSING = '--:--';
+
+/**
+ * Timetable rows from a schedule, with times as local wall-clock times.
+ * Jumu'ah is printed in the Dhuhr columns.
+ */
+export function buildTimetableRows(
+  days: MosqueScheduleDay[],
+  hijri: Map<string, HijriDate | null>,
+  timeZone: string | null,
+  clock: ClockFormat = '24h',
+): TimetableRow[] {
+  const format = (day: string, value: string | null) =>
+    value === null
+      ? undefined
+      : (normalizeTiming(day, value, timeZone, clock)?.time ?? MISSING);
+
+  return days.map(({ date, prayers }) => {
+    const adhan = Object.fromEntries(
+      COLUMNS.map((column) => [column, MISSING]),
+    ) as Record<Column, string>;
+    const iqamah: Partial<Record<Column, string>> = {};
+    let jumuah = false;
+    for (const scheduled of prayers) {
+      jumuah ||= scheduled.prayer === 'Jumuah';
+      const column = scheduled.prayer === 'Jumuah' ? 'Dhuhr' : scheduled.prayer;
+      adhan[column] = format(date, scheduled.adhan)!;
+      iqamah[column] = format(date, scheduled.iqamah);
+    }
+    return {
+      date,
+      weekday: WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()],
+      hijri: hijri.get(date) ?? null,
+      jumuah,
+      adhan,
+      iqamah,
+    };
+  });
+}
+
+function hijriDay(date: HijriDate | null): string {
+  return date ? `${date.day} ${HIJRI_MONTH_NAMES[date.month - 1]}` : '';
+}
+
+/**
+ * Hijri months covered by the rows, e.g. "Rabi II – Joumada I 1448".
+ */
+function hijriSpan(rows: TimetableRow[]): string | null {
+  const dates = rows.flatMap((row) => (row.hijri ? [row.hijri] : []));
+  if (dates.length === 0) {
+    return null;
+  }
+  const first = dates[0];
+  const last = dates[dates.length - 1];
+  const name = (date: HijriDate) => HIJRI_MONTH_NAMES[date.month - 1];
+  if (first.month === last.month && first.year === last.year) {
+    return `${name(first)} ${first.year}`;
+  }
+  return first.year === last.year
+    ? `${name(first)} – ${name(last)} ${last.year}`
+    : `${name(first)} ${first.year} – ${name(last)} ${last.year}`;
+}
+
+function headings(timetable: Timetable): string[] {
+  return COLUMNS.flatMap((column) =>
+    timetable.iqamah && column !== 'Shurooq'
+      ? [column, `${column} iqamah`]
+      : [column],
+  );
+}
+
+function times(timetable: Timetable, row: TimetableRow): string[] {
+  return COLUMNS.flatMap((column) =>
+    timetable.iqamah && column !== 'Shurooq'
+      ? [row.adhan[column], row.iqamah[column] ?? '']
+      : [row.adhan[column]],
+  );
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * RFC 4180 CSV, one line per day; the heading is left to the PDF.
+ */
+export function renderTimetableCsv(timetable: Timetable): string {
+  const lines = [
+    ['Date', 'Weekday', 'Hijri', ...headings(timetable), 'Note'],
+    ...timetable.rows.map((row) => [
+      row.date,
+      row.weekday,
+      row.hijri ? `${hijriDay(row.hijri)} ${row.hijri.year}` : '',
+      ...times(timetable, row),
+      row.jumuah ? "Jumu'ah" : '',
+    ]),
+  ];
+  return (
+    lines.map((line) => line.map(csvField).join(',')).join('\r\n') + '\r\n'
+  );
+}
+
+// A4 in points; landscape when the iqamah columns need the width
+const A4 = { short: 595.28, long: 841.89 };
+const MARGIN = 36;
+const JUMUAH_SHADE = 0.86;
+const HEADER_SHADE = 0.7;
+
+/**
+ * One A4 page: the title and subtitle, then the month as a table.
+ */
+export function renderTimetablePdf(
+  timetable: Timetable,
+  generatedAt = new Date(),
+): Buffer {
+  const page = timetable.iqamah
+    ? new PdfPage(A4.long, A4.short)
+    : new PdfPage(A4.short, A4.long);
+  const right = page.width - MARGIN;
+  const month = `${MONTH_NAMES[timetable.month - 1]} ${timetable.year}`;
+  const hijri = hijriSpan(timetable.rows);
+
+  let top = MARGIN + 16;
+  page.text(MARGIN, top, timetable.title, 16, 'bold');
+  if (timetable.subtitle) {
+    top += 16;
+    page.text(MARGIN, top, timetable.subtitle, 10);
+  }
+  top += 16;
+  page.text(
+    MARGIN,
+    top,
+    [month, hijri, timetable.location, timetable.school]
+      .filter(Boolean)
+      .join('  •  '),
+    10,
+  );
+  top += 14;
+
+  const labels = ['Date', 'Day', 'Hijri', ...headings(timetable)];
+  const fixed = [62, 30, 96];
+  const timeWidth =
+    (right - MARGIN - fixed.reduce((a, b) => a + b, 0)) /
+    (labels.length - fixed.length);
+  const widths = [...fixed, ...labels.slice(fixed.length).map(() => timeWidth)];
+  const lefts = widths.map(
+    (_, i) => MARGIN + widths.slice(0, i).reduce((a, b) => a + b, 0),
+  );
+
+  const footer = page.height - MARGIN;
+  const rowHeight = Math.min(
+    20,
+    (footer - 24 - top) / (timetable.rows.length + 1),
+  );
+  const fontSize = Math.min(9, rowHeight * 0.6);
+  const baseline = (rowTop: number) => rowTop + rowHeight / 2 + fontSize / 3;
+  const drawRow = (
+    cells: string[],
+    rowTop: number,
+    bold: boolean,
+    shade: number | null,
+  ) => {
+    if (shade !== null) {
+      page.fillRect(MARGIN, rowTop, right - MARGIN, rowHeight, shade);
+    }
+    cells.forEach((cell, i) =>
+      page.text(
+        lefts[i] + 3,
+        baseline(rowTop),
+        cell,
+        fontSize,
+        bold ? 'bold' : 'regular',
+      ),
+    );
+    page.line(MARGIN, rowTop + rowHeight, right, rowTop + rowHeight, 0.25);
+  };
+
+  drawRow(
+    labels.map((label) => label.replace(' iqamah', ' iq.')),
+    top,
+    true,
+    HEADER_SHADE,
+  );
+  timetable.rows.forEach((row, i) =>
+    drawRow(
+      [row.date, row.weekday, hijriDay(row.hijri), ...times(timetable, row)],
+      top + rowHeight * (i + 1),
+      row.jumuah,
+      row.jumuah ? JUMUAH_SHADE : null,
+    ),
+  );
+
+  page.text(
+    MARGIN,
+    footer,
+    `Shaded rows: Jumu'ah.  Times in ${timetable.timezone ?? 'local time'}.  ` +
+      `Generated ${generatedAt.toISOString().slice(0, 10)}.`,
+    8,
+  );
+  return renderPdf([page], `${timetable.title} – ${month}`);
+}
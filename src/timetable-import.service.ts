@@ -0,0 +1,196 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { DbService } from './db.service';
+import { DateRange } from './date-range';
+import {
+  DailyPrayerTimes,
+  formatOffset,
+  PrayerTimings,
+  timezoneOffsetMinutes,
+} from './prayer-calculator';
+import {
+  ParsedTimetable,
+  parseTimetableCsv,
+  parseTimetableJson,
+  TimetablePrayer,
+  TimetableRow,
+} from './timetable-parser';
+import { DEFAULT_OFFICIAL_SCHOOL, ImportTimetableDto } from './timetable.dto';
+import { timingToDate } from './timing';
+
+export interface TimetableChange {
+  date: string; // YYYY-MM-DD
+  changes: Partial<
+    Record<TimetablePrayer, { from: string | null; to: string }>
+  >;
+}
+
+export interface TimetableImportResult {
+  school: string;
+  city: string;
+  range: DateRange | null; // null when the timetable has no rows
+  dry_run: boolean;
+  added: string[]; // days not stored before
+  changed: TimetableChange[];
+  unchanged: number;
+  invalidated: number; // cached days of schools relying on this timetable, deleted
+}
+
+/**
+ * Imports officially published timetables (e.g. the Moroccan Ministry of Habous) into
+ * `athan_calendar`, where OfficialTimetableProvider serves them ahead of any calculation.
+ */
+@Injectable()
+export class TimetableImportService {
+  private readonly logger = new Logger(TimetableImportService.name);
+
+  constructor(private readonly dbService: DbService) {}
+
+  /**
+   * Validates a whole timetable, then stores it unless `dry_run` is set.
+   * Nothing is written when a single row is invalid.
+   *
+   * @throws BadRequestException listing every invalid row, or for a school that is not official.
+   * @throws NotFoundException when the city is not registered.
+   */
+  async import(body: ImportTimetableDto): Promise<TimetableImportResult> {
+    const schoolName = body.school ?? DEFAULT_OFFICIAL_SCHOOL;
+    const school = await this.dbService.findSchoolByName(schoolName);
+    if (!school || !school.startegy_name.startsWith('athan-official-')) {
+      throw new BadRequestException(
+        `"${schoolName}" is not an official timetable school`,
+      );
+    }
+    const city = await this.dbService.findCity(body.city, body.country);
+    if (!city) {
+      throw new NotFoundException(
+        `City "${body.city}" is not registered; add it before importing its timetable`,
+      );
+    }
+
+    const parsed = this.parse(body);
+    if (body.year !== undefined) {
+      for (const row of parsed.rows) {
+        if (!row.day.startsWith(`${body.year}-`)) {
+          parsed.errors.push(`${row.day} is outside ${body.year}`);
+        }
+      }
+    }
+    if (parsed.errors.length > 0) {
+      throw new BadRequestException(parsed.errors);
+    }
+
+    const result: TimetableImportResult = {
+      school: school.name,
+      city: city.name,
+      range: null,
+      dry_run: body.dry_run === true,
+      added: [],
+      changed: [],
+      unchanged: 0,
+      invalidated: 0,
+    };
+    if (parsed.rows.length === 0) {
+      return result;
+    }
+
+    const range = {
+      from: parsed.rows[0].day,
+      to: parsed.rows[parsed.rows.length - 1].day,
+    };
+    result.range = range;
+    const stored = await this.dbService.findCalendarRows(
+      school.id,
+      city.id,
+      range.from,
+      range.to,
+    );
+    const days: DailyPrayerTimes[] = [];
+    for (const row of parsed.rows) {
+      const timings = toTimings(row, city.timezone);
+      const previous = stored.get(row.day)?.timings;
+      if (!previous) {
+        result.added.push(row.day);
+      } else {
+        const changes = diffTimings(previous, timings);
+        if (Object.keys(changes).length > 0) {
+          result.changed.push({ date: row.day, changes });
+        } else {
+          result.unchanged++;
+        }
+      }
+      const [year, month, day] = row.day.split('-');
+      days.push({ date: `${day}-${month}-${year}`, timings });
+    }
+
+    if (!result.dry_run) {
+      await this.dbService.upsertCalendarRows(
+        school.id,
+        city.id,
+        days,
+        'official',
+      );
+      result.invalidated = await this.dbService.deleteCalendarRowsByProvider(
+        'official',
+        { school: school.name },
+        school.id,
+        city.id,
+        range.from,
+        range.to,
+      );
+      this.logger.log(
+        `Imported ${days.length} day(s) of the ${school.name} timetable for ${city.name}.`,
+      );
+    }
+    return result;
+  }
+
+  private parse(body: ImportTimetableDto): ParsedTimetable {
+    if (body.format === 'json') {
+      return parseTimetableJson(body.content);
+    }
+    if (typeof body.content !== 'string') {
+      return { rows: [], errors: ['CSV content must be a string'] };
+    }
+    return parseTimetableCsv(body.content);
+  }
+}
+
+/**
+ * Stores local times the way Aladhan does, e.g. "05:26 (+01)",
+ * so every consumer of `athan_calendar` reads them the same.
+ * The suffix is left out when the city has no time zone.
+ */
+function toTimings(row: TimetableRow, timeZone: string | null): PrayerTimings {
+  const timings = {} as PrayerTimings;
+  for (const [prayer, time] of Object.entries(row.times)) {
+    if (!timeZone) {
+      timings[prayer as TimetablePrayer] = time;
+      continue;
+    }
+    const offset = timezoneOffsetMinutes(
+      timeZone,
+      timingToDate(row.day, time, timeZone),
+    );
+    timings[prayer as TimetablePrayer] = `${time} (${formatOffset(offset)})`;
+  }
+  return timings;
+}
+
+function diffTimings(
+  previous: PrayerTimings,
+  next: PrayerTimings,
+): TimetableChange['changes'] {
+  const changes: TimetableChange['changes'] = {};
+  for (const prayer of Object.keys(next) as TimetablePrayer[]) {
+    const before = previous[prayer] ?? null;
+    if (before !== next[prayer]) {
+      changes[prayer] = { from: before, to: next[prayer] };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,72 @@
+import { parseTimetableCsv, parseTimetableJson } from './timetable-parser';
+
+describe('timetable-parser', () => {
+  describe('parseTimetableCsv', () => {
+    it('should read French column names, day-first dates and ";" separators', () => {
+      const csv = [
+        'Jour;Sobh;Chourouq;Dohr;Asr;Maghrib;Ichaa',
+        '02/03/2025;6:20;07:45;13:40;16:58;19:28;20:44',
+        '01/03/2025;06:21;07:46;13:40;16:57;19:27;20:43',
+      ].join('\r\n');
+
+      const { rows, errors } = parseTimetableCsv(csv);
+
+      expect(errors).toEqual([]);
+      expect(rows.map((row) => row.day)).toEqual(['2025-03-01', '2025-03-02']);
+      expect(rows[1].times).toEqual({
+        Fajr: '06:20',
+        Shurooq: '07:45',
+        Dhuhr: '13:40',
+        Asr: '16:58',
+        Maghrib: '19:28',
+        Isha: '20:44',
+      });
+    });
+
+    it('should report every invalid row', () => {
+      const csv = [
+        'date,fajr,sunrise,dhuhr,asr,maghrib,isha',
+        '2025-02-30,06:21,07:46,13:40,16:57,19:27,20:43',
+        '2025-03-01,06:21,07:46,13:40,16:57,20:43,19:27',
+        '2025-03-02,06:20,07:45,13:40,16:58,19:28,24:10',
+      ].join('\n');
+
+      const { rows, errors } = parseTimetableCsv(csv);
+
+      expect(rows).toEqual([]);
+      expect(errors).toEqual([
+        'line 2: invalid or missing date "2025-02-30"',
+        'line 3: times are not in chronological order',
+        'line 4: invalid or missing Isha "24:10"',
+      ]);
+    });
+
+    it('should require every prayer column', () => {
+      expect(parseTimetableCsv('date,fajr,dhuhr\n').errors).toEqual([
+        'Missing column(s): Shurooq, Asr, Maghrib, Isha',
+      ]);
+    });
+  });
+
+  describe('parseTimetableJson', () => {
+    it('should accept days shaped like the API output and reject duplicates', () => {
+      const day = {
+        date: '01-03-2025',
+        timings: {
+          Fajr: '06:21 (+01)',
+          Shurooq: '07:46 (+01)',
+          Dhuhr: '13:40 (+01)',
+          Asr: '16:57 (+01)',
+          Maghrib: '19:27 (+01)',
+          Isha: '20:43 (+01)',
+        },
+      };
+
+      const { rows, errors } = parseTimetableJson(JSON.stringify([day, day]));
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].times.Fajr).toBe('06:21');
+      expect(errors).toEqual(['item 2: 2025-03-01 appears more than once']);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { formatIsoDate, parseIsoDate } from './date-range';
+import { PrayerTimings } from './prayer-calculator';
+
+/**
+ * Parsing of officially published timetables, as CSV or JSON, one row per day.
+ *
+ * CSV needs a header row; columns are matched by name, case-insensitively, with the
+ * usual French/Arabic transliterations accepted (e.g. "Sobh", "Chourouq", "Dohr", "Ichaa").
+ * The separator is "," or ";". JSON is an array of objects using the same names,
+ * or of `{ date, timings }` objects as returned by the API.
+ * Dates may be "YYYY-MM-DD", "DD/MM/YYYY" or "DD-MM-YYYY"; times are local "HH:mm",
+ * optionally followed by a zone suffix such as "(+01)", which is ignored.
+ */
+
+export type TimetablePrayer = keyof PrayerTimings;
+
+export interface TimetableRow {
+  day: string; // YYYY-MM-DD
+  times: Record<TimetablePrayer, string>; // HH:mm, local time
+}
+
+export interface ParsedTimetable {
+  rows: TimetableRow[]; // ordered by day
+  errors: string[]; // one message per rejected row or column
+}
+
+const PRAYERS: TimetablePrayer[] = [
+  'Fajr',
+  'Shurooq',
+  'Dhuhr',
+  'Asr',
+  'Maghrib',
+  'Isha',
+];
+
+const ALIASES: Record<string, TimetablePrayer | 'date'> = {
+  date: 'date',
+  day: 'date',
+  jour: 'date',
+  fajr: 'Fajr',
+  sobh: 'Fajr',
+  subh: 'Fajr',
+  shurooq: 'Shurooq',
+  sunrise: 'Shurooq',
+  chourouq: 'Shurooq',
+  dhuhr: 'Dhuhr',
+  zuhr: 'Dhuhr',
+  dohr: 'Dhuhr',
+  asr: 'Asr',
+  maghrib: 'Maghrib',
+  isha: 'Isha',
+  ichaa: 'Isha',
+};
+
+const TIME = /^(\d{1,2}):(\d{2})(?:\s*\([^)]*\))?$/; // a zone suffix is ignored
+const DAY_FIRST = /^(\d{2})[/-](\d{2})[/-](\d{4})$/;
+
+function parseDay(value: string): string | null {
+  const dayFirst = DAY_FIRST.exec(value);
+  const iso = dayFirst ? `${dayFirst[3]}-${dayFirst[2]}-${dayFirst[1]}` : value;
+  const date = parseIsoDate(iso);
+  return date ? formatIsoDate(date) : null;
+}
+
+function parseTime(value: string): string | null {
+  const match = TIME.exec(value);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return null;
+  }
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+/**
+ * Validates one day given as `{ field name: value }`.
+ * @returns The row, or the reasons it was rejected.
+ */
+function toRow(
+  fields: Record<string, unknown>,
+  label: string,
+): TimetableRow | string[] {
+  const values: Partial<Record<TimetablePrayer | 'date', string>> = {};
+  for (const [name, value] of Object.entries(fields)) {
+    const key = ALIASES[name.trim().toLowerCase()];
+    if (key && (typeof value === 'string' || typeof value === 'number')) {
+      values[key] = String(value).trim();
+    }
+  }
+
+  const errors: string[] = [];
+  const day = values.date ? parseDay(values.date) : null;
+  if (!day) {
+    errors.push(`${label}: invalid or missing date "${values.date ?? ''}"`);
+  }
+  const times = {} as Record<TimetablePrayer, string>;
+  for (const prayer of PRAYERS) {
+    const time = values[prayer] ? parseTime(values[prayer]) : null;
+    if (!time) {
+      errors.push(
+        `${label}: invalid or missing ${prayer} "${values[prayer] ?? ''}"`,
+      );
+    } else {
+      times[prayer] = time;
+    }
+  }
+  if (errors.length === 0) {
+    const order = PRAYERS.map((prayer) => times[prayer]);
+    if (order.some((time, i) => i > 0 && time <= order[i - 1])) {
+      errors.push(`${label}: times are not in chronological order`);
+    }
+  }
+  return errors.length > 0 ? errors : { day: day!, times };
+}
+
+function collect(
+  entries: { fields: Record<string, unknown>; label: string }[],
+): ParsedTimetable {
+  const rows = new Map<string, TimetableRow>();
+  const errors: string[] = [];
+  for (const { fields, label } of entries) {
+    const row = toRow(fields, label);
+    if (Array.isArray(row)) {
+      errors.push(...row);
+    } else if (rows.has(row.day)) {
+      errors.push(`${label}: ${row.day} appears more than once`);
+    } else {
+      rows.set(row.day, row);
+    }
+  }
+  return {
+    rows: [...rows.values()].sort((a, b) => a.day.localeCompare(b.day)),
+    errors,
+  };
+}
+
+export function parseTimetableCsv(content: string): ParsedTimetable {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line !== '');
+  if (lines.length === 0) {
+    return { rows: [], errors: ['The file is empty'] };
+  }
+
+  const separator = lines[0].line.includes(';') ? ';' : ',';
+  const header = lines[0].line.split(separator).map((name) => name.trim());
+  const missing = ['date', ...PRAYERS].filter(
+    (key) => !header.some((name) => ALIASES[name.toLowerCase()] === key),
+  );
+  if (missing.length > 0) {
+    return {
+      rows: [],
+      errors: [`Missing column(s): ${missing.join(', ')}`],
+    };
+  }
+
+  return collect(
+    lines.slice(1).map(({ line, number }) => {
+      const cells = line.split(separator);
+      return {
+        fields: Object.fromEntries(header.map((name, i) => [name, cells[i]])),
+        label: `line ${number}`,
+      };
+    }),
+  );
+}
+
+export function parseTimetableJson(content: unknown): ParsedTimetable {
+  let data = content;
+  if (typeof content === 'string') {
+    try {
+      data = JSON.parse(content);
+    } catch {
+      return { rows: [], errors: ['The content is not valid JSON'] };
+    }
+  }
+  if (!Array.isArray(data)) {
+    return { rows: [], errors: ['Expected an array of days'] };
+  }
+
+  return collect(
+    data.map((entry: unknown, index) => {
+      const fields = (
+        typeof entry === 'object' && entry !== null ? entry : {}
+      ) as Record<string, unknown>;
+      const { timings, ...rest } = fields;
+      return {
+        fields:
+          typeof timings === 'object' && timings !== null
+            ? { ...rest, ...(timings as Record<string, unknown>) }
+            : fields,
+        label: `item ${index + 1}`,
+      };
+    }),
+  );
+}
@@ -0,0 +1,22 @@
+import { Body, Controller, HttpCode, Post } from '@nestjs/common';
+import { RequireRole } from './auth';
+import { TimetableImportService } from './timetable-import.service';
+import { ImportTimetableDto } from './timetable.dto';
+
+@Controller('timetables')
+export class TimetableController {
+  constructor(
+    private readonly timetableImportService: TimetableImportService,
+  ) {}
+
+  /**
+   * Imports an official timetable for a registered city.
+   * With `dry_run`, only reports the added and changed days.
+   */
+  @Post('import')
+  @HttpCode(200)
+  @RequireRole('admin')
+  importTimetable(@Body() body: ImportTimetableDto) {
+    return this.timetableImportService.import(body);
+  }
+}
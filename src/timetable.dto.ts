@@ -0,0 +1,57 @@
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDefined,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Request body of `POST /timetables/import`.
+ */
+
+export const TIMETABLE_FORMATS = ['csv', 'json'] as const;
+export type TimetableFormat = (typeof TIMETABLE_FORMATS)[number];
+
+export const DEFAULT_OFFICIAL_SCHOOL = 'HABOUS';
+
+export class ImportTimetableDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  school?: string; // athan_school with an `athan-official-*` strategy
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  city!: string; // must be registered, for its time zone
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  country?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  year?: number; // when given, every row must fall in it
+
+  @IsIn(TIMETABLE_FORMATS)
+  format!: TimetableFormat;
+
+  @IsDefined()
+  content!: unknown; // CSV text, or a JSON array (or its text)
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  dry_run?: boolean; // report the differences without writing them
+}
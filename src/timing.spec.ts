@@ -0,0 +1,79 @@
+import { normalizeTiming, withNormalizedTimes } from './timing';
+import { PrayerTimings } from './prayer-calculator';
+
+describe('timing', () => {
+  const casablanca = 'Africa/Casablanca';
+
+  it('gives each day the offset in force, across the Ramadan DST switch', () => {
+    // Morocco goes from +01 to +00 on 2026-02-15 for Ramadan
+    const days = withNormalizedTimes(
+      [
+        { date: '14-02-2026', timings: { Fajr: '06:32' } as PrayerTimings },
+        { date: '15-02-2026', timings: { Fajr: '05:31' } as PrayerTimings },
+      ],
+      casablanca,
+    );
+    expect(days.map((day) => day.times.Fajr)).toEqual([
+      {
+        time: '06:32',
+        iso: '2026-02-14T06:32:00+01:00',
+        epoch: Date.UTC(2026, 1, 14, 5, 32) / 1000,
+      },
+      {
+        time: '05:31',
+        iso: '2026-02-15T05:31:00+00:00',
+        epoch: Date.UTC(2026, 1, 15, 5, 31) / 1000,
+      },
+    ]);
+  });
+
+  it('keeps the instant of a stale offset suffix, shown in the zone', () => {
+    expect(normalizeTiming('2026-02-15', '06:31 (+01)', casablanca)).toEqual({
+      time: '05:31',
+      iso: '2026-02-15T05:31:00+00:00',
+      epoch: Date.UTC(2026, 1, 15, 5, 31) / 1000,
+    });
+  });
+
+  it('shows suffixes left over from before a DST switch in the new offset', () => {
+    // Paris goes from +01 to +02 on 2026-03-29
+    const days = withNormalizedTimes(
+      [
+        { date: '28-03-2026', timings: { Fajr: '05:50 (+01)' } },
+        { date: '29-03-2026', timings: { Fajr: '04:48 (+01)' } },
+      ] as { date: string; timings: PrayerTimings }[],
+      'Europe/Paris',
+    );
+    expect(days.map((day) => day.times.Fajr)).toEqual([
+      {
+        time: '05:50',
+        iso: '2026-03-28T05:50:00+01:00',
+        epoch: Date.UTC(2026, 2, 28, 4, 50) / 1000,
+      },
+      {
+        time: '05:48',
+        iso: '2026-03-29T05:48:00+02:00',
+        epoch: Date.UTC(2026, 2, 29, 3, 48) / 1000,
+      },
+    ]);
+  });
+
+  it('falls back to the suffix without a zone', () => {
+    expect(normalizeTiming('2026-06-01', '18:05 (+0530)', null)?.iso).toBe(
+      '2026-06-01T18:05:00+05:30',
+    );
+  });
+
+  it('formats a 12-hour clock', () => {
+    expect(normalizeTiming('2026-06-01', '00:15', 'UTC', '12h')?.time).toBe(
+      '12:15 AM',
+    );
+    expect(normalizeTiming('2026-06-01', '13:05', 'UTC', '12h')?.time).toBe(
+      '1:05 PM',
+    );
+  });
+
+  it('leaves out timings that do not occur', () => {
+    expect(normalizeTiming('2026-06-21', '--:--', 'Europe/Oslo')).toBeNull();
+  });
+});
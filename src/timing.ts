@@ -0,0 +1,165 @@
+import { fromAladhanDate } from './date-range';
+import {
+  DailyPrayerTimes,
+  PrayerTimings,
+  timezoneOffsetMinutes,
+} from './prayer-calculator';
+
+/**
+ * Parsing of the timing strings stored in `athan_calendar`, e.g. "05:26 (+01)".
+ * Aladhan appends the zone of the location: a numeric offset such as "(+01)" or "(+0530)",
+ * or an abbreviation such as "(CET)" that cannot be resolved on its own.
+ */
+
+export interface ParsedTiming {
+  hour: number;
+  minute: number;
+  offsetMinutes: number | null; // null when the suffix is missing or not numeric
+}
+
+const TIMING = /^(\d{1,2}):(\d{2})(?:\s*\(([^)]*)\))?/;
+const NUMERIC_OFFSET = /^([+-])(\d{2})(\d{2})?$/;
+
+/**
+ * @throws Error when the value does not start with "HH:mm".
+ */
+export function parseTiming(value: string): ParsedTiming {
+  const match = TIMING.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid timing "${value}"`);
+  }
+  const offset = match[3] ? NUMERIC_OFFSET.exec(match[3].trim()) : null;
+  return {
+    hour: Number(match[1]),
+    minute: Number(match[2]),
+    offsetMinutes: offset
+      ? (offset[1] === '-' ? -1 : 1) *
+        (Number(offset[2]) * 60 + Number(offset[3] ?? 0))
+      : null,
+  };
+}
+
+/**
+ * Converts a timing on a given day to an absolute instant.
+ * A numeric suffix wins, even when it disagrees with `timeZone`: it is the offset the
+ * time was computed in. Otherwise the offset of `timeZone` on that day is used, and UTC
+ * when no zone is known either.
+ *
+ * @param day The day, "YYYY-MM-DD".
+ * @param timeZone IANA zone of the location, e.g. "Africa/Casablanca".
+ */
+export function timingToDate(
+  day: string,
+  value: string,
+  timeZone?: string | null,
+): Date {
+  const { hour, minute, offsetMinutes } = parseTiming(value);
+  const [year, month, date] = day.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hour, minute);
+
+  if (offsetMinutes !== null) {
+    return new Date(wallClock - offsetMinutes * 60000);
+  }
+  if (!timeZone) {
+    return new Date(wallClock);
+  }
+  // Guess with the offset at the wall-clock time, then correct it around DST switches
+  const guess = timezoneOffsetMinutes(timeZone, new Date(wallClock));
+  const offset = timezoneOffsetMinutes(
+    timeZone,
+    new Date(wallClock - guess * 60000),
+  );
+  return new Date(wallClock - offset * 60000);
+}
+
+/**
+ * Formats an instant as ISO 8601 with the given UTC offset, e.g. "2025-03-01T18:39:00+01:00".
+ */
+export function formatWithOffset(instant: Date, offsetMinutes: number): string {
+  const local = new Date(instant.getTime() + offsetMinutes * 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  const minutes = String(abs % 60).padStart(2, '0');
+  return `${local.toISOString().slice(0, 19)}${sign}${hours}:${minutes}`;
+}
+
+export type ClockFormat = '12h' | '24h';
+
+export const CLOCK_FORMATS: ClockFormat[] = ['12h', '24h'];
+
+export interface NormalizedTiming {
+  time: string; // local wall-clock time, "05:26" or "5:26 AM"
+  iso: string; // ISO 8601 with the UTC offset of that day, e.g. "2026-03-01T05:26:00+01:00"
+  epoch: number; // seconds since 1970-01-01T00:00:00Z
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function formatClock(hour: number, minute: number, clock: ClockFormat) {
+  if (clock === '24h') {
+    return `${pad(hour)}:${pad(minute)}`;
+  }
+  return `${hour % 12 || 12}:${pad(minute)} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+/**
+ * The instant of a timing, expressed in the zone of the location.
+ * The instant comes from timingToDate, so a stale suffix still fixes it; with an IANA zone,
+ * only the displayed time and offset follow the offset in force at that instant. Ranges
+ * crossing a DST switch (e.g. Morocco suspending DST during Ramadan) thus show the right
+ * offset each day.
+ *
+ * @param day The day, "YYYY-MM-DD".
+ * @returns null for timings that do not occur, e.g. "--:--" at high latitudes.
+ */
+export function normalizeTiming(
+  day: string,
+  value: string,
+  timeZone: string | null,
+  clock: ClockFormat = '24h',
+): NormalizedTiming | null {
+  if (value.startsWith('--')) {
+    return null;
+  }
+  const instant = timingToDate(day, value, timeZone);
+  const offset = timeZone
+    ? timezoneOffsetMinutes(timeZone, instant)
+    : (parseTiming(value).offsetMinutes ?? 0);
+  const iso = formatWithOffset(instant, offset);
+  return {
+    time: formatClock(
+      Number(iso.slice(11, 13)),
+      Number(iso.slice(14, 16)),
+      clock,
+    ),
+    iso,
+    epoch: Math.floor(instant.getTime() / 1000),
+  };
+}
+
+/**
+ * Adds the normalized `times` of each prayer next to the stored `timings` strings.
+ */
+export function withNormalizedTimes<T extends DailyPrayerTimes>(
+  days: T[],
+  timeZone: string | null,
+  clock: ClockFormat = '24h',
+): (T & {
+  times: Partial<Record<keyof PrayerTimings, NormalizedTiming | null>>;
+})[] {
+  return days.map((row) => {
+    const day = fromAladhanDate(row.date);
+    const times: Partial<Record<keyof PrayerTimings, NormalizedTiming | null>> =
+      {};
+    for (const prayer of Object.keys(row.timings) as (keyof PrayerTimings)[]) {
+      times[prayer] = normalizeTiming(
+        day,
+        row.timings[prayer],
+        timeZone,
+        clock,
+      );
+    }
+    return { ...row, times };
+  });
+}
@@ -0,0 +1,105 @@
+import { buildMessage, ValidateBy, ValidationOptions } from 'class-validator';
+import { parseIsoDate } from './date-range';
+import { isIqamahRule, MAX_IQAMAH_OFFSET_MINUTES } from './iqamah';
+import { isValidTimezone } from './prayer-calculator';
+import { MAX_OFFSET_MINUTES } from './prayer-settings';
+
+const OFFSET_PRAYERS = ['Fajr', 'Shurooq', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'];
+
+/**
+ * Custom class-validator decorators shared by the request DTOs.
+ */
+
+/**
+ * Checks for an existing "YYYY-MM-DD" day.
+ */
+export function IsIsoDay(options?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isIsoDay',
+      validator: {
+        validate: (value) =>
+          typeof value === 'string' && parseIsoDate(value) !== null,
+        defaultMessage: buildMessage(
+          (each) => `${each}$property must be a date formatted YYYY-MM-DD`,
+          options,
+        ),
+      },
+    },
+    options,
+  );
+}
+
+/**
+ * Checks for an IANA time zone known to the runtime, e.g. "Africa/Casablanca".
+ */
+export function IsTimezone(options?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isTimezone',
+      validator: {
+        validate: (value) =>
+          typeof value === 'string' && isValidTimezone(value),
+        defaultMessage: buildMessage(
+          (each) =>
+            `${each}$property must be an IANA time zone, e.g. "Africa/Casablanca"`,
+          options,
+        ),
+      },
+    },
+    options,
+  );
+}
+
+/**
+ * Checks for per-prayer minute offsets such as `{ "Maghrib": 5, "Isha": -2 }`:
+ * known prayer names and whole minutes within ±MAX_OFFSET_MINUTES.
+ */
+export function IsPrayerOffsets(
+  options?: ValidationOptions,
+): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isPrayerOffsets',
+      validator: {
+        validate: (value) =>
+          typeof value === 'object' &&
+          value !== null &&
+          !Array.isArray(value) &&
+          Object.entries(value as Record<string, unknown>).every(
+            ([prayer, minutes]) =>
+              OFFSET_PRAYERS.includes(prayer) &&
+              Number.isInteger(minutes) &&
+              Math.abs(minutes as number) <= MAX_OFFSET_MINUTES,
+          ),
+        defaultMessage: buildMessage(
+          (each) =>
+            `${each}$property must map prayer names (${OFFSET_PRAYERS.join(', ')}) to whole minutes between -${MAX_OFFSET_MINUTES} and ${MAX_OFFSET_MINUTES}`,
+          options,
+        ),
+      },
+    },
+    options,
+  );
+}
+
+/**
+ * Checks for a list of iqamah rules such as
+ * `[{ "prayer": "Isha", "offset": 10 }, { "prayer": "Jumuah", "time": "13:30" }]`.
+ */
+export function IsIqamahRules(options?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isIqamahRules',
+      validator: {
+        validate: (value) => Array.isArray(value) && value.every(isIqamahRule),
+        defaultMessage: buildMessage(
+          (each) =>
+            `${each}$property must be a list of rules with a prayer, either an offset (0-${MAX_IQAMAH_OFFSET_MINUTES} minutes) or a time (HH:mm), and optional from/to season bounds (MM-DD)`,
+          options,
+        ),
+      },
+    },
+    options,
+  );
+}
@@ -0,0 +1,146 @@
+import { HttpService } from '@nestjs/axios';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { DbService, DueWebhookDelivery } from './db.service';
+import { MetricsService } from './metrics.service';
+import { MosqueService } from './mosque.service';
+import { PrayerCacheService } from './prayer-cache.service';
+import { SchoolResolverService } from './school-resolver.service';
+import { verifyWebhookSignature } from './webhook';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+
+describe('WebhookDispatcher', () => {
+  const secret = 'test-secret';
+  const now = new Date('2026-10-16T04:20:00Z');
+
+  // Stub receiver answering with the status of `reply`
+  let server: Server;
+  let url: string;
+  let reply = 204;
+  let received: { headers: IncomingHttpHeaders; body: string }[];
+
+  let db: jest.Mocked<
+    Pick<
+      DbService,
+      | 'findWebhookSubscriptions'
+      | 'findDueWebhookDeliveries'
+      | 'recordWebhookAttempt'
+    >
+  >;
+  let dispatcher: WebhookDispatcher;
+
+  const due = (attempts = 0): DueWebhookDelivery => ({
+    id: 7,
+    subscription_id: 3,
+    prayer_at: '2026-10-16T04:30:00Z',
+    attempts,
+    callback_url: url,
+    secret,
+    payload: {
+      event: 'prayer.reminder',
+      subscription_id: 3,
+      prayer: 'Fajr',
+      date: '2026-10-16',
+      timing: '05:30 (+01)',
+      at: '2026-10-16T04:30:00.000Z',
+      lead_minutes: 10,
+      city: 'Rabat',
+      country: 'Morocco',
+      school: 'MOROCCO',
+    },
+  });
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = reply;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/athan`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    reply = 204;
+    received = [];
+    db = {
+      findWebhookSubscriptions: jest.fn().mockResolvedValue([]),
+      findDueWebhookDeliveries: jest.fn().mockResolvedValue([due()]),
+      recordWebhookAttempt: jest.fn().mockResolvedValue(undefined),
+    };
+    dispatcher = new WebhookDispatcher(
+      db as unknown as DbService,
+      new HttpService(),
+      {} as SchoolResolverService,
+      {} as PrayerCacheService,
+      {} as MosqueService,
+      new MetricsService(),
+    );
+  });
+
+  it('posts a signed reminder and records the delivery', async () => {
+    await expect(dispatcher.run(now)).resolves.toMatchObject({
+      delivered: 1,
+    });
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(
+      verifyWebhookSignature(
+        secret,
+        Number(headers['x-athan-timestamp']),
+        body,
+        headers['x-athan-signature'] as string,
+      ),
+    ).toBe(true);
+    expect(JSON.parse(body)).toMatchObject({
+      prayer: 'Fajr',
+      delivery_id: 7,
+      attempt: 1,
+    });
+    expect(db.recordWebhookAttempt).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({
+        status: 'delivered',
+        attempts: 1,
+        response_status: 204,
+      }),
+    );
+  });
+
+  it('retries with backoff, then gives up', async () => {
+    reply = 500;
+    await expect(dispatcher.run(now)).resolves.toMatchObject({ retrying: 1 });
+    expect(db.recordWebhookAttempt).toHaveBeenLastCalledWith(
+      7,
+      expect.objectContaining({
+        status: 'pending',
+        attempts: 1,
+        response_status: 500,
+        // WEBHOOK_BACKOFF_MS defaults to 30 seconds
+        next_attempt_at: '2026-10-16 04:20:30',
+      }),
+    );
+
+    db.findDueWebhookDeliveries.mockResolvedValue([due(5)]);
+    await expect(dispatcher.run(now)).resolves.toMatchObject({ failed: 1 });
+    expect(db.recordWebhookAttempt).toHaveBeenLastCalledWith(
+      7,
+      expect.objectContaining({ status: 'failed', attempts: 6 }),
+    );
+  });
+
+  it('drops reminders once the prayer time is long past', async () => {
+    const late = new Date('2026-10-16T05:30:00Z');
+    await expect(dispatcher.run(late)).resolves.toMatchObject({ expired: 1 });
+    expect(received).toHaveLength(0);
+  });
+});
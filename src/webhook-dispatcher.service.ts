@@ -0,0 +1,390 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { isAxiosError } from 'axios';
+import { firstValueFrom } from 'rxjs';
+import { addDays, countDays, DateRange, today } from './date-range';
+import {
+  DbService,
+  DueWebhookDelivery,
+  WebhookSubscriptionRow,
+} from './db.service';
+import { buildMosqueSchedule, MosqueScheduleDay } from './iqamah';
+import { MosqueService } from './mosque.service';
+import { PrayerCacheService } from './prayer-cache.service';
+import { MetricsService } from './metrics.service';
+import { runWithConcurrency } from './retry';
+import { SchoolResolverService } from './school-resolver.service';
+import {
+  DELIVERY_HEADER,
+  planReminders,
+  retryDelayMs,
+  SIGNATURE_HEADER,
+  signWebhook,
+  TIMESTAMP_HEADER,
+  toSqlDateTime,
+} from './webhook';
+
+interface WebhookConfig {
+  enabled: boolean;
+  pollSeconds: number;
+  planHours: number; // how far ahead deliveries are planned
+  planIntervalMinutes: number; // every subscription is planned again this often
+  retries: number;
+  backoffMs: number;
+  timeoutMs: number;
+  maxLateMinutes: number; // past the prayer time, a delivery is dropped
+  batchSize: number;
+  concurrency: number;
+}
+
+export interface WebhookDispatch {
+  planned: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+  expired: number;
+}
+
+function loadConfig(): WebhookConfig {
+  return {
+    enabled: process.env.WEBHOOKS_ENABLED === 'true',
+    pollSeconds: parseInt(process.env.WEBHOOK_POLL_SECONDS || '15', 10),
+    planHours: parseInt(process.env.WEBHOOK_PLAN_HOURS || '48', 10),
+    planIntervalMinutes: parseInt(
+      process.env.WEBHOOK_PLAN_INTERVAL_MINUTES || '60',
+      10,
+    ),
+    retries: parseInt(process.env.WEBHOOK_RETRIES || '5', 10),
+    backoffMs: parseInt(process.env.WEBHOOK_BACKOFF_MS || '30000', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10),
+    maxLateMinutes: parseInt(process.env.WEBHOOK_MAX_LATE_MINUTES || '30', 10),
+    batchSize: 100,
+    concurrency: 4,
+  };
+}
+
+/**
+ * Sends prayer reminders to webhook subscribers.
+ * Deliveries are planned ahead into `webhook_delivery`, then sent when due by a polling
+ * loop, so neither a restart nor a retry loses a reminder. Subscriptions are planned
+ * again periodically, when they change, and when the stored days of their city change.
+ * It only runs with `WEBHOOKS_ENABLED=true`, to be set on a single instance.
+ */
+@Injectable()
+export class WebhookDispatcher implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private readonly config = loadConfig();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<WebhookDispatch> | null = null;
+  private lastPlannedAt = 0;
+  private readonly staleCities = new Set<number>();
+  private readonly staleSubscriptions = new Set<number>();
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly httpService: HttpService,
+    private readonly schoolResolver: SchoolResolverService,
+    private readonly prayerCacheService: PrayerCacheService,
+    private readonly mosqueService: MosqueService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.config.enabled || this.config.pollSeconds <= 0) {
+      this.logger.log('Webhook reminders are disabled.');
+      return;
+    }
+    this.dbService.onCalendarChange((cityId) => this.staleCities.add(cityId));
+    this.schedule(this.config.pollSeconds * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Plans a subscription again on the next run, e.g. after it was changed.
+   */
+  replan(subscriptionId: number) {
+    this.staleSubscriptions.add(subscriptionId);
+  }
+
+  /**
+   * Plans what is stale and sends the due deliveries; joins the run already in progress.
+   */
+  async run(now = new Date()): Promise<WebhookDispatch> {
+    if (!this.running) {
+      this.running = this.execute(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private schedule(delayMs: number) {
+    this.timer = setTimeout(() => {
+      this.run()
+        .catch((error) => this.logger.error('Webhook dispatch failed:', error))
+        .finally(() => this.schedule(this.config.pollSeconds * 1000));
+    }, delayMs);
+    // Never keep the process alive just for the schedule
+    this.timer.unref();
+  }
+
+  private async execute(now: Date): Promise<WebhookDispatch> {
+    const dispatch: WebhookDispatch = {
+      planned: await this.plan(now),
+      delivered: 0,
+      retrying: 0,
+      failed: 0,
+      expired: 0,
+    };
+    const due = await this.dbService.findDueWebhookDeliveries(
+      toSqlDateTime(now),
+      this.config.batchSize,
+    );
+    await runWithConcurrency(due, this.config.concurrency, async (delivery) => {
+      dispatch[await this.deliver(delivery, now)]++;
+    });
+    this.metricsService.recordJobRun('webhooks', {
+      delivered: dispatch.delivered,
+      retrying: dispatch.retrying,
+      failed: dispatch.failed,
+      expired: dispatch.expired,
+    });
+    if (due.length > 0) {
+      this.logger.log(
+        `Webhooks: ${dispatch.delivered} delivered, ${dispatch.retrying} to retry, ${dispatch.failed} failed, ${dispatch.expired} expired.`,
+      );
+    }
+    return dispatch;
+  }
+
+  /**
+   * @returns The number of deliveries planned.
+   */
+  private async plan(now: Date): Promise<number> {
+    const subscriptions = new Map<number, WebhookSubscriptionRow>();
+    const stale = [...this.staleSubscriptions];
+    const cities = [...this.staleCities];
+    this.staleSubscriptions.clear();
+    this.staleCities.clear();
+
+    if (
+      now.getTime() - this.lastPlannedAt >=
+      this.config.planIntervalMinutes * 60000
+    ) {
+      this.lastPlannedAt = now.getTime();
+      for (const subscription of await this.dbService.findWebhookSubscriptions()) {
+        subscriptions.set(subscription.id, subscription);
+      }
+    }
+    for (const cityId of cities) {
+      for (const subscription of await this.dbService.findWebhookSubscriptions(
+        cityId,
+      )) {
+        subscriptions.set(subscription.id, subscription);
+      }
+    }
+    for (const id of stale) {
+      // Disabled ones too, to drop their planned deliveries
+      const subscription = await this.dbService.findWebhookSubscriptionById(id);
+      if (subscription) {
+        subscriptions.set(id, subscription);
+      }
+    }
+
+    let planned = 0;
+    for (const subscription of subscriptions.values()) {
+      try {
+        planned += await this.planSubscription(subscription, now);
+      } catch (error) {
+        this.logger.warn(
+          `Could not plan webhook ${subscription.id}: ${describe(error)}`,
+        );
+      }
+    }
+    return planned;
+  }
+
+  private async planSubscription(
+    subscription: WebhookSubscriptionRow,
+    now: Date,
+  ): Promise<number> {
+    const nowSql = toSqlDateTime(now);
+    if (!subscription.enabled) {
+      return this.dbService.replaceWebhookDeliveries(
+        subscription.id,
+        [],
+        nowSql,
+      );
+    }
+
+    // A day either side, as the zone of the city may differ from ours
+    const start = today();
+    const range = {
+      from: addDays(start, -1),
+      to: addDays(start, Math.ceil(this.config.planHours / 24) + 1),
+    };
+    const { days, ...context } = subscription.mosque_id
+      ? await this.mosqueTimes(subscription.mosque_id, range)
+      : await this.cityTimes(subscription, range);
+
+    const until = now.getTime() + this.config.planHours * 3600000;
+    const reminders = planReminders(days, subscription, context).filter(
+      ({ fireAt }) => fireAt > now && fireAt.getTime() <= until,
+    );
+    return this.dbService.replaceWebhookDeliveries(
+      subscription.id,
+      reminders.map((reminder) => ({
+        prayer: reminder.prayer,
+        prayer_date: reminder.date,
+        prayer_at: toSqlDateTime(reminder.at),
+        fire_at: toSqlDateTime(reminder.fireAt),
+        payload: reminder.payload,
+      })),
+      nowSql,
+    );
+  }
+
+  private async cityTimes(
+    subscription: WebhookSubscriptionRow,
+    range: DateRange,
+  ): Promise<ReminderTimes> {
+    const city = await this.dbService.findCityById(subscription.city_id!);
+    if (!city) {
+      throw new Error(`City ${subscription.city_id} not found`);
+    }
+    const { school } = await this.schoolResolver.resolve({
+      school: subscription.athan_school_id
+        ? String(subscription.athan_school_id)
+        : undefined,
+      city: city.name,
+      country: city.country_name,
+    });
+    const rows = await this.prayerCacheService.getPrayerTimes(
+      school.startegy_name,
+      {
+        city: city.name,
+        country: city.country_name,
+        from: range.from,
+        duration: countDays(range),
+      },
+    );
+    return {
+      days: buildMosqueSchedule(rows, []),
+      city: city.name,
+      country: city.country_name,
+      school: school.name,
+      timeZone: city.timezone,
+    };
+  }
+
+  private async mosqueTimes(
+    mosqueId: number,
+    range: DateRange,
+  ): Promise<ReminderTimes> {
+    const schedule = await this.mosqueService.schedule(mosqueId, range);
+    return {
+      days: schedule.days,
+      city: schedule.city,
+      country: schedule.country,
+      school: schedule.school,
+      timeZone: schedule.timezone,
+      mosque: schedule.mosque,
+    };
+  }
+
+  /**
+   * POSTs a reminder signed with the subscription secret, and records the outcome:
+   * any 2xx response delivers it, anything else schedules a retry with backoff.
+   */
+  private async deliver(
+    delivery: DueWebhookDelivery,
+    now: Date,
+  ): Promise<keyof Omit<WebhookDispatch, 'planned'>> {
+    const late = now.getTime() - Date.parse(delivery.prayer_at);
+    if (late > this.config.maxLateMinutes * 60000) {
+      await this.dbService.recordWebhookAttempt(delivery.id, {
+        status: 'expired',
+        attempts: delivery.attempts,
+        next_attempt_at: toSqlDateTime(now),
+        response_status: null,
+        error: 'Prayer time passed before the reminder could be delivered',
+        delivered_at: null,
+      });
+      return 'expired';
+    }
+
+    const attempts = delivery.attempts + 1;
+    const body = JSON.stringify({
+      ...delivery.payload,
+      delivery_id: delivery.id,
+      attempt: attempts,
+    });
+    const timestamp = Math.floor(now.getTime() / 1000);
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(delivery.callback_url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            [SIGNATURE_HEADER]: `sha256=${signWebhook(delivery.secret, timestamp, body)}`,
+            [TIMESTAMP_HEADER]: String(timestamp),
+            [DELIVERY_HEADER]: String(delivery.id),
+          },
+          timeout: this.config.timeoutMs,
+          maxRedirects: 0,
+        }),
+      );
+      await this.dbService.recordWebhookAttempt(delivery.id, {
+        status: 'delivered',
+        attempts,
+        next_attempt_at: toSqlDateTime(now),
+        response_status: response.status,
+        error: null,
+        delivered_at: toSqlDateTime(new Date()),
+      });
+      return 'delivered';
+    } catch (error) {
+      const failed = attempts > this.config.retries;
+      const retryAt = new Date(
+        now.getTime() + retryDelayMs(attempts, this.config.backoffMs),
+      );
+      await this.dbService.recordWebhookAttempt(delivery.id, {
+        status: failed ? 'failed' : 'pending',
+        attempts,
+        next_attempt_at: toSqlDateTime(failed ? now : retryAt),
+        response_status: isAxiosError(error)
+          ? (error.response?.status ?? null)
+          : null,
+        error: describe(error),
+        delivered_at: null,
+      });
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} failed (attempt ${attempts}): ${describe(error)}`,
+      );
+      return failed ? 'failed' : 'retrying';
+    }
+  }
+}
+
+interface ReminderTimes {
+  days: MosqueScheduleDay[];
+  city: string;
+  country: string;
+  school: string;
+  timeZone: string | null;
+  mosque?: { id: number; name: string };
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
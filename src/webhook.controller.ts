@@ -0,0 +1,86 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { CurrentPrincipal, RequireRole } from './auth';
+import type { Principal } from './auth';
+import { PageQueryDto } from './location.dto';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from './webhook.dto';
+import { WebhookService } from './webhook.service';
+
+/**
+ * Prayer reminder subscriptions. Reminders are POSTed as JSON to `callback_url`, signed
+ * with the secret returned on creation; see signWebhook for checking the signature.
+ * Any key can follow a city; mosque subscriptions are left to the admins of the mosque.
+ */
+@Controller('webhooks')
+@RequireRole('public')
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Get()
+  async list(
+    @Query() query: PageQueryDto,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    return this.webhookService.listSubscriptions(query, principal);
+  }
+
+  @Get(':id')
+  async get(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    return this.webhookService.getSubscription(id, principal);
+  }
+
+  /**
+   * Delivery log of a subscription, most recent prayer first.
+   */
+  @Get(':id/deliveries')
+  async deliveries(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: WebhookDeliveryQueryDto,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    return this.webhookService.listDeliveries(id, query, principal);
+  }
+
+  @Post()
+  async create(
+    @Body() body: CreateWebhookDto,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    return this.webhookService.createSubscription(body, principal);
+  }
+
+  @Put(':id')
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UpdateWebhookDto,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    return this.webhookService.updateSubscription(id, body, principal);
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentPrincipal() principal: Principal,
+  ) {
+    await this.webhookService.deleteSubscription(id, principal);
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import type { WebhookDeliveryStatus } from './db.service';
+import { PageQueryDto } from './location.dto';
+import { MAX_LEAD_MINUTES, WEBHOOK_PRAYERS } from './webhook';
+import type { WebhookPrayer } from './webhook';
+
+/**
+ * Request bodies and queries of the `/webhooks` endpoints.
+ */
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'delivered',
+  'failed',
+  'expired',
+];
+
+// Local receivers (e.g. http://localhost:4000/athan) are allowed
+const CALLBACK_URL_OPTIONS = {
+  protocols: ['http', 'https'],
+  require_protocol: true,
+  require_tld: false,
+};
+
+/**
+ * Either `city_id` or `mosque_id`; WebhookService checks that exactly one is given.
+ */
+export class CreateWebhookDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  city_id?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  mosque_id?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  athan_school_id?: number; // city subscriptions only; the city default when omitted
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_PRAYERS, { each: true })
+  prayers!: WebhookPrayer[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_LEAD_MINUTES)
+  lead_minutes: number = 0;
+
+  @IsUrl(CALLBACK_URL_OPTIONS)
+  @MaxLength(2048)
+  callback_url!: string;
+}
+
+/**
+ * Omitted fields keep their value; the city or mosque of a subscription cannot change.
+ */
+export class UpdateWebhookDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  athan_school_id?: number | null;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(WEBHOOK_PRAYERS, { each: true })
+  prayers?: WebhookPrayer[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_LEAD_MINUTES)
+  lead_minutes?: number;
+
+  @IsOptional()
+  @IsUrl(CALLBACK_URL_OPTIONS)
+  @MaxLength(2048)
+  callback_url?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  rotate_secret?: boolean; // issues a new signing secret, returned once
+}
+
+export class WebhookDeliveryQueryDto extends PageQueryDto {
+  @IsOptional()
+  @IsIn(DELIVERY_STATUSES)
+  status?: WebhookDeliveryStatus;
+}
@@ -0,0 +1,128 @@
+import { ForbiddenException } from '@nestjs/common';
+import { rabat } from '../test/fixtures';
+import { Principal, Role } from './auth';
+import { DbService, MosqueRow, WebhookSubscriptionRow } from './db.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { CreateWebhookDto } from './webhook.dto';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookService', () => {
+  const principal = (
+    id: number,
+    role: Role,
+    mosqueId: number | null = null,
+  ): Principal => ({
+    id: `key:${id}`,
+    name: `key ${id}`,
+    role,
+    mosqueId,
+    rateLimit: null,
+    credential: 'key',
+  });
+  const owner = principal(3, 'public');
+  const stranger = principal(4, 'public');
+  const mosqueAdmin = principal(5, 'mosque_admin', 7);
+
+  const subscription = (
+    fields: Partial<WebhookSubscriptionRow>,
+  ): WebhookSubscriptionRow => ({
+    id: 1,
+    city_id: null,
+    mosque_id: null,
+    athan_school_id: null,
+    prayers: ['Fajr'],
+    lead_minutes: 0,
+    callback_url: 'http://localhost:4000/athan',
+    secret: 'secret',
+    enabled: 1,
+    api_key_id: null,
+    ...fields,
+  });
+  const citySubscription = subscription({ id: 1, city_id: 1, api_key_id: 3 });
+  const mosqueSubscription = subscription({ id: 2, mosque_id: 7 });
+
+  let db: jest.Mocked<
+    Pick<
+      DbService,
+      | 'findCityById'
+      | 'findMosqueById'
+      | 'listWebhookSubscriptions'
+      | 'findWebhookSubscriptionById'
+      | 'insertWebhookSubscription'
+      | 'deleteWebhookSubscription'
+    >
+  >;
+  let service: WebhookService;
+
+  beforeEach(() => {
+    db = {
+      findCityById: jest.fn().mockResolvedValue(rabat),
+      findMosqueById: jest.fn().mockResolvedValue({ id: 7 } as MosqueRow),
+      listWebhookSubscriptions: jest
+        .fn()
+        .mockResolvedValue({ items: [], total: 0 }),
+      findWebhookSubscriptionById: jest.fn((id: number) =>
+        Promise.resolve(
+          [citySubscription, mosqueSubscription].find((s) => s.id === id) ??
+            null,
+        ),
+      ),
+      insertWebhookSubscription: jest.fn().mockResolvedValue(9),
+      deleteWebhookSubscription: jest.fn().mockResolvedValue(undefined),
+    };
+    const dispatcher = { replan: jest.fn() };
+    service = new WebhookService(
+      db as unknown as DbService,
+      dispatcher as unknown as WebhookDispatcher,
+    );
+  });
+
+  const body = (fields: Partial<CreateWebhookDto>): CreateWebhookDto => ({
+    prayers: ['Fajr'],
+    lead_minutes: 0,
+    callback_url: 'http://localhost:4000/athan',
+    ...fields,
+  });
+
+  it('lets any key follow a city and records it as the owner', async () => {
+    await expect(
+      service.createSubscription(body({ city_id: 1 }), owner),
+    ).resolves.toMatchObject({ id: 9, city_id: 1, api_key_id: 3 });
+    await expect(
+      service.createSubscription(body({ mosque_id: 7 }), owner),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      service.createSubscription(body({ mosque_id: 7 }), mosqueAdmin),
+    ).resolves.toMatchObject({ mosque_id: 7, api_key_id: 5 });
+  });
+
+  it('only lists the subscriptions of the caller', async () => {
+    await service.listSubscriptions({ page: 1, limit: 10 }, mosqueAdmin);
+    expect(db.listWebhookSubscriptions).toHaveBeenCalledWith(
+      undefined,
+      { mosqueId: 7, apiKeyId: 5 },
+      10,
+      0,
+    );
+  });
+
+  it('leaves city subscriptions to their key', async () => {
+    await expect(
+      service.deleteSubscription(1, stranger),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await expect(
+      service.deleteSubscription(1, mosqueAdmin),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    await service.deleteSubscription(1, owner);
+    expect(db.deleteWebhookSubscription).toHaveBeenCalledWith(1);
+  });
+
+  it('leaves mosque subscriptions to the admins of the mosque', async () => {
+    await expect(service.getSubscription(2, owner)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(
+      service.getSubscription(2, mosqueAdmin),
+    ).resolves.not.toHaveProperty('secret');
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { apiKeyId, assertCanManageMosque, hasRole, Principal } from './auth';
+import {
+  DbService,
+  WebhookDeliveryRow,
+  WebhookSubscriptionRow,
+} from './db.service';
+import { PageQueryDto } from './location.dto';
+import { Paginated } from './location.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookDeliveryQueryDto,
+} from './webhook.dto';
+
+/**
+ * A subscription as returned by the API: the signing secret is only shown when issued.
+ */
+export type WebhookSubscription = Omit<WebhookSubscriptionRow, 'secret'> & {
+  secret?: string;
+};
+
+const newSecret = () => randomBytes(32).toString('hex');
+
+/**
+ * Manages the `webhook_subscription` table and reads the delivery log.
+ * Deliveries themselves are planned and sent by WebhookDispatcher.
+ * Besides admins, mosque subscriptions are managed by the admins of the mosque and
+ * city subscriptions by the key that created them.
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly dispatcher: WebhookDispatcher,
+  ) {}
+
+  async listSubscriptions(
+    query: PageQueryDto,
+    principal: Principal,
+  ): Promise<Paginated<WebhookSubscription>> {
+    const { page, limit } = query;
+    const result = await this.dbService.listWebhookSubscriptions(
+      query.search,
+      hasRole(principal, 'admin')
+        ? undefined
+        : { mosqueId: principal.mosqueId, apiKeyId: apiKeyId(principal) },
+      limit,
+      (page - 1) * limit,
+    );
+    return { ...result, items: result.items.map(hideSecret), page, limit };
+  }
+
+  async getSubscription(
+    id: number,
+    principal: Principal,
+  ): Promise<WebhookSubscription> {
+    return hideSecret(await this.findSubscription(id, principal));
+  }
+
+  /**
+   * @returns The subscription with its signing secret, which is not shown again.
+   */
+  async createSubscription(
+    body: CreateWebhookDto,
+    principal: Principal,
+  ): Promise<WebhookSubscription> {
+    if ((body.city_id === undefined) === (body.mosque_id === undefined)) {
+      throw new BadRequestException(
+        'Exactly one of city_id and mosque_id must be provided',
+      );
+    }
+    if (body.city_id !== undefined) {
+      await this.checkCityId(body.city_id);
+    } else {
+      assertCanManageMosque(principal, body.mosque_id!);
+      await this.checkMosqueId(body.mosque_id!);
+    }
+    const subscription: Omit<WebhookSubscriptionRow, 'id'> = {
+      city_id: body.city_id ?? null,
+      mosque_id: body.mosque_id ?? null,
+      athan_school_id: await this.checkSchoolId(
+        body.athan_school_id,
+        body.mosque_id,
+      ),
+      prayers: body.prayers,
+      lead_minutes: body.lead_minutes,
+      callback_url: body.callback_url,
+      secret: newSecret(),
+      enabled: 1,
+      api_key_id: apiKeyId(principal),
+    };
+
+    const id = await this.dbService.insertWebhookSubscription(subscription);
+    this.logger.log(
+      `Registered webhook ${id} for ${subscription.city_id ? `city ${subscription.city_id}` : `mosque ${subscription.mosque_id}`}.`,
+    );
+    this.dispatcher.replan(id);
+    return { id, ...subscription };
+  }
+
+  /**
+   * @returns The subscription, with the new secret when `rotate_secret` is set.
+   */
+  async updateSubscription(
+    id: number,
+    body: UpdateWebhookDto,
+    principal: Principal,
+  ): Promise<WebhookSubscription> {
+    const current = await this.findSubscription(id, principal);
+    const subscription: WebhookSubscriptionRow = {
+      ...current,
+      athan_school_id:
+        body.athan_school_id === undefined
+          ? current.athan_school_id
+          : await this.checkSchoolId(
+              body.athan_school_id,
+              current.mosque_id ?? undefined,
+            ),
+      prayers: body.prayers ?? current.prayers,
+      lead_minutes: body.lead_minutes ?? current.lead_minutes,
+      callback_url: body.callback_url ?? current.callback_url,
+      enabled:
+        body.enabled === undefined ? current.enabled : Number(body.enabled),
+      secret: body.rotate_secret ? newSecret() : current.secret,
+    };
+
+    await this.dbService.updateWebhookSubscription(subscription);
+    this.dispatcher.replan(id);
+    return body.rotate_secret ? subscription : hideSecret(subscription);
+  }
+
+  async deleteSubscription(id: number, principal: Principal): Promise<void> {
+    await this.findSubscription(id, principal);
+    await this.dbService.deleteWebhookSubscription(id);
+  }
+
+  async listDeliveries(
+    id: number,
+    query: WebhookDeliveryQueryDto,
+    principal: Principal,
+  ): Promise<Paginated<WebhookDeliveryRow>> {
+    await this.findSubscription(id, principal);
+    const { page, limit } = query;
+    const result = await this.dbService.listWebhookDeliveries(
+      id,
+      query.status,
+      limit,
+      (page - 1) * limit,
+    );
+    return { ...result, page, limit };
+  }
+
+  private async findSubscription(
+    id: number,
+    principal: Principal,
+  ): Promise<WebhookSubscriptionRow> {
+    const subscription = await this.dbService.findWebhookSubscriptionById(id);
+    if (!subscription) {
+      throw new NotFoundException(`Webhook ${id} not found`);
+    }
+    if (subscription.mosque_id !== null) {
+      assertCanManageMosque(principal, subscription.mosque_id);
+    } else if (
+      !hasRole(principal, 'admin') &&
+      subscription.api_key_id !== apiKeyId(principal)
+    ) {
+      throw new ForbiddenException(`Not allowed to manage webhook ${id}`);
+    }
+    return subscription;
+  }
+
+  private async checkCityId(id: number) {
+    if (!(await this.dbService.findCityById(id))) {
+      throw new BadRequestException(`City ${id} does not exist`);
+    }
+  }
+
+  private async checkMosqueId(id: number) {
+    if (!(await this.dbService.findMosqueById(id))) {
+      throw new BadRequestException(`Mosque ${id} does not exist`);
+    }
+  }
+
+  /**
+   * Mosque subscriptions follow the school of the mosque.
+   */
+  private async checkSchoolId(
+    id: number | null | undefined,
+    mosqueId: number | undefined,
+  ): Promise<number | null> {
+    if (!id) {
+      return null;
+    }
+    if (mosqueId !== undefined) {
+      throw new BadRequestException(
+        'athan_school_id is taken from the mosque for mosque subscriptions',
+      );
+    }
+    if (!(await this.dbService.findSchoolById(id))) {
+      throw new BadRequestException(`athan_school ${id} does not exist`);
+    }
+    return id;
+  }
+}
+
+function hideSecret(row: WebhookSubscriptionRow): WebhookSubscription {
+  const subscription: WebhookSubscription = { ...row };
+  delete subscription.secret;
+  return subscription;
+}
@@ -0,0 +1,150 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { MosqueScheduleDay } from './iqamah';
+import { timingToDate } from './timing';
+
+/**
+ * Prayer reminders pushed to subscribers: which events a subscription fires, and how
+ * the HTTP callbacks are signed so receivers can check they come from us.
+ */
+
+export const WEBHOOK_PRAYERS = [
+  'Fajr',
+  'Shurooq',
+  'Dhuhr', // also Jumu'ah on Fridays
+  'Asr',
+  'Maghrib',
+  'Isha',
+] as const;
+export type WebhookPrayer = (typeof WEBHOOK_PRAYERS)[number];
+
+export const MAX_LEAD_MINUTES = 180;
+
+export const SIGNATURE_HEADER = 'X-Athan-Signature';
+export const TIMESTAMP_HEADER = 'X-Athan-Timestamp';
+export const DELIVERY_HEADER = 'X-Athan-Delivery';
+
+/**
+ * Body of a reminder, as stored when planned; `delivery_id` and `attempt` are added when sent.
+ */
+export interface PrayerReminder {
+  event: 'prayer.reminder';
+  subscription_id: number;
+  prayer: string; // 'Jumuah' on Fridays for Dhuhr
+  date: string; // YYYY-MM-DD
+  timing: string; // as served by the prayer endpoints, e.g. "05:26 (+01)"
+  at: string; // ISO instant of the adhan
+  lead_minutes: number;
+  city: string;
+  country: string;
+  school: string;
+  mosque?: { id: number; name: string; iqamah: string | null };
+}
+
+export interface PlannedReminder {
+  prayer: string;
+  date: string;
+  at: Date;
+  fireAt: Date;
+  payload: PrayerReminder;
+}
+
+/**
+ * One reminder per subscribed prayer and day, fired `lead_minutes` before the adhan.
+ * @param context `timeZone` is the zone of the city, for timings without an offset suffix.
+ */
+export function planReminders(
+  days: MosqueScheduleDay[],
+  subscription: {
+    id: number;
+    prayers: WebhookPrayer[];
+    lead_minutes: number;
+  },
+  context: {
+    city: string;
+    country: string;
+    school: string;
+    timeZone: string | null;
+    mosque?: { id: number; name: string };
+  },
+): PlannedReminder[] {
+  const reminders: PlannedReminder[] = [];
+  for (const day of days) {
+    for (const { prayer, adhan, iqamah } of day.prayers) {
+      const subscribed = subscription.prayers.includes(
+        prayer === 'Jumuah' ? 'Dhuhr' : prayer,
+      );
+      if (!subscribed || adhan.startsWith('--')) {
+        continue;
+      }
+      const at = timingToDate(day.date, adhan, context.timeZone);
+      reminders.push({
+        prayer,
+        date: day.date,
+        at,
+        fireAt: new Date(at.getTime() - subscription.lead_minutes * 60000),
+        payload: {
+          event: 'prayer.reminder',
+          subscription_id: subscription.id,
+          prayer,
+          date: day.date,
+          timing: adhan,
+          at: at.toISOString(),
+          lead_minutes: subscription.lead_minutes,
+          city: context.city,
+          country: context.country,
+          school: context.school,
+          ...(context.mosque && { mosque: { ...context.mosque, iqamah } }),
+        },
+      });
+    }
+  }
+  return reminders;
+}
+
+/**
+ * Hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `sha256=<hex>` in SIGNATURE_HEADER.
+ * Signing the timestamp lets receivers reject replayed deliveries.
+ * @param timestamp Unix seconds, sent in TIMESTAMP_HEADER.
+ */
+export function signWebhook(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * Checks a SIGNATURE_HEADER value in constant time, as receivers should.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(
+    `sha256=${signWebhook(secret, timestamp, body)}`,
+  );
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Wait before the next attempt: `baseDelayMs`, then twice as long, and so on.
+ * @param attempts Attempts made so far, at least 1.
+ */
+export function retryDelayMs(attempts: number, baseDelayMs: number): number {
+  return baseDelayMs * 2 ** (attempts - 1);
+}
+
+/**
+ * UTC "YYYY-MM-DD HH:mm:ss", as stored in the DATETIME columns of the webhook tables.
+ */
+export function toSqlDateTime(instant: Date): string {
+  return instant.toISOString().slice(0, 19).replace('T', ' ');
+}
@@ -0,0 +1,20 @@
+import type { CityRow } from '../src/db.service';
+
+/**
+ * Rows shared by the unit specs.
+ */
+
+// Rabat, the only city in my_athan.sql
+export const rabat: CityRow = {
+  id: 1,
+  name: 'Rabat',
+  country_name: 'Morocco',
+  country_id: 1,
+  athan_school_id: 0,
+  latitude: 34.020882,
+  longitude: -6.84165,
+  timezone: 'Africa/Casablanca',
+  asr_school: null,
+  high_latitude_rule: null,
+  prayer_offsets: null,
+};